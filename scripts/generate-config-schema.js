@@ -0,0 +1,8 @@
+// Regenerates config.schema.json from the compiled sources, as part of npm run build
+const fs = require('fs');
+const path = require('path');
+const { createConfigSchema } = require('../dist/core/config-schema');
+const { getBuiltInRules } = require('../dist/rules');
+
+const schema = createConfigSchema(getBuiltInRules());
+fs.writeFileSync(path.join(__dirname, '..', 'config.schema.json'), `${JSON.stringify(schema, null, 2)}\n`);
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Baseline, createFingerprint, normalizeStatement } from '../../core/baseline';
+import { createFileResult, createLintResult } from '../../core/lint-result';
+import { LintResult, RuleCategory, Severity, Violation } from '../../types';
+
+describe('Baseline', () => {
+  const createViolation = (ruleId: string, migrationId: string, statement: string, line: number = 1): Violation => ({
+    ruleId,
+    ruleName: ruleId,
+    severity: Severity.ERROR,
+    message: `${ruleId} violation`,
+    line,
+    migrationId,
+    filePath: `prisma/migrations/${migrationId}_test/migration.sql`,
+    fingerprint: createFingerprint(ruleId, migrationId, statement),
+    category: RuleCategory.SCHEMA_SAFETY
+  });
+
+  const createResult = (violations: Violation[]): LintResult => {
+    const byMigration = new Map<string, Violation[]>();
+    for (const violation of violations) {
+      byMigration.set(violation.migrationId!, [...byMigration.get(violation.migrationId!) ?? [], violation]);
+    }
+    return createLintResult([...byMigration].map(([id, v]) =>
+      createFileResult({ id, filename: `prisma/migrations/${id}_test/migration.sql` }, v)
+    ));
+  };
+
+  describe('fingerprints', () => {
+    it('should ignore whitespace, comments and case in statement text', () => {
+      expect(normalizeStatement('-- drop it\nDROP   TABLE\n  "Users" ;')).toBe('drop table "users"');
+      expect(createFingerprint('no-drop-table', '20240101000000', 'DROP TABLE "Users";'))
+        .toBe(createFingerprint('no-drop-table', '20240101000000', 'drop table\n\t"Users"'));
+    });
+
+    it('should differ by rule and migration', () => {
+      const fingerprint = createFingerprint('no-drop-table', '20240101000000', 'DROP TABLE a;');
+
+      expect(createFingerprint('no-drop-column', '20240101000000', 'DROP TABLE a;')).not.toBe(fingerprint);
+      expect(createFingerprint('no-drop-table', '20240102000000', 'DROP TABLE a;')).not.toBe(fingerprint);
+    });
+  });
+
+  describe('fromViolations', () => {
+    it('should count identical findings in a single entry', () => {
+      const baseline = Baseline.fromViolations([
+        createViolation('no-drop-table', '20240101000000', 'DROP TABLE a;', 1),
+        createViolation('no-drop-table', '20240101000000', 'DROP TABLE a;', 5),
+        createViolation('no-drop-column', '20240101000000', 'ALTER TABLE a DROP COLUMN b;')
+      ]);
+
+      expect(baseline.getEntries().map(e => [e.ruleId, e.count])).toEqual([
+        ['no-drop-column', 1],
+        ['no-drop-table', 2]
+      ]);
+    });
+
+    it('should not record crashed rules', () => {
+      const baseline = Baseline.fromViolations([createViolation('internal-error', '20240101000000', 'DROP TABLE a;')]);
+
+      expect(baseline.getEntries()).toEqual([]);
+    });
+  });
+
+  describe('apply', () => {
+    it('should only report findings that are not in the baseline', () => {
+      const legacy = createViolation('no-drop-table', '20200101000000', 'DROP TABLE a;');
+      const fresh = createViolation('no-drop-table', '20240101000000', 'DROP TABLE b;');
+      const baseline = Baseline.fromViolations([legacy]);
+
+      const result = baseline.apply(createResult([{ ...legacy, line: 42 }, fresh]), 'baseline.json');
+
+      expect(result.violations).toEqual([fresh]);
+      expect(result.errorCount).toBe(1);
+      expect(result.baselined).toHaveLength(1);
+      expect(result.baselined![0].line).toBe(42);
+      expect(result.results![0].baselined).toHaveLength(1);
+    });
+
+    it('should only absorb as many findings as were recorded', () => {
+      const legacy = createViolation('no-drop-table', '20200101000000', 'DROP TABLE a;');
+      const baseline = Baseline.fromViolations([legacy]);
+
+      const result = baseline.apply(createResult([legacy, { ...legacy, line: 2 }]), 'baseline.json');
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.baselined).toHaveLength(1);
+    });
+
+    it('should flag entries that no longer match anything when detecting stale entries', () => {
+      const fixed = createViolation('no-drop-table', '20200101000000', 'DROP TABLE a;');
+      const baseline = Baseline.fromViolations([fixed]);
+
+      const result = baseline.apply(createResult([]), 'baseline.json', { detectStale: true });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]).toMatchObject({
+        ruleId: 'stale-baseline-entry',
+        severity: Severity.WARNING,
+        filePath: 'baseline.json',
+        migrationId: '20200101000000'
+      });
+      expect(result.warningCount).toBe(1);
+    });
+
+    it('should not flag stale entries unless requested', () => {
+      const baseline = Baseline.fromViolations([createViolation('no-drop-table', '20200101000000', 'DROP TABLE a;')]);
+
+      expect(baseline.apply(createResult([]), 'baseline.json').violations).toHaveLength(0);
+    });
+  });
+
+  describe('save and load', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip entries through the baseline file', () => {
+      const filePath = path.join(tempDir, '.prisma-strong-migrations-baseline.json');
+      const baseline = Baseline.fromViolations([createViolation('no-drop-table', '20200101000000', 'DROP TABLE a;')]);
+
+      baseline.save(filePath);
+
+      expect(Baseline.load(filePath)!.getEntries()).toEqual(baseline.getEntries());
+    });
+
+    it('should return undefined when there is no baseline file', () => {
+      expect(Baseline.load(path.join(tempDir, 'missing.json'))).toBeUndefined();
+    });
+
+    it('should reject files with an unsupported version', () => {
+      const filePath = path.join(tempDir, 'baseline.json');
+      fs.writeFileSync(filePath, JSON.stringify({ version: 99, entries: [] }));
+
+      expect(() => Baseline.load(filePath)).toThrow('unsupported baseline version 99');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createConfigSchema, validateConfig } from '../../core/config-schema';
+import { getBuiltInRules } from '../../rules';
+
+describe('config schema', () => {
+  const rules = getBuiltInRules();
+
+  describe('validateConfig', () => {
+    it('should accept a valid configuration', () => {
+      expect(validateConfig({
+        $schema: './node_modules/prisma-strong-migrations/config.schema.json',
+        dialect: 'mysql',
+        parseErrors: 'off',
+        include: ['2024*/migration.sql'],
+        rules: { 'no-drop-table': { enabled: true, severity: 'warning', options: {} } },
+        overrides: [{ files: '2023*', rules: { 'no-drop-column': { enabled: false } } }]
+      }, rules)).toEqual({ errors: [], warnings: [] });
+    });
+
+    it('should warn about unknown rule IDs with a suggestion', () => {
+      const { errors, warnings } = validateConfig({
+        rules: { 'no-drop-colum': { enabled: false } },
+        overrides: [{ files: ['2023*'], rules: { 'acme-rule': { enabled: true } } }]
+      }, rules);
+
+      expect(errors).toEqual([]);
+      expect(warnings).toEqual([
+        'rules.no-drop-colum is not a known rule (did you mean "no-drop-column"?)',
+        'overrides[0].rules.acme-rule is not a known rule'
+      ]);
+    });
+
+    it('should reject values outside an enum', () => {
+      expect(validateConfig({
+        dialect: 'postgres',
+        output: 'xml',
+        rules: { 'no-drop-table': { severity: 'warn' } }
+      }, rules).errors).toEqual([
+        'dialect must be one of: postgresql, mysql, mariadb, sqlite, bigquery, got "postgres" (did you mean "postgresql"?)',
+        'output must be one of: json, text, junit, got "xml"',
+        'rules.no-drop-table.severity must be one of: error, warning, info, got "warn" (did you mean "warning"?)'
+      ]);
+    });
+
+    it('should reject unknown settings and mistyped values', () => {
+      expect(validateConfig({
+        failOnWarnings: true,
+        strictParse: 'yes',
+        ruleTimeout: 0,
+        exclude: 'old',
+        rules: { 'no-drop-table': 'off', 'no-drop-column': { enable: false } },
+        overrides: [{ rules: {}, file: ['2023*'] }]
+      }, rules).errors).toEqual([
+        'failOnWarnings is not a known setting (did you mean "failOnWarning"?)',
+        'strictParse must be a boolean',
+        'ruleTimeout must be a positive number',
+        'exclude must be an array of strings',
+        'rules.no-drop-table must be an object such as { enabled: true, severity: \'error\' }',
+        'rules.no-drop-column.enable is not a known rule setting (did you mean "enabled"?)',
+        'overrides[0].files must be a string or an array of strings',
+        'overrides[0].file is not a known override setting (did you mean "files"?)'
+      ]);
+    });
+  });
+
+  describe('createConfigSchema', () => {
+    it('should match the shipped config.schema.json (regenerate with npm run build)', () => {
+      const shipped = JSON.parse(fs.readFileSync(path.join(__dirname, '../../../config.schema.json'), 'utf-8'));
+
+      expect(shipped).toEqual(createConfigSchema(rules));
+    });
+
+    it('should describe the options of each rule', () => {
+      const schema = createConfigSchema(rules) as any;
+      const piiRule = schema.definitions.rules.properties['require-pii-comments'];
+
+      expect(piiRule.properties.options.properties.patterns).toMatchObject({
+        type: 'array',
+        items: { type: 'string', format: 'regex' }
+      });
+      expect(schema.definitions.rules.properties['no-drop-table'].properties).not.toHaveProperty('options');
+    });
+  });
+});
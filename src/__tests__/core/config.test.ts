@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ConfigManager } from '../../core/config';
 import { OutputFormat, Severity } from '../../types';
 import { cosmiconfigSync } from 'cosmiconfig';
@@ -25,7 +28,10 @@ jest.mock('../../rules', () => ({
       severity: Severity.INFO,
       enabled: false,
       category: 'data-integrity',
-      check: jest.fn()
+      check: jest.fn(),
+      optionsSchema: {
+        patterns: { type: 'string[]', format: 'regex', description: 'PII column patterns' }
+      }
     }
   ])
 }));
@@ -101,6 +107,251 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('extends', () => {
+    it('should merge rules over the default rule config one rule at a time', () => {
+      mockExplorer.search.mockReturnValue({
+        config: { rules: { 'no-drop-table': { severity: Severity.WARNING } } }
+      });
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getRuleConfig('no-drop-table')).toEqual({ enabled: true, severity: Severity.WARNING });
+    });
+
+    it('should apply built-in presets before the config itself', () => {
+      mockExplorer.search.mockReturnValue({
+        config: {
+          extends: 'prisma-strong-migrations:strict',
+          failOnWarning: false,
+          rules: { 'no-drop-table': { severity: Severity.WARNING } }
+        }
+      });
+
+      const config = new ConfigManager().getConfig();
+
+      expect(config.failOnWarning).toBe(false);
+      expect(config.rules['require-pii-comments']).toEqual({ enabled: true, severity: Severity.INFO });
+      expect(config.rules['no-drop-table']).toEqual({ enabled: true, severity: Severity.WARNING });
+      expect(config).not.toHaveProperty('extends');
+    });
+
+    it('should resolve extended files relative to the config that extends them', () => {
+      mockExplorer.search.mockReturnValue({
+        filepath: '/project/.prisma-strong-migrationsrc.js',
+        config: {
+          extends: ['./config/base.js'],
+          rules: { 'require-pii-comments': { options: { patterns: ['\\bssn\\b'] } } }
+        }
+      });
+      mockExplorer.load.mockImplementation((filepath: string) => ({
+        filepath,
+        config: {
+          migrationsPath: './db/migrations',
+          rules: { 'require-pii-comments': { enabled: true, severity: Severity.WARNING, options: { patterns: ['\\bemail\\b'] } } }
+        }
+      }));
+
+      const config = new ConfigManager().getConfig();
+
+      expect(mockExplorer.load).toHaveBeenCalledWith('/project/config/base.js');
+      expect(config.migrationsPath).toBe('./db/migrations');
+      expect(config.rules['require-pii-comments']).toEqual({
+        enabled: true,
+        severity: Severity.WARNING,
+        options: { patterns: ['\\bssn\\b'] }
+      });
+    });
+
+    it('should keep the overrides of every extended configuration', () => {
+      mockExplorer.search.mockReturnValue({
+        filepath: '/project/.prisma-strong-migrationsrc.js',
+        config: {
+          extends: './base.js',
+          overrides: [{ files: ['2024*'], rules: { 'no-drop-table': { severity: Severity.WARNING } } }]
+        }
+      });
+      mockExplorer.load.mockReturnValue({
+        filepath: '/project/base.js',
+        config: { ignoreBefore: '20230101000000', overrides: [{ files: ['2023*'], rules: { 'no-drop-table': { enabled: false } } }] }
+      });
+
+      const config = new ConfigManager().getConfig();
+
+      expect(config.ignoreBefore).toBe('20230101000000');
+      expect(config.overrides?.map(override => override.files)).toEqual([['2023*'], ['2024*']]);
+    });
+
+    it('should reject unknown presets', () => {
+      mockExplorer.search.mockReturnValue({ config: { extends: 'prisma-strong-migrations:lenient' } });
+
+      expect(() => new ConfigManager()).toThrow(
+        'Unknown preset "prisma-strong-migrations:lenient" (expected one of: prisma-strong-migrations:recommended, ' +
+        'prisma-strong-migrations:strict, prisma-strong-migrations:zero-downtime, prisma-strong-migrations:all)'
+      );
+    });
+
+    it('should reject circular extends', () => {
+      mockExplorer.search.mockReturnValue({ filepath: '/project/a.js', config: { extends: './b.js' } });
+      mockExplorer.load.mockReturnValue({ filepath: '/project/b.js', config: { extends: './a.js' } });
+
+      expect(() => new ConfigManager()).toThrow('Circular extends: /project/a.js -> /project/b.js -> /project/a.js');
+    });
+  });
+
+  describe('Prisma project detection', () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psm-config-'));
+      fs.mkdirSync(path.join(projectDir, 'db', 'migrations'), { recursive: true });
+      fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({ prisma: { schema: 'db/schema.prisma' } }));
+      fs.writeFileSync(path.join(projectDir, 'db', 'schema.prisma'), 'datasource db {\n  provider = "mysql"\n}');
+      fs.writeFileSync(path.join(projectDir, 'db', 'migrations', 'migration_lock.toml'), 'provider = "mysql"');
+      jest.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it('should take the dialect and migrations path from the Prisma project', () => {
+      mockExplorer.search.mockReturnValue(null);
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getConfig()).toMatchObject({ dialect: 'mysql', migrationsPath: './db/migrations' });
+      expect(configManager.getWarnings()).toEqual([]);
+    });
+
+    it('should keep explicit settings, warning when they contradict the lock file', () => {
+      mockExplorer.search.mockReturnValue({ config: { dialect: 'postgresql', migrationsPath: './db/migrations' } });
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getConfig().dialect).toBe('postgresql');
+      expect(configManager.getWarnings()).toEqual([
+        'dialect "postgresql" is configured, but ./db/migrations/migration_lock.toml records provider "mysql" (dialect "mysql")'
+      ]);
+    });
+
+    it('should warn when the schema and the lock file disagree', () => {
+      fs.writeFileSync(path.join(projectDir, 'db', 'schema.prisma'), 'datasource db {\n  provider = "sqlserver"\n}');
+      mockExplorer.search.mockReturnValue(null);
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getConfig().dialect).toBe('mysql');
+      expect(configManager.getWarnings()).toEqual([
+        './db/schema.prisma uses provider "sqlserver", but ./db/migrations/migration_lock.toml records "mysql"'
+      ]);
+    });
+  });
+
+  describe('plugins', () => {
+    let projectDir: string;
+
+    beforeEach(() => {
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psm-config-plugins-'));
+      fs.mkdirSync(path.join(projectDir, 'migration-rules'));
+      fs.writeFileSync(path.join(projectDir, 'acme-plugin.js'), `module.exports = {
+        name: 'acme',
+        rules: { 'no-uuid-v1': { name: 'No UUID v1', description: 'Use UUID v7', severity: 'warning', category: 'best-practices', check: () => [] } }
+      };`);
+      fs.writeFileSync(path.join(projectDir, 'migration-rules', 'no-drop-table.js'), `module.exports = {
+        name: 'Shadow', description: 'Shadows a built-in rule', severity: 'error', category: 'schema-safety', check: () => []
+      };`);
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it('should load plugin rules, relative to the configuration file, as known rules', () => {
+      mockExplorer.search.mockReturnValue({
+        filepath: path.join(projectDir, '.prisma-strong-migrationsrc.json'),
+        config: { plugins: ['./acme-plugin.js'], rules: { 'acme/no-uuid-v1': { severity: Severity.ERROR } } }
+      });
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getPluginRules().map(rule => rule.id)).toEqual(['acme/no-uuid-v1']);
+      expect(configManager.getRuleConfig('acme/no-uuid-v1')).toEqual({ enabled: true, severity: Severity.ERROR });
+      expect(configManager.getWarnings()).toEqual([]);
+    });
+
+    it('should reject rules that reuse an existing rule ID', () => {
+      mockExplorer.search.mockReturnValue({
+        filepath: path.join(projectDir, '.prisma-strong-migrationsrc.json'),
+        config: { rulesDir: './migration-rules' }
+      });
+
+      expect(() => new ConfigManager()).toThrow('Rule "no-drop-table" is defined more than once');
+    });
+  });
+
+  describe('rule options', () => {
+    it('should keep valid rule options', () => {
+      mockExplorer.search.mockReturnValue({
+        config: {
+          rules: {
+            'require-pii-comments': { enabled: true, options: { patterns: ['\\bnational_id\\b'] } }
+          }
+        }
+      });
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getRuleConfig('require-pii-comments')?.options).toEqual({ patterns: ['\\bnational_id\\b'] });
+    });
+
+    it('should reject invalid rule options when loading', () => {
+      mockExplorer.search.mockReturnValue({
+        config: {
+          rules: {
+            'require-pii-comments': { enabled: true, options: { patterns: 'email' } },
+            'no-drop-table': { enabled: true, options: { force: true } }
+          }
+        }
+      });
+
+      expect(() => new ConfigManager()).toThrow(
+        'Invalid rule options:\n  rules.no-drop-table does not accept options, got "force"\n' +
+        '  rules.require-pii-comments.options.patterns must be an array of strings'
+      );
+    });
+
+    it('should reject invalid rule options in overrides', () => {
+      mockExplorer.search.mockReturnValue({
+        config: {
+          overrides: [{ files: ['2023*'], rules: { 'require-pii-comments': { options: { patterns: 'email' } } } }]
+        }
+      });
+
+      expect(() => new ConfigManager()).toThrow(
+        'Invalid rule options:\n  overrides[0].rules.require-pii-comments.options.patterns must be an array of strings'
+      );
+    });
+
+    it('should reject invalid settings when loading', () => {
+      mockExplorer.search.mockReturnValue({ config: { dialect: 'postgres', rules: { 'no-drop-table': { severity: 'fatal' } } } });
+
+      expect(() => new ConfigManager()).toThrow(
+        'Invalid configuration:\n' +
+        '  rules.no-drop-table.severity must be one of: error, warning, info, got "fatal"\n' +
+        '  dialect must be one of: postgresql, mysql, mariadb, sqlite, bigquery, got "postgres" (did you mean "postgresql"?)'
+      );
+    });
+
+    it('should keep warnings about unknown rule IDs', () => {
+      mockExplorer.search.mockReturnValue({ config: { rules: { 'no-drop-tables': { enabled: false } } } });
+
+      const configManager = new ConfigManager();
+
+      expect(configManager.getWarnings()).toEqual(['rules.no-drop-tables is not a known rule (did you mean "no-drop-table"?)']);
+    });
+  });
+
   describe('getMigrationsPath', () => {
     it('should return configured migrations path', () => {
       mockExplorer.search.mockReturnValue({
@@ -195,7 +446,7 @@ describe('ConfigManager', () => {
     it('should return undefined when rule has no severity configured', () => {
       const userConfig = {
         rules: {
-          'no-drop-table': { enabled: true }
+          'custom-rule': { enabled: true }
         }
       };
       
@@ -203,7 +454,7 @@ describe('ConfigManager', () => {
       
       const configManager = new ConfigManager();
       
-      expect(configManager.getRuleSeverity('no-drop-table')).toBeUndefined();
+      expect(configManager.getRuleSeverity('custom-rule')).toBeUndefined();
     });
   });
 
@@ -0,0 +1,257 @@
+import { applyDirectives, parseDirective } from '../../core/directives';
+import { SQLParser } from '../../core/sql-parser';
+import { Migration, RuleCategory, Severity, SuppressionKind, Violation } from '../../types';
+
+describe('Suppression directives', () => {
+  const parser = new SQLParser('postgresql');
+
+  const createMigration = (content: string): Migration => ({
+    id: '20240101000000',
+    filename: 'prisma/migrations/20240101000000_test/migration.sql',
+    content,
+    statements: parser.parseStatements(content),
+    comments: parser.parseComments(content)
+  });
+
+  const createViolation = (ruleId: string, line: number, endLine: number = line): Violation => ({
+    ruleId,
+    ruleName: ruleId,
+    severity: Severity.ERROR,
+    message: `${ruleId} violation`,
+    line,
+    endLine,
+    category: RuleCategory.SCHEMA_SAFETY
+  });
+
+  describe('parseDirective', () => {
+    it('should parse rule IDs and justification', () => {
+      const [comment] = parser.parseComments(
+        '-- strong-migrations-disable-next-line no-drop-column, no-drop-table -- reason: column unused since v4.2'
+      );
+
+      expect(parseDirective(comment)).toEqual({
+        type: 'disable-next-line',
+        ruleIds: ['no-drop-column', 'no-drop-table'],
+        justification: 'column unused since v4.2',
+        line: 1,
+        endLine: 1,
+        column: 1
+      });
+    });
+
+    it('should ignore regular comments', () => {
+      const [comment] = parser.parseComments('-- DropColumn');
+
+      expect(parseDirective(comment)).toBeUndefined();
+    });
+
+    it('should leave justification undefined when the reason is missing', () => {
+      const [comment] = parser.parseComments('-- strong-migrations-disable no-drop-column');
+
+      expect(parseDirective(comment)?.justification).toBeUndefined();
+    });
+  });
+
+  describe('applyDirectives', () => {
+    it('should suppress matching violations on the next line', () => {
+      const migration = createMigration([
+        '-- strong-migrations-disable-next-line no-drop-column -- reason: column unused since v4.2',
+        'ALTER TABLE users DROP COLUMN legacy;'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-column', 2)], migration);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].suppression).toEqual({
+        kind: SuppressionKind.DIRECTIVE,
+        justification: 'column unused since v4.2',
+        line: 1
+      });
+    });
+
+    it('should suppress violations anywhere in a multi-line statement on the next line', () => {
+      const migration = createMigration([
+        '-- strong-migrations-disable-next-line no-drop-column -- reason: column unused since v4.2',
+        'ALTER TABLE "users"',
+        '  DROP COLUMN "email";',
+        'ALTER TABLE "posts" DROP COLUMN "body";'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-column', 3), createViolation('no-drop-column', 4)], migration);
+
+      expect(result.map(v => [v.ruleId, v.line, v.suppression?.kind])).toEqual([
+        ['no-drop-column', 3, SuppressionKind.DIRECTIVE],
+        ['no-drop-column', 4, undefined]
+      ]);
+    });
+
+    it('should not suppress other rules or other lines', () => {
+      const migration = createMigration([
+        '-- strong-migrations-disable-next-line no-drop-column -- reason: reviewed',
+        'ALTER TABLE users DROP COLUMN legacy;',
+        'DROP TABLE posts;'
+      ].join('\n'));
+
+      const result = applyDirectives([
+        createViolation('no-drop-column', 2),
+        createViolation('no-drop-table', 2),
+        createViolation('no-drop-column', 3)
+      ], migration);
+
+      expect(result.filter(v => v.suppression).map(v => [v.ruleId, v.line])).toEqual([['no-drop-column', 2]]);
+    });
+
+    it('should suppress violations between disable and enable directives', () => {
+      const migration = createMigration([
+        'DROP TABLE a;',
+        '-- strong-migrations-disable no-drop-table -- reason: tables were never used',
+        'DROP TABLE b;',
+        'DROP TABLE c;',
+        '-- strong-migrations-enable no-drop-table',
+        'DROP TABLE d;'
+      ].join('\n'));
+
+      const result = applyDirectives([1, 3, 4, 6].map(line => createViolation('no-drop-table', line)), migration);
+
+      expect(result.map(v => [v.line, Boolean(v.suppression)])).toEqual([
+        [1, false],
+        [3, true],
+        [4, true],
+        [6, false]
+      ]);
+    });
+
+    it('should disable every rule until the end of the file when no rules are listed', () => {
+      const migration = createMigration([
+        '/* strong-migrations-disable -- reason: generated by legacy tooling */',
+        'DROP TABLE a;',
+        'ALTER TABLE b DROP COLUMN c;'
+      ].join('\n'));
+
+      const result = applyDirectives([
+        createViolation('no-drop-table', 2),
+        createViolation('no-drop-column', 3)
+      ], migration);
+
+      expect(result.every(v => v.suppression?.justification === 'generated by legacy tooling')).toBe(true);
+    });
+
+    it('should report directives without a justification and not suppress anything', () => {
+      const migration = createMigration([
+        '-- strong-migrations-disable-next-line no-drop-table',
+        'DROP TABLE a;'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-table', 2)], migration);
+
+      expect(result[0].suppression).toBeUndefined();
+      expect(result[1]).toMatchObject({
+        ruleId: 'invalid-directive',
+        severity: Severity.ERROR,
+        line: 1,
+        filePath: 'prisma/migrations/20240101000000_test/migration.sql',
+        category: RuleCategory.DIAGNOSTICS
+      });
+      expect(result[1].message).toContain('requires a justification');
+    });
+
+    it('should report unused directives per rule', () => {
+      const migration = createMigration([
+        '-- strong-migrations-disable-next-line no-drop-table, no-drop-column -- reason: reviewed',
+        'DROP TABLE a;'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-table', 2)], migration);
+
+      expect(result).toHaveLength(2);
+      expect(result[1]).toMatchObject({
+        ruleId: 'unused-directive',
+        severity: Severity.WARNING,
+        line: 1,
+        message: "Unused strong-migrations-disable-next-line directive (no problems were reported from 'no-drop-column')"
+      });
+    });
+
+    it('should acknowledge every violation inside a safety-assured region', () => {
+      const migration = createMigration([
+        'DROP TABLE a;',
+        '-- safety-assured:start reason="orders archived to S3" approver="jane.doe"',
+        'DROP TABLE b;',
+        'ALTER TABLE c DROP COLUMN d;',
+        '-- safety-assured:end',
+        'DROP TABLE e;'
+      ].join('\n'));
+
+      const result = applyDirectives([
+        createViolation('no-drop-table', 1),
+        createViolation('no-drop-table', 3),
+        createViolation('no-drop-column', 4),
+        createViolation('no-drop-table', 6)
+      ], migration);
+
+      expect(result.map(v => v.suppression?.kind)).toEqual([
+        undefined,
+        SuppressionKind.SAFETY_ASSURED,
+        SuppressionKind.SAFETY_ASSURED,
+        undefined
+      ]);
+      expect(result[1].suppression).toEqual({
+        kind: SuppressionKind.SAFETY_ASSURED,
+        justification: 'orders archived to S3',
+        approver: 'jane.doe',
+        line: 2
+      });
+    });
+
+    it('should reject safety-assured regions without a reason or approver', () => {
+      const migration = createMigration([
+        '-- safety-assured:start reason="looks fine"',
+        'DROP TABLE a;',
+        '-- safety-assured:end'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-table', 2)], migration);
+
+      expect(result[0].suppression).toBeUndefined();
+      expect(result.slice(1).map(v => [v.ruleId, v.line])).toEqual([['invalid-directive', 1]]);
+      expect(result[1].message).toContain('approver');
+    });
+
+    it('should reject unterminated and unmatched safety-assured directives', () => {
+      const migration = createMigration([
+        '-- safety-assured:end',
+        '-- safety-assured:start reason="backfilled" approver="ops"',
+        'DROP TABLE a;'
+      ].join('\n'));
+
+      const result = applyDirectives([createViolation('no-drop-table', 3)], migration);
+
+      expect(result[0].suppression).toBeUndefined();
+      expect(result.slice(1).map(v => [v.ruleId, v.line])).toEqual([
+        ['invalid-directive', 1],
+        ['invalid-directive', 2]
+      ]);
+    });
+
+    it('should report safety-assured regions that contain no violations', () => {
+      const migration = createMigration([
+        '-- safety-assured:start reason="backfilled" approver="ops"',
+        'CREATE TABLE a (id INT);',
+        '-- safety-assured:end'
+      ].join('\n'));
+
+      const result = applyDirectives([], migration);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ ruleId: 'unused-directive', message: 'Unused safety-assured region' });
+    });
+
+    it('should not report unused directives when disabled', () => {
+      const migration = createMigration('-- strong-migrations-disable -- reason: reviewed\nSELECT 1;');
+
+      const result = applyDirectives([], migration, { reportUnusedDirectives: false });
+
+      expect(result).toHaveLength(0);
+    });
+  });
+});
@@ -1,10 +1,12 @@
+import * as path from 'path';
 import { PrismaStrongMigrationsLinter } from '../../core/linter';
 import { MigrationScanner } from '../../core/migration-scanner';
 import { RuleEngine } from '../../core/rule-engine';
 import { ConfigManager } from '../../core/config';
+import { Profiler } from '../../core/profiler';
 import { GitUtils } from '../../utils/git';
 import { getBuiltInRules } from '../../rules';
-import { Severity, RuleCategory } from '../../types';
+import { Severity, RuleCategory, SuppressionKind } from '../../types';
 
 // Mock dependencies
 jest.mock('../../core/migration-scanner');
@@ -58,21 +60,23 @@ describe('PrismaStrongMigrationsLinter', () => {
         migrationsPath: './prisma/migrations',
         rules: {
           'no-drop-table': { enabled: true, severity: Severity.ERROR },
-          'require-pii-comments': { enabled: false, severity: Severity.INFO }
+          'require-pii-comments': { enabled: false, severity: Severity.INFO, options: { patterns: ['\\bssn\\b'] } }
         }
       }),
       getMigrationsPath: jest.fn().mockReturnValue('./prisma/migrations'),
       getIncludePatterns: jest.fn().mockReturnValue(['**/*.sql']),
-      getExcludePatterns: jest.fn().mockReturnValue(['**/test/**'])
+      getExcludePatterns: jest.fn().mockReturnValue(['**/test/**']),
+      getPluginRules: jest.fn().mockReturnValue([])
     };
     mockConfigManager.mockImplementation(() => mockConfigInstance);
 
     // Mock migration scanner
     mockScannerInstance = {
-      scanMigrations: jest.fn(),
+      scanMigrations: jest.fn().mockResolvedValue([]),
       getRecentMigrations: jest.fn(),
       getMigrationsSince: jest.fn(),
-      scanSingleMigration: jest.fn()
+      scanSingleMigration: jest.fn(),
+      listMigrationDirectories: jest.fn().mockResolvedValue([])
     };
     mockMigrationScanner.mockImplementation(() => mockScannerInstance);
 
@@ -85,7 +89,8 @@ describe('PrismaStrongMigrationsLinter', () => {
       getEnabledRules: jest.fn(),
       getAllRules: jest.fn(),
       analyzeMigrations: jest.fn(),
-      analyzeMigration: jest.fn()
+      analyzeMigration: jest.fn(),
+      analyzeChange: jest.fn().mockResolvedValue([])
     };
     mockRuleEngine.mockImplementation(() => mockRuleEngineInstance);
 
@@ -95,10 +100,18 @@ describe('PrismaStrongMigrationsLinter', () => {
   describe('constructor', () => {
     it('should initialize with default config', () => {
       expect(mockConfigManager).toHaveBeenCalledWith(undefined);
-      expect(mockMigrationScanner).toHaveBeenCalledWith('postgresql');
+      expect(mockMigrationScanner).toHaveBeenCalledWith('postgresql', undefined);
       expect(mockRuleEngine).toHaveBeenCalled();
     });
 
+    it('should share a profiler between the scanner and the rule engine when timing', () => {
+      new PrismaStrongMigrationsLinter(undefined, { timing: true });
+
+      const profiler = mockMigrationScanner.mock.calls[1][1];
+      expect(profiler).toBeInstanceOf(Profiler);
+      expect(mockRuleEngine.mock.calls[1][1]).toMatchObject({ profiler });
+    });
+
     it('should initialize with custom config path', () => {
       new PrismaStrongMigrationsLinter('./custom-config.js');
       
@@ -123,8 +136,31 @@ describe('PrismaStrongMigrationsLinter', () => {
       expect(addRuleCalls[1][0]).toMatchObject({
         id: 'require-pii-comments',
         enabled: false,
-        severity: Severity.INFO
+        severity: Severity.INFO,
+        options: { patterns: ['\\bssn\\b'] }
+      });
+    });
+
+    it('should configure plugin rules like built-in rules', () => {
+      const pluginRule = {
+        id: 'acme/no-uuid-v1',
+        name: 'No UUID v1',
+        description: 'Use UUID v7',
+        severity: Severity.WARNING,
+        category: RuleCategory.BEST_PRACTICES,
+        enabled: true,
+        check: jest.fn()
+      };
+      mockConfigInstance.getPluginRules.mockReturnValue([pluginRule]);
+      mockConfigInstance.getConfig.mockReturnValue({
+        dialect: 'postgresql',
+        rules: { 'acme/no-uuid-v1': { enabled: true, severity: Severity.ERROR } }
       });
+      mockRuleEngineInstance.addRule.mockClear();
+
+      new PrismaStrongMigrationsLinter();
+
+      expect(mockRuleEngineInstance.addRule).toHaveBeenLastCalledWith({ ...pluginRule, severity: Severity.ERROR });
     });
   });
 
@@ -154,7 +190,10 @@ describe('PrismaStrongMigrationsLinter', () => {
         ['**/*.sql'],
         ['**/test/**']
       );
-      expect(mockRuleEngineInstance.analyzeMigrations).toHaveBeenCalledWith(mockMigrations);
+      expect(mockRuleEngineInstance.analyzeMigrations).toHaveBeenCalledWith(mockMigrations, mockMigrations, {
+        migrationsPath: './prisma/migrations',
+        directories: []
+      });
       expect(result).toEqual(mockResult);
     });
   });
@@ -183,6 +222,23 @@ describe('PrismaStrongMigrationsLinter', () => {
       expect(result).toEqual(mockResult);
     });
 
+    it('should give the engine the full migration history to replay', async () => {
+      const history = [
+        { id: '001', filename: 'migration1.sql', content: 'CREATE TABLE test (id INT);', statements: [] },
+        { id: '002', filename: 'migration2.sql', content: 'ALTER TABLE test ADD COLUMN name TEXT;', statements: [] }
+      ];
+      mockScannerInstance.scanMigrations.mockResolvedValue(history);
+      mockScannerInstance.getRecentMigrations.mockResolvedValue([history[1]]);
+      mockRuleEngineInstance.analyzeMigrations.mockResolvedValue({
+        violations: [], totalFiles: 1, totalViolations: 0, errorCount: 0, warningCount: 0, infoCount: 0
+      });
+
+      await linter.lintRecentMigrations();
+
+      expect(mockScannerInstance.scanMigrations).toHaveBeenCalledWith('./prisma/migrations', ['**/*.sql']);
+      expect(mockRuleEngineInstance.analyzeMigrations).toHaveBeenCalledWith([history[1]], history, expect.anything());
+    });
+
     it('should default to 1 recent migration', async () => {
       mockScannerInstance.getRecentMigrations.mockResolvedValue([]);
       mockRuleEngineInstance.analyzeMigrations.mockResolvedValue({
@@ -246,14 +302,31 @@ describe('PrismaStrongMigrationsLinter', () => {
       const result = await linter.lintFile('./test.sql');
 
       expect(mockScannerInstance.scanSingleMigration).toHaveBeenCalledWith('./test.sql');
-      expect(mockRuleEngineInstance.analyzeMigration).toHaveBeenCalledWith(mockMigration);
+      expect(mockRuleEngineInstance.analyzeMigration).toHaveBeenCalledWith(mockMigration, []);
       expect(result).toEqual({
         violations: mockViolations,
+        suppressed: [],
+        acknowledged: [],
+        baselined: [],
+        results: [
+          {
+            filePath: 'single.sql',
+            migrationId: 'single',
+            violations: mockViolations,
+            suppressed: [],
+            acknowledged: [],
+            baselined: [],
+            errorCount: 1,
+            warningCount: 0,
+            infoCount: 0
+          }
+        ],
         totalFiles: 1,
         totalViolations: 1,
         errorCount: 1,
         warningCount: 0,
-        infoCount: 0
+        infoCount: 0,
+        parsing: { totalStatements: 0, textFallbackStatements: 0 }
       });
     });
   });
@@ -261,9 +334,9 @@ describe('PrismaStrongMigrationsLinter', () => {
   describe('lintChangedMigrations', () => {
     beforeEach(() => {
       mockGitUtils.isGitRepository.mockReturnValue(true);
-      mockGitUtils.getChangedMigrationFiles.mockReturnValue([
-        './prisma/migrations/001_init/migration.sql',
-        './prisma/migrations/002_users/migration.sql'
+      mockGitUtils.getMigrationChanges.mockReturnValue([
+        { kind: 'added', filePath: '/project/prisma/migrations/001_init/migration.sql', migrationId: '001' },
+        { kind: 'added', filePath: '/project/prisma/migrations/002_users/migration.sql', migrationId: '002' }
       ]);
     });
 
@@ -281,12 +354,12 @@ describe('PrismaStrongMigrationsLinter', () => {
       const result = await linter.lintChangedMigrations();
 
       expect(mockGitUtils.isGitRepository).toHaveBeenCalled();
-      expect(mockGitUtils.getChangedMigrationFiles).toHaveBeenCalledWith('./prisma/migrations', {});
+      expect(mockGitUtils.getMigrationChanges).toHaveBeenCalledWith('./prisma/migrations', {});
       expect(mockScannerInstance.scanSingleMigration).toHaveBeenCalledTimes(2);
       expect(result.totalFiles).toBe(2);
     });
 
-    it('should pass git options to getChangedMigrationFiles', async () => {
+    it('should pass git options to getMigrationChanges', async () => {
       const gitOptions = {
         base: 'origin/develop',
         addedOnly: true
@@ -299,16 +372,20 @@ describe('PrismaStrongMigrationsLinter', () => {
 
       await linter.lintChangedMigrations(gitOptions);
 
-      expect(mockGitUtils.getChangedMigrationFiles).toHaveBeenCalledWith('./prisma/migrations', gitOptions);
+      expect(mockGitUtils.getMigrationChanges).toHaveBeenCalledWith('./prisma/migrations', gitOptions);
     });
 
     it('should return empty result when no files changed', async () => {
-      mockGitUtils.getChangedMigrationFiles.mockReturnValue([]);
+      mockGitUtils.getMigrationChanges.mockReturnValue([]);
 
       const result = await linter.lintChangedMigrations();
 
       expect(result).toEqual({
         violations: [],
+        results: [],
+        suppressed: [],
+        acknowledged: [],
+        baselined: [],
         totalFiles: 0,
         totalViolations: 0,
         errorCount: 0,
@@ -340,16 +417,117 @@ describe('PrismaStrongMigrationsLinter', () => {
         expect.stringContaining('Warning: Could not analyze migration file')
       );
       expect(result.totalFiles).toBe(2); // Still counts the file even if it failed
+      expect(result.results).toHaveLength(1);
       
       consoleSpy.mockRestore();
     });
+
+    it('should only run change rules on modified and deleted migrations', async () => {
+      const violation = {
+        ruleId: 'no-modify-applied-migration',
+        ruleName: 'No Modify Applied Migration',
+        severity: Severity.ERROR,
+        message: 'Migration 001_init was modified after it was merged',
+        line: 1,
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      };
+      mockGitUtils.getMigrationChanges.mockReturnValue([
+        { kind: 'modified', filePath: path.resolve('prisma/migrations/001_init/migration.sql'), migrationId: '001' },
+        { kind: 'deleted', filePath: path.resolve('prisma/migrations/002_users/migration.sql'), migrationId: '002' }
+      ]);
+      mockGitUtils.getMigrationIdsAt.mockReturnValue(['001', '002', '003']);
+      mockRuleEngineInstance.analyzeChange
+        .mockResolvedValueOnce([{ ...violation, filePath: 'prisma/migrations/001_init/migration.sql' }])
+        .mockResolvedValueOnce([]);
+
+      const result = await linter.lintChangedMigrations();
+
+      expect(mockScannerInstance.scanSingleMigration).not.toHaveBeenCalled();
+      expect(mockRuleEngineInstance.analyzeChange).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: 'modified' }),
+        path.join('prisma', 'migrations', '001_init', 'migration.sql'),
+        ['001', '002', '003']
+      );
+      expect(mockGitUtils.getMigrationIdsAt).toHaveBeenCalledWith('./prisma/migrations', 'origin/main');
+      expect(result.totalFiles).toBe(2);
+      expect(result.errorCount).toBe(1);
+      expect(result.results!.map(fileResult => fileResult.filePath)).toEqual([
+        path.join('prisma', 'migrations', '001_init', 'migration.sql'),
+        path.join('prisma', 'migrations', '002_users', 'migration.sql')
+      ]);
+    });
+  });
+
+  describe('lintChangedMigrations with onlyNewLines', () => {
+    const filePath = path.resolve('prisma/migrations/001_init/migration.sql');
+    const finding = (line: number, endLine: number) => ({
+      ruleId: 'no-drop-table',
+      ruleName: 'No Drop Table',
+      severity: Severity.ERROR,
+      message: `Dropping a table on line ${line}`,
+      line,
+      endLine,
+      category: RuleCategory.SCHEMA_SAFETY
+    });
+
+    beforeEach(() => {
+      mockGitUtils.isGitRepository.mockReturnValue(true);
+      mockGitUtils.getMigrationChanges.mockReturnValue([{ kind: 'modified', filePath, migrationId: '001' }]);
+      mockGitUtils.getAddedLines.mockReturnValue(new Map([[filePath, [{ start: 4, end: 5 }]]]));
+      mockScannerInstance.scanSingleMigration.mockResolvedValue({
+        id: '001', filename: path.relative(process.cwd(), filePath), content: '', statements: []
+      });
+      mockRuleEngineInstance.analyzeMigration.mockResolvedValue([finding(1, 2), finding(3, 4), finding(6, 6)]);
+    });
+
+    it('should lint modified migrations and keep the findings on added lines', async () => {
+      const result = await linter.lintChangedMigrations({ onlyNewLines: true });
+
+      expect(mockGitUtils.getAddedLines).toHaveBeenCalledWith('./prisma/migrations', { onlyNewLines: true });
+      expect(mockScannerInstance.scanSingleMigration).toHaveBeenCalledWith(filePath, undefined);
+      expect(result.violations.map(v => v.line)).toEqual([3]);
+    });
+
+    it('should leave modified migrations to the change rules otherwise', async () => {
+      await linter.lintChangedMigrations();
+
+      expect(mockGitUtils.getAddedLines).not.toHaveBeenCalled();
+      expect(mockScannerInstance.scanSingleMigration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lintStagedMigrations', () => {
+    it('should lint the staged content of added migrations', async () => {
+      const filePath = path.resolve('prisma/migrations/003_new/migration.sql');
+      mockGitUtils.isGitRepository.mockReturnValue(true);
+      mockGitUtils.getStagedMigrationChanges.mockReturnValue([{ kind: 'added', filePath, migrationId: '003' }]);
+      mockGitUtils.branchExists.mockReturnValue(false);
+      mockGitUtils.getMigrationIdsAt.mockReturnValue(['001']);
+      mockGitUtils.readStagedFile.mockReturnValue('CREATE TABLE staged (id INT);');
+      mockScannerInstance.scanSingleMigration.mockResolvedValue({ id: '003', filename: 'migration.sql', content: '', statements: [] });
+      mockRuleEngineInstance.analyzeMigration.mockResolvedValue([]);
+
+      const result = await linter.lintStagedMigrations();
+
+      expect(mockScannerInstance.scanSingleMigration).toHaveBeenCalledWith(filePath, 'CREATE TABLE staged (id INT);');
+      expect(mockGitUtils.getMigrationIdsAt).toHaveBeenCalledWith('./prisma/migrations', 'HEAD');
+      expect(result.totalFiles).toBe(1);
+    });
+
+    it('should throw error when not in git repository', async () => {
+      mockGitUtils.isGitRepository.mockReturnValue(false);
+
+      await expect(linter.lintStagedMigrations()).rejects.toThrow(
+        'Not in a git repository. Cannot detect staged files.'
+      );
+    });
   });
 
   describe('lintChangedMigrationsSinceCommit', () => {
     beforeEach(() => {
       mockGitUtils.isGitRepository.mockReturnValue(true);
-      mockGitUtils.getChangedMigrationFilesSinceCommit.mockReturnValue([
-        './prisma/migrations/003_new/migration.sql'
+      mockGitUtils.getMigrationChangesSinceCommit.mockReturnValue([
+        { kind: 'added', filePath: '/project/prisma/migrations/003_new/migration.sql', migrationId: '003' }
       ]);
     });
 
@@ -366,7 +544,7 @@ describe('PrismaStrongMigrationsLinter', () => {
 
       const result = await linter.lintChangedMigrationsSinceCommit('abc123');
 
-      expect(mockGitUtils.getChangedMigrationFilesSinceCommit).toHaveBeenCalledWith(
+      expect(mockGitUtils.getMigrationChangesSinceCommit).toHaveBeenCalledWith(
         './prisma/migrations',
         'abc123'
       );
@@ -399,6 +577,37 @@ describe('PrismaStrongMigrationsLinter', () => {
       expect(mockRuleEngineInstance.addRule).toHaveBeenCalledWith(newRule);
     });
 
+    it('should apply configured options to added rules', () => {
+      const newRule = {
+        id: 'require-pii-comments',
+        name: 'Custom PII Rule',
+        description: 'Custom rule description',
+        severity: Severity.WARNING,
+        category: RuleCategory.BEST_PRACTICES,
+        enabled: true,
+        check: jest.fn()
+      };
+
+      linter.addRule(newRule);
+
+      expect(mockRuleEngineInstance.addRule).toHaveBeenLastCalledWith({ ...newRule, options: { patterns: ['\\bssn\\b'] } });
+    });
+
+    it('should reject added rules whose configured options do not match their schema', () => {
+      const newRule = {
+        id: 'require-pii-comments',
+        name: 'Custom PII Rule',
+        description: 'Custom rule description',
+        severity: Severity.WARNING,
+        category: RuleCategory.BEST_PRACTICES,
+        enabled: true,
+        check: jest.fn(),
+        optionsSchema: { threshold: { type: 'number' as const, description: 'Threshold' } }
+      };
+
+      expect(() => linter.addRule(newRule)).toThrow('rules.require-pii-comments.options.patterns is not a known option');
+    });
+
     it('should remove rule', () => {
       linter.removeRule('no-drop-table');
 
@@ -522,5 +731,108 @@ describe('PrismaStrongMigrationsLinter', () => {
 
       expect(linter.shouldExit(result)).toBe(false);
     });
+
+    it('should fail on parse errors in strict parse mode, whatever their severity', () => {
+      mockConfigInstance.getConfig.mockReturnValue({
+        rules: {},
+        failOnError: false,
+        failOnWarning: false
+      });
+
+      const result = {
+        violations: [
+          {
+            ruleId: 'parse-error',
+            ruleName: 'Parse Error',
+            severity: Severity.INFO,
+            message: 'Could not parse statement: Unexpected "MODIFY"',
+            line: 1,
+            category: RuleCategory.DIAGNOSTICS
+          }
+        ],
+        totalFiles: 1,
+        totalViolations: 1,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 1
+      };
+
+      expect(linter.shouldExit(result)).toBe(false);
+      expect(new PrismaStrongMigrationsLinter(undefined, { strictParse: true }).shouldExit(result)).toBe(true);
+    });
+
+    it('should not fail on suppressed or baselined parse errors in strict parse mode', () => {
+      mockConfigInstance.getConfig.mockReturnValue({ rules: {}, failOnError: false, failOnWarning: false });
+      const parseError = {
+        ruleId: 'parse-error',
+        ruleName: 'Parse Error',
+        severity: Severity.ERROR,
+        message: 'Could not parse statement: Unexpected "MODIFY"',
+        line: 1,
+        category: RuleCategory.DIAGNOSTICS
+      };
+
+      const result = {
+        violations: [
+          { ...parseError, suppression: { kind: SuppressionKind.DIRECTIVE, justification: 'reviewed', line: 1 } },
+          { ...parseError, suppression: { kind: SuppressionKind.BASELINE, justification: 'Recorded in baseline', line: 1 } }
+        ],
+        totalFiles: 1,
+        totalViolations: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0
+      };
+
+      expect(new PrismaStrongMigrationsLinter(undefined, { strictParse: true }).shouldExit(result)).toBe(false);
+    });
+
+    it('should fail on crashed rules when failOnInternalError is set', () => {
+      const result = {
+        violations: [
+          {
+            ruleId: 'internal-error',
+            ruleName: 'Internal Error',
+            severity: Severity.WARNING,
+            message: 'Rule no-drop-table crashed: boom',
+            line: 1,
+            category: RuleCategory.DIAGNOSTICS
+          }
+        ],
+        totalFiles: 1,
+        totalViolations: 1,
+        errorCount: 0,
+        warningCount: 1,
+        infoCount: 0
+      };
+
+      mockConfigInstance.getConfig.mockReturnValue({ rules: {}, failOnError: true, failOnWarning: false });
+      expect(linter.shouldExit(result)).toBe(false);
+
+      mockConfigInstance.getConfig.mockReturnValue({ rules: {}, failOnError: true, failOnWarning: false, failOnInternalError: true });
+      expect(linter.shouldExit(result)).toBe(true);
+    });
+
+    it('should always fail when a locked migration changed', () => {
+      mockConfigInstance.getConfig.mockReturnValue({ rules: {}, failOnError: false, failOnWarning: false });
+
+      expect(linter.shouldExit({
+        violations: [
+          {
+            ruleId: 'changed-migration',
+            ruleName: 'Changed Migration',
+            severity: Severity.ERROR,
+            message: 'Migration 20240101000000_init changed since it was recorded in migrations.lock.json',
+            line: 1,
+            category: RuleCategory.DIAGNOSTICS
+          }
+        ],
+        totalFiles: 1,
+        totalViolations: 1,
+        errorCount: 1,
+        warningCount: 0,
+        infoCount: 0
+      })).toBe(true);
+    });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MigrationLock, migrationChecksum } from '../../core/migration-lock';
+import { MigrationScanner } from '../../core/migration-scanner';
+
+describe('MigrationLock', () => {
+  const INIT = migrationChecksum('CREATE TABLE users (id INT);\n');
+  const POSTS = migrationChecksum('CREATE TABLE posts (id INT);\n');
+
+  it('should checksum content as sha256, like Prisma', () => {
+    expect(migrationChecksum('SELECT 1;\n')).toBe('b4e0497804e46e0a0b0b8c31975b062152d551bac49c3c2e80932567b4085dcd');
+    expect(migrationChecksum(Buffer.from('SELECT 1;\n'))).toBe(migrationChecksum('SELECT 1;\n'));
+  });
+
+  describe('verify', () => {
+    it('should report recorded migrations that changed or were removed', () => {
+      const lock = new MigrationLock({ '20240101000000_init': INIT, '20240102000000_posts': POSTS, '20240103000000_gone': POSTS });
+
+      expect(lock.verify({ '20240101000000_init': INIT, '20240102000000_posts': INIT, '20240104000000_new': INIT })).toEqual([
+        { migration: '20240102000000_posts', kind: 'changed' },
+        { migration: '20240103000000_gone', kind: 'missing' }
+      ]);
+    });
+  });
+
+  describe('update', () => {
+    const current = { '20240101000000_init': POSTS, '20240102000000_posts': POSTS };
+
+    it('should only add migrations that are not recorded yet', () => {
+      const lock = new MigrationLock({ '20240101000000_init': INIT, '20231231000000_gone': INIT });
+
+      expect(lock.update(current)).toEqual({
+        added: ['20240102000000_posts'],
+        changed: ['20240101000000_init'],
+        missing: ['20231231000000_gone']
+      });
+      expect(lock.getChecksums()).toEqual({ '20231231000000_gone': INIT, '20240101000000_init': INIT, '20240102000000_posts': POSTS });
+    });
+
+    it('should re-record changed and drop removed migrations with force', () => {
+      const lock = new MigrationLock({ '20240101000000_init': INIT, '20231231000000_gone': INIT });
+
+      lock.update(current, { force: true });
+
+      expect(lock.getChecksums()).toEqual(current);
+    });
+  });
+
+  describe('with migration files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migration-lock-'));
+      for (const [name, content] of [['20240101000000_init', 'CREATE TABLE users (id INT);\n'], ['20240102000000_posts', 'CREATE TABLE posts (id INT);\n']]) {
+        fs.mkdirSync(path.join(tempDir, name));
+        fs.writeFileSync(path.join(tempDir, name, 'migration.sql'), content);
+      }
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip checksums through the lock file', async () => {
+      const scanner = new MigrationScanner('postgresql');
+      const filePath = path.join(tempDir, 'migrations.lock.json');
+      const lock = new MigrationLock();
+      lock.update(await scanner.readChecksums(tempDir));
+
+      lock.save(filePath);
+
+      expect(MigrationLock.load(filePath)!.getChecksums()).toEqual({ '20240101000000_init': INIT, '20240102000000_posts': POSTS });
+      expect(await scanner.verifyLock(tempDir, MigrationLock.load(filePath)!)).toEqual([]);
+    });
+
+    it('should detect an edited migration', async () => {
+      const scanner = new MigrationScanner('postgresql');
+      const lock = new MigrationLock(await scanner.readChecksums(tempDir));
+
+      fs.appendFileSync(path.join(tempDir, '20240101000000_init', 'migration.sql'), 'ALTER TABLE users ADD COLUMN email TEXT;\n');
+
+      expect(await scanner.verifyLock(tempDir, lock)).toEqual([{ migration: '20240101000000_init', kind: 'changed' }]);
+    });
+
+    it('should reject files with an unsupported version', () => {
+      const filePath = path.join(tempDir, 'migrations.lock.json');
+      fs.writeFileSync(filePath, JSON.stringify({ version: 99, migrations: {} }));
+
+      expect(() => MigrationLock.load(filePath)).toThrow('unsupported lock file version 99');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPlugin, loadRulesDir, pluginNamespace } from '../../core/plugins';
+
+describe('plugins', () => {
+  let projectDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(projectDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, file), content);
+  };
+
+  const ruleSource = (id: string) =>
+    `{ id: '${id}', name: '${id}', description: '${id}', severity: 'warning', category: 'best-practices', check: () => [] }`;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psm-plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  describe('loadPlugin', () => {
+    it('should namespace the rules of a scoped package by its scope', () => {
+      write('node_modules/@acme/prisma-strong-migrations-plugin/index.js',
+        `module.exports = { rules: { 'no-uuid-v1': ${ruleSource('ignored')} } };`);
+
+      const rules = loadPlugin('@acme/prisma-strong-migrations-plugin', projectDir);
+
+      expect(rules.map(rule => [rule.id, rule.enabled])).toEqual([['acme/no-uuid-v1', true]]);
+    });
+
+    it('should load plugin files with an explicit name and a list of rules', () => {
+      write('plugins/local.js', `module.exports = { name: 'local', rules: [${ruleSource('no-x')}, ${ruleSource('local/no-y')}] };`);
+
+      expect(loadPlugin('./plugins/local.js', projectDir).map(rule => rule.id)).toEqual(['local/no-x', 'local/no-y']);
+    });
+
+    it('should reject missing plugins, plugins without a namespace and rules without hooks', () => {
+      write('plugins/anonymous.js', `module.exports = { rules: [${ruleSource('no-x')}] };`);
+      write('plugins/broken.js', "module.exports = { name: 'broken', rules: { 'no-x': { id: 'no-x' } } };");
+
+      expect(() => loadPlugin('@acme/missing-plugin', projectDir)).toThrow('Cannot find plugin "@acme/missing-plugin"');
+      expect(() => loadPlugin('./plugins/anonymous.js', projectDir)).toThrow('must export a name to namespace its rules');
+      expect(() => loadPlugin('./plugins/broken.js', projectDir)).toThrow(
+        'Plugin "./plugins/broken.js": rule "broken/no-x" must have a check, checkMigration, checkProject or checkChange function'
+      );
+    });
+
+    it('should reject rules with a missing or unknown severity or category', () => {
+      write('plugins/unrated.js', "module.exports = { name: 'unrated', rules: { 'no-x': { check: () => [], category: 'performance' } } };");
+      write('plugins/misfiled.js', "module.exports = { name: 'misfiled', rules: { 'no-x': { check: () => [], severity: 'error', category: 'style' } } };");
+
+      expect(() => loadPlugin('./plugins/unrated.js', projectDir)).toThrow(
+        'Plugin "./plugins/unrated.js": rule "unrated/no-x" has severity undefined, expected one of: error, warning, info'
+      );
+      expect(() => loadPlugin('./plugins/misfiled.js', projectDir)).toThrow(
+        'Plugin "./plugins/misfiled.js": rule "misfiled/no-x" has category "style", expected one of: '
+      );
+    });
+
+    it('should derive namespaces from package names', () => {
+      expect(pluginNamespace('@acme/prisma-strong-migrations-plugin')).toBe('acme');
+      expect(pluginNamespace('prisma-strong-migrations-plugin-acme')).toBe('acme');
+      expect(pluginNamespace('./local-plugin.js')).toBeUndefined();
+    });
+  });
+
+  describe('loadRulesDir', () => {
+    it('should load one rule per JavaScript file, named after the file when it has no id', () => {
+      write('migration-rules/no-uuid-v1.js', `module.exports = ${ruleSource('no-uuid-v1')};`);
+      write('migration-rules/require-owner.cjs', `const rule = ${ruleSource('x')}; delete rule.id; module.exports = rule;`);
+      write('migration-rules/README.md', '# Rules');
+
+      expect(loadRulesDir('./migration-rules', projectDir).map(rule => rule.id)).toEqual(['no-uuid-v1', 'require-owner']);
+    });
+
+    it('should reject a missing directory', () => {
+      expect(() => loadRulesDir('./missing', projectDir)).toThrow('rulesDir "./missing" is not a directory');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { getPreset, getPresetNames } from '../../core/presets';
+import { getBuiltInRules } from '../../rules';
+
+describe('presets', () => {
+  const ruleIds = getBuiltInRules().map(rule => rule.id).sort();
+
+  it('should list the built-in presets', () => {
+    expect(getPresetNames()).toEqual([
+      'prisma-strong-migrations:recommended',
+      'prisma-strong-migrations:strict',
+      'prisma-strong-migrations:zero-downtime',
+      'prisma-strong-migrations:all'
+    ]);
+  });
+
+  it('should configure every built-in rule in recommended and all', () => {
+    expect(Object.keys(getPreset('prisma-strong-migrations:recommended')!.rules!).sort()).toEqual(ruleIds);
+    expect(Object.values(getPreset('prisma-strong-migrations:all')!.rules!).every(rule => rule.enabled)).toBe(true);
+  });
+
+  it('should only resolve prefixed preset names', () => {
+    expect(getPreset('recommended')).toBeUndefined();
+    expect(getPreset('prisma-strong-migrations:toString')).toBeUndefined();
+  });
+});
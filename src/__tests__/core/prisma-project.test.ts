@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { detectPrismaProject, dialectForProvider } from '../../core/prisma-project';
+
+describe('detectPrismaProject', () => {
+  let projectDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(projectDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, file), content);
+  };
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'psm-project-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should find the default schema, its migrations and both providers', () => {
+    write('prisma/schema.prisma', [
+      'generator client {\n  provider = "prisma-client-js"\n}',
+      'datasource db {\n  // provider = "sqlite"\n  provider = "mysql"\n  url = env("DATABASE_URL")\n}'
+    ].join('\n\n'));
+    write('prisma/migrations/migration_lock.toml', '# Please do not edit this file manually\nprovider = "postgresql"\n');
+
+    expect(detectPrismaProject(projectDir)).toEqual({
+      schemaPath: './prisma/schema.prisma',
+      migrationsPath: './prisma/migrations',
+      lockPath: './prisma/migrations/migration_lock.toml',
+      lockProvider: 'postgresql',
+      schemaProvider: 'mysql'
+    });
+  });
+
+  it('should use the schema location from package.json', () => {
+    write('package.json', JSON.stringify({ prisma: { schema: 'db/schema' } }));
+    write('db/schema/base.prisma', 'datasource db {\n  provider = "cockroachdb"\n}');
+
+    expect(detectPrismaProject(projectDir)).toEqual({
+      schemaPath: './db/schema',
+      migrationsPath: './db/schema/migrations',
+      schemaProvider: 'cockroachdb'
+    });
+  });
+
+  it('should read the lock file of a configured migrations path', () => {
+    write('migrations/migration_lock.toml', 'provider = "sqlite"');
+
+    expect(detectPrismaProject(projectDir, 'migrations')).toEqual({
+      lockPath: './migrations/migration_lock.toml',
+      lockProvider: 'sqlite'
+    });
+  });
+
+  it('should map Prisma providers to parser dialects', () => {
+    expect(['postgresql', 'cockroachdb', 'mysql', 'sqlite', 'sqlserver'].map(dialectForProvider))
+      .toEqual(['postgresql', 'postgresql', 'mysql', 'sqlite', undefined]);
+  });
+});
@@ -0,0 +1,63 @@
+import { Profiler } from '../../core/profiler';
+import { RuleEngine } from '../../core/rule-engine';
+import { SQLParser } from '../../core/sql-parser';
+import { Migration, RuleCategory, Severity, StatementRule } from '../../types';
+
+describe('Profiler', () => {
+  it('should report cumulative times, slowest first', () => {
+    const profiler = new Profiler();
+    profiler.recordRule('fast', 1, 'a.sql');
+    profiler.recordRule('slow', 5, 'a.sql');
+    profiler.recordRule('slow', 2.5, 'b.sql');
+    profiler.recordRule('project', 4);
+    profiler.recordParse('b.sql', 10);
+    profiler.recordScan(20);
+    profiler.recordScan(1.25);
+
+    expect(profiler.getReport()).toEqual({
+      scan: 21.25,
+      rules: [
+        { ruleId: 'slow', time: 7.5, calls: 2 },
+        { ruleId: 'project', time: 4, calls: 1 },
+        { ruleId: 'fast', time: 1, calls: 1 }
+      ],
+      migrations: [
+        { filePath: 'b.sql', parse: 10, rules: 2.5, total: 12.5 },
+        { filePath: 'a.sql', parse: 0, rules: 6, total: 6 }
+      ]
+    });
+  });
+
+  it('should be fed by the parser and the rule engine', async () => {
+    const profiler = new Profiler();
+    const parser = new SQLParser('postgresql', profiler);
+    const rule: StatementRule = {
+      id: 'noop',
+      name: 'Noop',
+      description: 'Reports nothing',
+      severity: Severity.INFO,
+      category: RuleCategory.BEST_PRACTICES,
+      enabled: true,
+      check: () => []
+    };
+    const content = 'CREATE TABLE a (id INT);\nDROP TABLE a;';
+    const migration: Migration = {
+      id: '20240101000000',
+      filename: 'prisma/migrations/20240101000000_init/migration.sql',
+      content,
+      statements: parser.parseStatements(content, 'prisma/migrations/20240101000000_init/migration.sql')
+    };
+
+    await new RuleEngine([rule], { profiler }).analyzeMigrations([migration]);
+
+    const report = profiler.getReport();
+    expect(report.rules).toEqual([{ ruleId: 'noop', time: expect.any(Number), calls: 2 }]);
+    expect(report.migrations).toEqual([{
+      filePath: 'prisma/migrations/20240101000000_init/migration.sql',
+      parse: expect.any(Number),
+      rules: expect.any(Number),
+      total: expect.any(Number)
+    }]);
+    expect(report.migrations[0].parse).toBeGreaterThan(0);
+  });
+});
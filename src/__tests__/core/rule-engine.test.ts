@@ -0,0 +1,563 @@
+import { RuleEngine } from '../../core/rule-engine';
+import { noModifyAppliedMigrationRule } from '../../rules/deployment-safety/no-modify-applied-migration';
+import { DatabaseSchema, Migration, MigrationChange, Rule, Severity, RuleCategory, SQLStatement, StatementRule } from '../../types';
+
+describe('RuleEngine', () => {
+  const createStatement = (content: string, startLine: number, endLine: number = startLine): SQLStatement => ({
+    type: content.trim().toUpperCase().startsWith('DROP TABLE') ? 'DROP_TABLE' : 'ALTER_TABLE',
+    content,
+    startLine,
+    endLine
+  });
+
+  const createMigration = (id: string, statements: SQLStatement[]): Migration => ({
+    id,
+    filename: `prisma/migrations/${id}_test/migration.sql`,
+    content: statements.map(s => s.content).join('\n'),
+    statements
+  });
+
+  const dropTableRule: StatementRule = {
+    id: 'no-drop-table',
+    name: 'No Drop Table',
+    description: 'Prevent dropping tables',
+    severity: Severity.ERROR,
+    category: RuleCategory.SCHEMA_SAFETY,
+    enabled: true,
+    check: (statement) => statement.type === 'DROP_TABLE'
+      ? [{
+        ruleId: 'no-drop-table',
+        ruleName: 'No Drop Table',
+        severity: Severity.ERROR,
+        message: 'Dropping tables can cause irreversible data loss',
+        line: statement.startLine,
+        category: RuleCategory.SCHEMA_SAFETY
+      }]
+      : []
+  };
+
+  describe('analyzeMigration', () => {
+    it('should stamp violations with file, migration and statement location', async () => {
+      const engine = new RuleEngine([dropTableRule]);
+      const migration = createMigration('20240101000000', [
+        createStatement('DROP TABLE\n  users;', 3, 4)
+      ]);
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        filePath: 'prisma/migrations/20240101000000_test/migration.sql',
+        migrationId: '20240101000000',
+        line: 3,
+        column: 1,
+        endLine: 4,
+        endColumn: 9,
+        snippet: 'DROP TABLE users;'
+      });
+    });
+
+    it('should keep location details provided by the rule', async () => {
+      const rule: Rule = {
+        ...dropTableRule,
+        check: (statement) => dropTableRule.check(statement, {} as Migration)
+          .map(v => ({ ...v, column: 6, endLine: 3, endColumn: 11 }))
+      };
+      const engine = new RuleEngine([rule]);
+      const migration = createMigration('20240101000000', [createStatement('DROP TABLE users;', 3)]);
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(violations[0]).toMatchObject({ line: 3, column: 6, endLine: 3, endColumn: 11 });
+    });
+
+    it('should default the column to where the statement text starts on the reported line', async () => {
+      const rule: Rule = {
+        ...dropTableRule,
+        check: (statement) => dropTableRule.check(statement, {} as Migration).map(v => ({ ...v, line: v.line + 1 }))
+      };
+      const engine = new RuleEngine([rule, dropTableRule]);
+      const statement = { ...createStatement('DROP TABLE\n    users;', 3, 4), startColumn: 9 };
+
+      const violations = await engine.analyzeMigration(createMigration('20240101000000', [statement]));
+
+      expect(violations.map(v => [v.line, v.column, v.endLine, v.endColumn])).toEqual([[4, 5, 4, 11], [3, 9, 4, 11]]);
+    });
+
+    it('should truncate long statement snippets', async () => {
+      const engine = new RuleEngine([dropTableRule]);
+      const longName = 'a'.repeat(200);
+      const migration = createMigration('20240101000000', [createStatement(`DROP TABLE ${longName};`, 1)]);
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(violations[0].snippet!.length).toBe(120);
+      expect(violations[0].snippet!.endsWith('…')).toBe(true);
+    });
+
+    it('should skip disabled rules', async () => {
+      const engine = new RuleEngine([{ ...dropTableRule, enabled: false }]);
+      const migration = createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]);
+
+      expect(await engine.analyzeMigration(migration)).toHaveLength(0);
+    });
+
+    it('should pass configured options merged over schema defaults to rules', async () => {
+      const check = jest.fn().mockReturnValue([]);
+      const engine = new RuleEngine([{
+        ...dropTableRule,
+        check,
+        optionsSchema: {
+          maxStatements: { type: 'integer', description: 'Statement limit', default: 2 },
+          strict: { type: 'boolean', description: 'Strict mode', default: false }
+        },
+        options: { strict: true }
+      }]);
+      const migration = createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]);
+
+      await engine.analyzeMigration(migration);
+
+      expect(check).toHaveBeenCalledWith(migration.statements[0], migration, expect.objectContaining({
+        options: { maxStatements: 2, strict: true }
+      }));
+    });
+  });
+
+  const createMigrationRule = (id: string, hooks: Pick<Rule, 'checkMigration' | 'checkProject'>): Rule => ({
+    id,
+    name: id,
+    description: id,
+    severity: Severity.WARNING,
+    category: RuleCategory.BEST_PRACTICES,
+    enabled: true,
+    ...hooks
+  });
+
+  describe('migration hooks', () => {
+    it('should call checkMigration once per migration and locate the reported statement', async () => {
+      const checkMigration = jest.fn((migration: Migration) => [{
+        ruleId: 'whole-file',
+        ruleName: 'Whole File',
+        severity: Severity.WARNING,
+        message: `${migration.statements.length} statements`,
+        line: 2,
+        category: RuleCategory.BEST_PRACTICES
+      }]);
+      const engine = new RuleEngine([createMigrationRule('whole-file', { checkMigration })]);
+      const migration = createMigration('20240101000000', [
+        createStatement('DROP TABLE users;', 1),
+        createStatement('DROP TABLE posts;', 2)
+      ]);
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(checkMigration).toHaveBeenCalledTimes(1);
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        message: '2 statements',
+        migrationId: '20240101000000',
+        snippet: 'DROP TABLE posts;'
+      });
+    });
+
+    it('should call checkProject with all migrations in ID order and file violations per migration', async () => {
+      const checkProject = jest.fn((migrations: Migration[]) => [{
+        ruleId: 'ordering',
+        ruleName: 'Ordering',
+        severity: Severity.ERROR,
+        message: 'Out of order',
+        line: 1,
+        migrationId: migrations[1].id,
+        category: RuleCategory.BEST_PRACTICES
+      }]);
+      const engine = new RuleEngine([{ ...createMigrationRule('ordering', { checkProject }), severity: Severity.ERROR }]);
+      const migrations = [
+        createMigration('20240102000000', [createStatement('DROP TABLE posts;', 1)]),
+        createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)])
+      ];
+
+      const result = await engine.analyzeMigrations(migrations);
+
+      expect(checkProject).toHaveBeenCalledTimes(1);
+      expect(checkProject.mock.calls[0][0].map(m => m.id)).toEqual(['20240101000000', '20240102000000']);
+      expect(result.results!.map(r => [r.migrationId, r.errorCount])).toEqual([
+        ['20240102000000', 1],
+        ['20240101000000', 0]
+      ]);
+      expect(result.violations[0].filePath).toBe('prisma/migrations/20240102000000_test/migration.sql');
+    });
+
+    it('should give project hooks the migrations directory', async () => {
+      const checkProject = jest.fn().mockReturnValue([]);
+      const engine = new RuleEngine([createMigrationRule('directories', { checkProject })]);
+      const project = { migrationsPath: 'prisma/migrations', directories: [{ name: '20240101000000_test', hasMigrationFile: true }] };
+
+      await engine.analyzeMigrations([createMigration('20240101000000', [])], undefined, project);
+
+      expect(checkProject).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ project }));
+    });
+
+    it('should not run project hooks when analyzing a single migration', async () => {
+      const checkProject = jest.fn().mockReturnValue([]);
+      const engine = new RuleEngine([createMigrationRule('ordering', { checkProject })]);
+
+      await engine.analyzeMigration(createMigration('20240101000000', []));
+
+      expect(checkProject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('change hooks', () => {
+    it('should run checkChange and file findings under the given filename', async () => {
+      const checkChange = jest.fn((change: MigrationChange) => [{
+        ruleId: 'no-delete',
+        ruleName: 'No Delete',
+        severity: Severity.ERROR,
+        message: `${change.kind} ${change.migrationId}`,
+        line: 1,
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      }]);
+      const engine = new RuleEngine([{ ...createMigrationRule('no-delete', {}), checkChange }]);
+      const change: MigrationChange = {
+        kind: 'deleted',
+        filePath: '/project/prisma/migrations/20240101000000_init/migration.sql',
+        migrationId: '20240101000000'
+      };
+
+      const violations = await engine.analyzeChange(change, 'prisma/migrations/20240101000000_init/migration.sql');
+
+      expect(checkChange).toHaveBeenCalledWith(change, expect.objectContaining({ options: {} }));
+      expect(violations).toEqual([expect.objectContaining({
+        message: 'deleted 20240101000000',
+        filePath: 'prisma/migrations/20240101000000_init/migration.sql',
+        migrationId: '20240101000000'
+      })]);
+    });
+
+    it('should run change hooks on migrations before ignoreBefore', async () => {
+      const engine = new RuleEngine([noModifyAppliedMigrationRule], { ignoreBefore: '20240150000000' });
+      const change: MigrationChange = {
+        kind: 'modified',
+        filePath: '/project/prisma/migrations/20240101000000_init/migration.sql',
+        migrationId: '20240101000000'
+      };
+
+      const violations = await engine.analyzeChange(change, 'prisma/migrations/20240101000000_init/migration.sql');
+
+      expect(violations.map(v => v.ruleId)).toEqual(['no-modify-applied-migration']);
+    });
+  });
+
+  describe('async rules', () => {
+    const asyncDropTableRule: Rule = {
+      ...dropTableRule,
+      check: async (statement, migration) => dropTableRule.check(statement, migration)
+    };
+
+    it('should await rules that return a Promise', async () => {
+      const engine = new RuleEngine([asyncDropTableRule]);
+
+      const violations = await engine.analyzeMigration(createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]));
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ ruleId: 'no-drop-table', migrationId: '20240101000000' });
+    });
+
+    it('should abandon a rule that exceeds the timeout and keep the other findings', async () => {
+      const slowRule = createMigrationRule('slow', {
+        checkMigration: () => new Promise(resolve => setTimeout(() => resolve([]), 1000))
+      });
+      const engine = new RuleEngine([slowRule, asyncDropTableRule], { ruleTimeout: 10 });
+
+      const violations = await engine.analyzeMigration(createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]));
+
+      expect(violations.map(v => v.ruleId)).toEqual(['no-drop-table', 'internal-error']);
+      expect(violations[1].message).toBe('Rule slow crashed: Rule slow timed out after 10ms');
+    });
+
+    it('should analyze migrations concurrently', async () => {
+      const started: string[] = [];
+      let release: () => void = () => undefined;
+      const released = new Promise<void>(resolve => { release = resolve; });
+      const waitingRule = createMigrationRule('waiting', {
+        checkMigration: async (migration) => {
+          started.push(migration.id);
+          if (started.length === 2) {
+            release();
+          }
+          await released;
+          return [];
+        }
+      });
+      const engine = new RuleEngine([waitingRule], { ruleTimeout: 1000 });
+
+      await engine.analyzeMigrations([createMigration('20240101000000', []), createMigration('20240102000000', [])]);
+
+      expect(started).toEqual(['20240101000000', '20240102000000']);
+    });
+  });
+
+  describe('rule crashes', () => {
+    const crashingRule: Rule = {
+      ...dropTableRule,
+      id: 'crashing',
+      check: () => {
+        throw new Error('Cannot read properties of undefined');
+      }
+    };
+
+    it('should report a crash as an internal-error diagnostic at the statement', async () => {
+      const engine = new RuleEngine([crashingRule, dropTableRule]);
+      const migration = createMigration('20240101000000', [createStatement('DROP TABLE users;', 3)]);
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(violations.map(v => v.ruleId)).toEqual(['no-drop-table', 'internal-error']);
+      expect(violations[1]).toMatchObject({
+        ruleName: 'Internal Error',
+        severity: Severity.WARNING,
+        message: 'Rule crashing crashed: Cannot read properties of undefined',
+        line: 3,
+        filePath: 'prisma/migrations/20240101000000_test/migration.sql',
+        category: RuleCategory.DIAGNOSTICS
+      });
+      expect(violations[1].stack).toContain('Cannot read properties of undefined');
+    });
+
+    it('should use the configured severity and ignore directives', async () => {
+      const engine = new RuleEngine([crashingRule], { internalErrors: Severity.ERROR });
+      const content = '-- strong-migrations-disable-next-line crashing -- reason: reviewed\nDROP TABLE users;';
+      const migration: Migration = {
+        ...createMigration('20240101000000', [createStatement('DROP TABLE users;', 2)]),
+        content,
+        comments: [{ type: 'line', text: content.split('\n')[0].slice(3), line: 1, endLine: 1, column: 1 }]
+      };
+
+      const violations = await engine.analyzeMigration(migration);
+
+      expect(violations.map(v => [v.ruleId, v.severity, v.suppression])).toEqual([
+        ['unused-directive', Severity.WARNING, undefined],
+        ['internal-error', Severity.ERROR, undefined]
+      ]);
+    });
+
+    it('should file crashes of project hooks under the migrations directory', async () => {
+      const engine = new RuleEngine([createMigrationRule('ordering', {
+        checkProject: () => {
+          throw new Error('boom');
+        }
+      })], { migrationsPath: 'prisma/migrations' });
+
+      const result = await engine.analyzeMigrations([createMigration('20240101000000', [])]);
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]).toMatchObject({ ruleId: 'internal-error', message: 'Rule ordering crashed: boom', line: 1 });
+      expect(result.results?.map(r => r.filePath)).toEqual(['prisma/migrations/20240101000000_test/migration.sql', 'prisma/migrations']);
+    });
+  });
+
+  describe('analyzeMigrations', () => {
+    it('should group violations per migration file', async () => {
+      const engine = new RuleEngine([dropTableRule]);
+      const migrations = [
+        createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]),
+        createMigration('20240102000000', [createStatement('ALTER TABLE posts ADD COLUMN title TEXT;', 1)]),
+        createMigration('20240103000000', [
+          createStatement('DROP TABLE comments;', 1),
+          createStatement('DROP TABLE likes;', 2)
+        ])
+      ];
+
+      const result = await engine.analyzeMigrations(migrations);
+
+      expect(result.totalFiles).toBe(3);
+      expect(result.totalViolations).toBe(3);
+      expect(result.errorCount).toBe(3);
+      expect(result.results).toHaveLength(3);
+      expect(result.results!.map(r => [r.migrationId, r.violations.length, r.errorCount])).toEqual([
+        ['20240101000000', 1, 1],
+        ['20240102000000', 0, 0],
+        ['20240103000000', 2, 2]
+      ]);
+      expect(result.results![2].filePath).toBe('prisma/migrations/20240103000000_test/migration.sql');
+    });
+
+    it('should report suppressed violations separately from active ones', async () => {
+      const engine = new RuleEngine([dropTableRule]);
+      const content = [
+        '-- strong-migrations-disable-next-line no-drop-table -- reason: table was never used',
+        'DROP TABLE users;',
+        'DROP TABLE posts;'
+      ].join('\n');
+      const migration: Migration = {
+        ...createMigration('20240101000000', [createStatement('DROP TABLE users;', 2), createStatement('DROP TABLE posts;', 3)]),
+        content,
+        comments: [{ type: 'line', text: content.split('\n')[0].slice(3), line: 1, endLine: 1, column: 1 }]
+      };
+
+      const result = await engine.analyzeMigrations([migration]);
+
+      expect(result.totalViolations).toBe(1);
+      expect(result.errorCount).toBe(1);
+      expect(result.suppressed).toHaveLength(1);
+      expect(result.suppressed![0].suppression!.justification).toBe('table was never used');
+      expect(result.results![0].suppressed).toHaveLength(1);
+    });
+  });
+
+  describe('parse errors', () => {
+    const unparsed = (): SQLStatement => ({
+      ...createStatement('ALTER TABLE users MODIFY name TEXT;', 2),
+      ast: null,
+      parseError: { message: 'Unexpected "MODIFY"', line: 2, column: 19 }
+    });
+
+    it('should report statements the parser rejected as parse-error diagnostics', async () => {
+      const engine = new RuleEngine([]);
+
+      const violations = await engine.analyzeMigration(createMigration('20240101000000', [unparsed()]));
+
+      expect(violations).toEqual([expect.objectContaining({
+        ruleId: 'parse-error',
+        severity: Severity.INFO,
+        message: 'Could not parse statement: Unexpected "MODIFY"',
+        line: 2,
+        column: 19,
+        category: RuleCategory.DIAGNOSTICS
+      })]);
+    });
+
+    it('should use the configured severity, or report nothing when off', async () => {
+      const migration = createMigration('20240101000000', [unparsed()]);
+
+      const warnings = await new RuleEngine([], { parseErrors: Severity.WARNING }).analyzeMigration(migration);
+      const off = await new RuleEngine([], { parseErrors: 'off' }).analyzeMigration(migration);
+
+      expect(warnings.map(v => v.severity)).toEqual([Severity.WARNING]);
+      expect(off).toEqual([]);
+    });
+
+    it('should count statements analyzed by text fallback', async () => {
+      const engine = new RuleEngine([], { parseErrors: 'off' });
+      const migration = createMigration('20240101000000', [createStatement('DROP TABLE users;', 1), unparsed()]);
+
+      const result = await engine.analyzeMigrations([migration]);
+
+      expect(result.parsing).toEqual({ totalStatements: 2, textFallbackStatements: 1 });
+    });
+  });
+
+  describe('per-migration rules', () => {
+    const legacy = createMigration('20230601000000', [createStatement('DROP TABLE legacy;', 1)]);
+    const recent = createMigration('20240101000000', [createStatement('DROP TABLE users;', 1)]);
+
+    it('should apply overrides to the migrations matching their patterns', async () => {
+      const engine = new RuleEngine([dropTableRule], {
+        migrationsPath: 'prisma/migrations',
+        overrides: [
+          { files: ['2023*'], rules: { 'no-drop-table': { enabled: false } } },
+          { files: '2024*/**', rules: { 'no-drop-table': { severity: Severity.WARNING } } }
+        ]
+      });
+
+      const result = await engine.analyzeMigrations([legacy, recent]);
+
+      expect(engine.getEffectiveRules(legacy)).toEqual([]);
+      expect(result.violations.map(v => [v.migrationId, v.severity])).toEqual([['20240101000000', Severity.WARNING]]);
+    });
+
+    it('should apply overrides to project findings per migration, running the hook with the base options', async () => {
+      const checkProject = jest.fn((migrations: Migration[]) => migrations.map(migration => ({
+        ruleId: 'ordering',
+        ruleName: 'Ordering',
+        severity: Severity.WARNING,
+        message: 'Out of order',
+        line: 1,
+        migrationId: migration.id,
+        category: RuleCategory.BEST_PRACTICES
+      })));
+      const engine = new RuleEngine([{ ...createMigrationRule('ordering', { checkProject }), options: { strict: false } }], {
+        migrationsPath: 'prisma/migrations',
+        overrides: [
+          { files: ['2023*'], rules: { ordering: { enabled: false } } },
+          { files: ['2024*'], rules: { ordering: { severity: Severity.ERROR, options: { strict: true } } } }
+        ]
+      });
+
+      const result = await engine.analyzeMigrations([legacy, recent]);
+
+      expect(checkProject).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ options: { strict: false } }));
+      expect(result.violations.map(v => [v.migrationId, v.severity])).toEqual([['20240101000000', Severity.ERROR]]);
+    });
+
+    it('should skip migrations before ignoreBefore, keeping them in the schema history', async () => {
+      const seen: string[] = [];
+      const engine = new RuleEngine([dropTableRule, createMigrationRule('schema', {
+        checkMigration: (migration, context) => {
+          seen.push(`${migration.id}:${context.currentSchema?.tables.length}`);
+          return [];
+        }
+      })], { ignoreBefore: '20240101000000' });
+      const createLegacy = createMigration('20230601000000', [createStatement('CREATE TABLE legacy (id INT);', 1)]);
+
+      const result = await engine.analyzeMigrations([createLegacy, recent]);
+
+      expect(result.violations.map(v => v.migrationId)).toEqual(['20240101000000']);
+      expect(seen).toEqual(['20240101000000:1']);
+    });
+
+    it('should report violations at the configured severity of the rule', async () => {
+      const engine = new RuleEngine([{ ...dropTableRule, severity: Severity.INFO }]);
+
+      const violations = await engine.analyzeMigration(recent);
+
+      expect(violations[0].severity).toBe(Severity.INFO);
+    });
+  });
+
+  describe('schema replay', () => {
+    const createSchemaRule = (checkMigration: NonNullable<Rule['checkMigration']>): Rule => ({
+      id: 'schema-rule',
+      name: 'Schema Rule',
+      description: 'Inspects the replayed schema',
+      severity: Severity.WARNING,
+      category: RuleCategory.BEST_PRACTICES,
+      enabled: true,
+      checkMigration
+    });
+
+    const createTable = createMigration('20240101000000', [createStatement('CREATE TABLE users (id INT);', 1)]);
+    const addColumn = createMigration('20240102000000', [createStatement('ALTER TABLE users ADD COLUMN email TEXT;', 1)]);
+    const addIndex = createMigration('20240103000000', [createStatement('CREATE INDEX users_email_idx ON users (email);', 1)]);
+
+    it('should give rules the schema before and after each migration', async () => {
+      const seen: Record<string, [number, number]> = {};
+      const engine = new RuleEngine([createSchemaRule((migration, context) => {
+        const columns = (schema?: DatabaseSchema) => schema?.tables.find(t => t.name === 'users')?.columns.length ?? 0;
+        seen[migration.id] = [columns(context.currentSchema), columns(context.resultingSchema)];
+        return [];
+      })]);
+
+      await engine.analyzeMigrations([addColumn, createTable]);
+
+      expect(seen).toEqual({
+        '20240101000000': [0, 1],
+        '20240102000000': [1, 2]
+      });
+    });
+
+    it('should replay history that is not being analyzed', async () => {
+      const schemas: DatabaseSchema[] = [];
+      const engine = new RuleEngine([createSchemaRule((_migration, context) => {
+        schemas.push(context.currentSchema!);
+        return [];
+      })]);
+
+      await engine.analyzeMigration(addColumn, [createTable, addColumn, addIndex]);
+
+      expect(schemas).toHaveLength(1);
+      expect(schemas[0].tables.map(t => t.name)).toEqual(['users']);
+      expect(schemas[0].indexes).toEqual([]);
+    });
+  });
+});
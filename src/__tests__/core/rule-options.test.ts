@@ -0,0 +1,60 @@
+import { resolveRuleOptions, validateRuleOptions } from '../../core/rule-options';
+import { RuleOptionsSchema } from '../../types';
+
+describe('Rule options', () => {
+  const optionsSchema: RuleOptionsSchema = {
+    maxStatements: { type: 'integer', description: 'Statement limit', default: 2, minimum: 0 },
+    patterns: { type: 'string[]', format: 'regex', description: 'Patterns', default: ['email'] },
+    strict: { type: 'boolean', description: 'Strict mode' }
+  };
+  const rule = { id: 'test-rule', optionsSchema };
+
+  describe('resolveRuleOptions', () => {
+    it('should fill in schema defaults for options that are not configured', () => {
+      expect(resolveRuleOptions(optionsSchema, { maxStatements: 5 })).toEqual({
+        maxStatements: 5,
+        patterns: ['email']
+      });
+    });
+
+    it('should return the options unchanged when there is no schema', () => {
+      expect(resolveRuleOptions(undefined, { anything: true })).toEqual({ anything: true });
+    });
+  });
+
+  describe('validateRuleOptions', () => {
+    it('should accept valid options', () => {
+      expect(validateRuleOptions(rule, { maxStatements: 3, patterns: ['\\bssn\\b'], strict: true })).toEqual([]);
+      expect(validateRuleOptions(rule, undefined)).toEqual([]);
+    });
+
+    it('should report values of the wrong type', () => {
+      expect(validateRuleOptions(rule, { maxStatements: '3', patterns: 'email', strict: 1 })).toEqual([
+        'rules.test-rule.options.maxStatements must be a number',
+        'rules.test-rule.options.patterns must be an array of strings',
+        'rules.test-rule.options.strict must be a boolean'
+      ]);
+    });
+
+    it('should enforce integer, minimum and regex constraints', () => {
+      expect(validateRuleOptions(rule, { maxStatements: 1.5 })).toEqual(['rules.test-rule.options.maxStatements must be an integer']);
+      expect(validateRuleOptions(rule, { maxStatements: -1 })).toEqual(['rules.test-rule.options.maxStatements must be at least 0']);
+      expect(validateRuleOptions(rule, { patterns: ['(unclosed'] })).toEqual([
+        'rules.test-rule.options.patterns contains an invalid regular expression: (unclosed'
+      ]);
+    });
+
+    it('should report unknown options', () => {
+      expect(validateRuleOptions(rule, { maxStatement: 3 })).toEqual([
+        'rules.test-rule.options.maxStatement is not a known option (expected one of: maxStatements, patterns, strict)'
+      ]);
+      expect(validateRuleOptions({ id: 'no-options' }, { threshold: 1 })).toEqual([
+        'rules.no-options does not accept options, got "threshold"'
+      ]);
+    });
+
+    it('should require options to be an object', () => {
+      expect(validateRuleOptions(rule, ['email'])).toEqual(['rules.test-rule.options must be an object']);
+    });
+  });
+});
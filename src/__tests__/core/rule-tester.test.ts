@@ -0,0 +1,91 @@
+import { RuleTester } from '../../core/rule-tester';
+import { noDropTableRule } from '../../rules/schema-safety/no-drop-table';
+import { createCustomRule } from '../../rules';
+import { RuleCategory, Severity } from '../../types';
+
+describe('RuleTester', () => {
+  const tester = new RuleTester({ dialect: 'postgresql' });
+
+  // Reports the configured table when it exists before the migration
+  const tableInSchemaRule = createCustomRule({
+    id: 'table-in-schema',
+    name: 'Table In Schema',
+    description: 'Reports tables that exist before the migration',
+    severity: Severity.WARNING,
+    category: RuleCategory.BEST_PRACTICES,
+    optionsSchema: { table: { type: 'string', description: 'Table to look for', default: 'users' } },
+    checkMigration: (migration, context) => context.currentSchema?.tables.some(t => t.name === context.options.table)
+      ? [{
+        ruleId: 'table-in-schema',
+        ruleName: 'Table In Schema',
+        severity: Severity.WARNING,
+        message: `${context.options.table} exists`,
+        line: 1,
+        category: RuleCategory.BEST_PRACTICES
+      }]
+      : []
+  });
+
+  tester.run(noDropTableRule, {
+    valid: [
+      'ALTER TABLE users ADD COLUMN email TEXT;',
+      { name: 'commented out', code: '-- DROP TABLE users;\nSELECT 1;' }
+    ],
+    invalid: [
+      { code: 'DROP TABLE users;', errors: 1 },
+      {
+        code: 'SELECT 1;\n  DROP TABLE users;',
+        errors: [{ message: /irreversible/, line: 2, column: 3, endColumn: 19, severity: Severity.ERROR }]
+      }
+    ]
+  });
+
+  tester.run(tableInSchemaRule, {
+    valid: [
+      'CREATE TABLE users (id INT);',
+      { code: 'SELECT 1;', schema: 'CREATE TABLE users (id INT);', options: { table: 'posts' } }
+    ],
+    invalid: [
+      { code: 'SELECT 1;', schema: 'CREATE TABLE users (id INT);', errors: [{ message: 'users exists' }] }
+    ]
+  });
+
+  describe('check', () => {
+    it('should fail valid cases that report violations', async () => {
+      await expect(tester.check(noDropTableRule, { valid: ['DROP TABLE users;'], invalid: [] }))
+        .rejects.toThrow('Expected no violations for valid code:\nDROP TABLE users;');
+    });
+
+    it('should fail with a diff when violations differ', async () => {
+      const check = tester.check(noDropTableRule, {
+        valid: [],
+        invalid: [{ code: 'DROP TABLE users;', errors: [{ line: 2 }] }]
+      });
+
+      await expect(check).rejects.toThrow(/Violations differ for:\nDROP TABLE users;[\s\S]*-\s+line: 2/);
+    });
+
+    it('should fail when the number of violations differs', async () => {
+      await expect(tester.check(noDropTableRule, { valid: [], invalid: [{ code: 'DROP TABLE a; DROP TABLE b;', errors: 1 }] }))
+        .rejects.toThrow('Expected 1 violation(s), got 2');
+    });
+
+    it('should reject options that do not match the rule schema', async () => {
+      await expect(tester.check(tableInSchemaRule, { valid: [{ code: 'SELECT 1;', options: { table: 1 } }], invalid: [] }))
+        .rejects.toThrow('rules.table-in-schema.options.table must be a string');
+    });
+
+    it('should fail with the error of a rule that crashes', async () => {
+      const crashingRule = createCustomRule({
+        ...tableInSchemaRule,
+        id: 'crashing',
+        checkMigration: () => {
+          throw new Error('boom');
+        }
+      });
+
+      await expect(tester.check(crashingRule, { valid: ['SELECT 1;'], invalid: [] }))
+        .rejects.toThrow('Rule crashing crashed: boom');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { SchemaBuilder, findColumn, findTable, hasIndexOn } from '../../core/schema-builder';
+import { Migration, SQLStatement } from '../../types';
+
+describe('SchemaBuilder', () => {
+  const createMigration = (id: string, sql: string[]): Migration => {
+    const statements: SQLStatement[] = sql.map((content, index) => ({
+      type: 'UNKNOWN',
+      content,
+      startLine: index + 1,
+      endLine: index + 1
+    }));
+    return { id, filename: `${id}_test/migration.sql`, content: sql.join('\n'), statements };
+  };
+
+  it('should build tables, keys and indexes from Prisma output', () => {
+    const schema = SchemaBuilder.replay([createMigration('20240101000000', [
+      'CREATE TYPE "Role" AS ENUM (\'USER\', \'ADMIN\');',
+      `CREATE TABLE "User" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "Role" NOT NULL DEFAULT 'USER',
+    "teamId" INTEGER,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);`,
+      'CREATE UNIQUE INDEX "User_email_key" ON "User"("email");',
+      'CREATE INDEX CONCURRENTLY "User_teamId_idx" ON "User" USING BTREE ("teamId");',
+      'ALTER TABLE "User" ADD CONSTRAINT "User_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team"("id") ON DELETE SET NULL ON UPDATE CASCADE;'
+    ])]);
+
+    const user = findTable(schema, 'user')!;
+    expect(user.createdIn).toBe('20240101000000');
+    expect(user.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+      ['id', 'SERIAL', false],
+      ['email', 'TEXT', false],
+      ['role', '"Role"', false],
+      ['teamId', 'INTEGER', true]
+    ]);
+    expect(findColumn(schema, 'User', 'role')!.defaultValue).toBe("'USER'");
+    expect(findColumn(schema, 'User', 'id')!.isPrimaryKey).toBe(true);
+    expect(findColumn(schema, 'User', 'teamId')!.isForeignKey).toBe(true);
+    expect(schema.indexes.map(i => [i.name, i.unique])).toEqual([
+      ['User_email_key', true],
+      ['User_teamId_idx', false]
+    ]);
+    expect(schema.constraints.find(c => c.type === 'FOREIGN KEY')).toMatchObject({
+      tableName: 'User',
+      columns: ['teamId'],
+      referencedTable: 'Team',
+      referencedColumns: ['id']
+    });
+  });
+
+  it('should replay migrations in ID order', () => {
+    const schema = SchemaBuilder.replay([
+      createMigration('20240102000000', ['ALTER TABLE users ADD COLUMN name TEXT NOT NULL;']),
+      createMigration('20240101000000', ['CREATE TABLE users (id INT PRIMARY KEY);'])
+    ]);
+
+    expect(findTable(schema, 'users')!.columns.map(c => c.name)).toEqual(['id', 'name']);
+  });
+
+  it('should apply column changes, renames and drops', () => {
+    const schema = SchemaBuilder.replay([createMigration('20240101000000', [
+      'CREATE TABLE users (id INT PRIMARY KEY, email TEXT, legacy TEXT);',
+      'CREATE INDEX users_legacy_idx ON users (legacy);',
+      'ALTER TABLE users ALTER COLUMN email SET NOT NULL, ALTER COLUMN email TYPE VARCHAR(255);',
+      'ALTER TABLE users DROP COLUMN legacy;',
+      'ALTER TABLE users RENAME COLUMN email TO email_address;',
+      'ALTER TABLE users RENAME TO accounts;'
+    ])]);
+
+    expect(findTable(schema, 'users')).toBeUndefined();
+    expect(findTable(schema, 'accounts')!.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+      ['id', 'INT', false],
+      ['email_address', 'VARCHAR(255)', false]
+    ]);
+    expect(schema.indexes).toEqual([]);
+    expect(schema.constraints.map(c => c.tableName)).toEqual(['accounts']);
+  });
+
+  it('should remove tables and their indexes when dropped', () => {
+    const schema = SchemaBuilder.replay([createMigration('20240101000000', [
+      'CREATE TABLE a (id INT); CREATE TABLE b (id INT);',
+      'CREATE INDEX a_id_idx ON a (id);',
+      'DROP TABLE IF EXISTS a, b;'
+    ])]);
+
+    expect(schema).toEqual({ tables: [], indexes: [], constraints: [] });
+  });
+
+  it('should read quoting and comments the way the dialect does', () => {
+    const builder = new SchemaBuilder('mysql');
+    builder.applyMigration(createMigration('20240101000000', [
+      'CREATE TABLE `users` (\n  `id` INT NOT NULL, # the key\n  `note` TEXT DEFAULT "a;b",\n  PRIMARY KEY (`id`)\n);'
+    ]));
+
+    const users = findTable(builder.getSchema(), 'users')!;
+    expect(users.columns.map(c => [c.name, c.isPrimaryKey, c.defaultValue])).toEqual([
+      ['id', true, undefined],
+      ['note', false, '"a;b"']
+    ]);
+  });
+
+  it('should ignore statements it cannot read', () => {
+    const builder = new SchemaBuilder();
+    builder.applyMigration(createMigration('20240101000000', [
+      'CREATE TABLE users (id INT);',
+      'UPDATE users SET id = 1;',
+      'ALTER TABLE users ADD COLUMN ('
+    ]));
+
+    expect(findTable(builder.getSchema(), 'users')!.columns.map(c => c.name)).toEqual(['id']);
+  });
+
+  it('should return snapshots that later statements do not modify', () => {
+    const builder = new SchemaBuilder();
+    builder.applyMigration(createMigration('20240101000000', ['CREATE TABLE users (id INT);']));
+    const snapshot = builder.getSchema();
+
+    builder.applyMigration(createMigration('20240102000000', ['ALTER TABLE users ADD COLUMN name TEXT;']));
+
+    expect(findTable(snapshot, 'users')!.columns).toHaveLength(1);
+    expect(findTable(builder.getSchema(), 'users')!.columns).toHaveLength(2);
+  });
+
+  describe('hasIndexOn', () => {
+    const schema = SchemaBuilder.replay([createMigration('20240101000000', [
+      'CREATE TABLE items (id INT PRIMARY KEY, order_id INT, product_id INT, sku TEXT UNIQUE);',
+      'CREATE INDEX items_order_product_idx ON items (order_id, product_id);'
+    ])]);
+
+    it('should match indexes whose leading columns cover the given columns', () => {
+      expect(hasIndexOn(schema, 'items', ['order_id'])).toBe(true);
+      expect(hasIndexOn(schema, 'items', ['product_id', 'order_id'])).toBe(true);
+      expect(hasIndexOn(schema, 'items', ['product_id'])).toBe(false);
+    });
+
+    it('should treat primary keys and unique constraints as indexes', () => {
+      expect(hasIndexOn(schema, 'items', ['id'])).toBe(true);
+      expect(hasIndexOn(schema, 'ITEMS', ['SKU'])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { SQLParser } from '../../core/sql-parser';
+
+describe('SQLParser', () => {
+  let parser: SQLParser;
+
+  beforeEach(() => {
+    parser = new SQLParser('postgresql');
+  });
+
+  describe('parseStatements', () => {
+    it('should keep the exact source text and position of each statement', () => {
+      const content = [
+        '-- CreateTable',
+        'CREATE TABLE users (',
+        '  -- login',
+        '  email TEXT,',
+        '  /* shown',
+        '     publicly */',
+        '  name TEXT',
+        ');  DROP TABLE old;'
+      ].join('\n');
+
+      const [create, drop] = parser.parseStatements(content);
+
+      expect(create).toMatchObject({ startLine: 2, startColumn: 1, startOffset: 15, endLine: 8 });
+      expect(create.content).toBe(content.slice(15, content.indexOf(');') + 2));
+      expect(drop).toMatchObject({ content: 'DROP TABLE old;', startLine: 8, startColumn: 5, endLine: 8 });
+    });
+
+    it('should keep PL/pgSQL bodies and quoted semicolons within one statement', () => {
+      const content = [
+        'CREATE FUNCTION touch() RETURNS trigger AS $$',
+        'BEGIN',
+        '  NEW.updated_at = now();',
+        '  RETURN NEW;',
+        'END;',
+        '$$ LANGUAGE plpgsql;',
+        "DO $body$ BEGIN PERFORM 1; END $body$;",
+        "INSERT INTO notes (body) VALUES ('it''s; fine', E'a\\'; b');",
+        '/* outer /* inner; */',
+        '   still a comment; */',
+        'SELECT 1;'
+      ].join('\n');
+
+      const statements = parser.parseStatements(content);
+
+      expect(statements.map(s => s.content.split('\n')[0])).toEqual([
+        'CREATE FUNCTION touch() RETURNS trigger AS $$',
+        'DO $body$ BEGIN PERFORM 1; END $body$;',
+        "INSERT INTO notes (body) VALUES ('it''s; fine', E'a\\'; b');",
+        'SELECT 1;'
+      ]);
+      expect(statements[0].content.endsWith('$$ LANGUAGE plpgsql;')).toBe(true);
+    });
+
+    it('should split MySQL statements on DELIMITER-defined delimiters', () => {
+      const content = [
+        'CREATE TABLE `a;b` (id INT); # note; here',
+        'DELIMITER $$',
+        'CREATE TRIGGER t BEFORE INSERT ON `a;b` FOR EACH ROW BEGIN SET NEW.id = 1; END$$',
+        'DELIMITER ;',
+        'SELECT "x;y";'
+      ].join('\n');
+
+      const statements = new SQLParser('mysql').parseStatements(content);
+
+      expect(statements.map(s => s.content)).toEqual([
+        'CREATE TABLE `a;b` (id INT);',
+        'CREATE TRIGGER t BEFORE INSERT ON `a;b` FOR EACH ROW BEGIN SET NEW.id = 1; END;',
+        'SELECT "x;y";'
+      ]);
+    });
+
+    it('should keep the parser message and location for statements it cannot parse', () => {
+      const statements = new SQLParser('mysql').parseStatements('CREATE TABLE t (id INT);\nALTER TABLE t\n  MODIFY id BIGINT;');
+
+      expect(statements[0].ast).not.toBeNull();
+      expect(statements[0].parseError).toBeUndefined();
+      expect(statements[1].ast).toBeNull();
+      expect(statements[1].parseError).toEqual({ message: 'Unexpected "MODIFY"', line: 3, column: 3 });
+    });
+  });
+
+  describe('parseComments', () => {
+    it('should extract line and block comments with positions', () => {
+      const content = [
+        '-- DropTable',
+        'DROP TABLE users; -- trailing note',
+        '/* multi',
+        '   line */',
+        'SELECT 1;'
+      ].join('\n');
+
+      expect(parser.parseComments(content)).toEqual([
+        { type: 'line', text: 'DropTable', line: 1, endLine: 1, column: 1 },
+        { type: 'line', text: 'trailing note', line: 2, endLine: 2, column: 19 },
+        { type: 'block', text: 'multi\n   line', line: 3, endLine: 4, column: 1 }
+      ]);
+    });
+
+    it('should ignore comment markers inside string literals', () => {
+      const content = "INSERT INTO notes (body) VALUES ('-- not a comment /* nor this */');";
+
+      expect(parser.parseComments(content)).toEqual([]);
+    });
+
+    it('should ignore comment markers inside dollar-quoted bodies and read nested comments whole', () => {
+      const content = "SELECT $$ -- not a comment $$; /* a /* b */ c */";
+
+      expect(parser.parseComments(content)).toEqual([
+        { type: 'block', text: 'a /* b */ c', line: 1, endLine: 1, column: 32 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  columnDefinitions,
+  findAll,
+  findFirst,
+  getAst,
+  lineOf,
+  maskLiterals,
+  positionAt,
+  rangeOf,
+  tableConstraints,
+  tableName,
+  transactionControl
+} from '../../core/sql-query';
+import { SQLStatement } from '../../types';
+
+describe('SQL query helpers', () => {
+  const createStatement = (content: string, startLine: number = 1): SQLStatement => ({
+    type: 'UNKNOWN',
+    content,
+    startLine,
+    endLine: startLine + (content.match(/\n/g) ?? []).length
+  });
+
+  describe('getAst', () => {
+    it('should use the AST stored on the statement', () => {
+      const statement = { ...createStatement('DROP TABLE users;'), ast: null };
+
+      expect(getAst(statement)).toBeNull();
+    });
+
+    it('should parse statements without a stored AST and return null when that fails', () => {
+      expect(getAst(createStatement('DROP TABLE users;'))!.statements[0].type).toBe('drop_table_stmt');
+      expect(getAst(createStatement('ALTER TABLE users MODIFY COLUMN name TEXT;'))).toBeNull();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should find nodes of a type anywhere in the statement', () => {
+      const statement = createStatement('ALTER TABLE users ADD COLUMN a INT, DROP COLUMN b, ADD COLUMN c TEXT;');
+
+      expect(findAll(statement, 'alter_action_add_column').map(action => action.column.name.name)).toEqual(['a', 'c']);
+      expect(findFirst(statement, 'alter_action_drop_column')!.column.name).toBe('b');
+      expect(findAll(null, 'alter_action_add_column')).toEqual([]);
+    });
+  });
+
+  describe('tableName', () => {
+    it('should return the unquoted table of DDL and DML statements', () => {
+      expect(tableName(createStatement('CREATE TABLE "User" (id INT);'))).toBe('User');
+      expect(tableName(createStatement('ALTER TABLE public.orders ADD COLUMN total INT;'))).toBe('orders');
+      expect(tableName(createStatement('CREATE INDEX idx ON users (email);'))).toBe('users');
+      expect(tableName(createStatement('DELETE FROM sessions WHERE expired;'))).toBe('sessions');
+    });
+  });
+
+  describe('columnDefinitions', () => {
+    it('should describe nullability, defaults and keys of each column', () => {
+      const columns = columnDefinitions(createStatement(
+        'CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL, note TEXT NULL, status TEXT DEFAULT \'NOT NULL\');'
+      ));
+
+      expect(columns.map(({ name, notNull, nullable, hasDefault, primaryKey }) => ({ name, notNull, nullable, hasDefault, primaryKey }))).toEqual([
+        { name: 'id', notNull: true, nullable: false, hasDefault: false, primaryKey: true },
+        { name: 'email', notNull: true, nullable: false, hasDefault: false, primaryKey: false },
+        { name: 'note', notNull: false, nullable: true, hasDefault: false, primaryKey: false },
+        { name: 'status', notNull: false, nullable: false, hasDefault: true, primaryKey: false }
+      ]);
+    });
+  });
+
+  describe('tableConstraints', () => {
+    it('should read foreign keys with their referential actions', () => {
+      const [constraint] = tableConstraints(createStatement(
+        'ALTER TABLE "Post" ADD CONSTRAINT "Post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;'
+      ));
+
+      expect(constraint).toMatchObject({
+        name: 'Post_authorId_fkey',
+        type: 'FOREIGN KEY',
+        tableName: 'Post',
+        columns: ['authorId'],
+        references: { table: 'User', columns: ['id'], onDelete: 'SET NULL', onUpdate: 'CASCADE' },
+        notValid: false
+      });
+    });
+
+    it('should read table constraints from CREATE TABLE and NOT VALID checks', () => {
+      const created = tableConstraints(createStatement('CREATE TABLE t (a INT, b INT, CONSTRAINT t_pkey PRIMARY KEY (a, b), UNIQUE (b));'));
+      const check = tableConstraints(createStatement('ALTER TABLE t ADD CONSTRAINT positive CHECK (a > 0) NOT VALID;'));
+
+      expect(created.map(c => [c.type, c.columns])).toEqual([['PRIMARY KEY', ['a', 'b']], ['UNIQUE', ['b']]]);
+      expect(check).toMatchObject([{ type: 'CHECK', notValid: true }]);
+    });
+  });
+
+  describe('lineOf', () => {
+    it('should place nodes on their line in the migration file', () => {
+      const statement = createStatement('CREATE TABLE users (\n  id INT,\n  email TEXT\n);', 10);
+      const [, email] = columnDefinitions(statement);
+
+      expect(lineOf(statement, email.node)).toBe(12);
+    });
+  });
+
+  describe('rangeOf', () => {
+    it('should give the line and column range of a node in the migration file', () => {
+      const statement = { ...createStatement('ALTER TABLE users\n  DROP COLUMN email;', 4), startColumn: 7 };
+      const drop = findFirst(statement, 'alter_action_drop_column');
+
+      expect(rangeOf(statement, drop)).toEqual({ line: 5, column: 3, endLine: 5, endColumn: 20 });
+    });
+
+    it('should cover the whole statement without a node', () => {
+      const statement = { ...createStatement('DROP TABLE users;', 4), startColumn: 7 };
+
+      expect(rangeOf(statement)).toEqual({ line: 4, column: 7, endLine: 4, endColumn: 24 });
+      expect(positionAt(statement, 5)).toEqual({ line: 4, column: 12 });
+    });
+  });
+
+  describe('transactionControl', () => {
+    it('should recognize transaction statements but not keywords elsewhere', () => {
+      expect(transactionControl(createStatement('BEGIN;'))).toBe('BEGIN');
+      expect(transactionControl(createStatement('START TRANSACTION;'))).toBe('BEGIN');
+      expect(transactionControl(createStatement('COMMIT;'))).toBe('COMMIT');
+      expect(transactionControl(createStatement('CREATE TABLE begin_log (id INT);'))).toBeUndefined();
+    });
+  });
+
+  describe('maskLiterals', () => {
+    it('should blank out comments and string literals but keep line breaks', () => {
+      const sql = "SET a = 'DROP COLUMN'; -- DEFAULT\n/* NOT\nNULL */ b";
+      const masked = maskLiterals(sql);
+
+      expect(masked).toHaveLength(sql.length);
+      expect(masked.split('\n').map(line => line.trim())).toEqual(["SET a = '           ';", '', 'b']);
+    });
+  });
+});
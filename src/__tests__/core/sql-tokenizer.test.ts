@@ -0,0 +1,101 @@
+import { SQLTokenizer } from '../../core/sql-tokenizer';
+
+describe('SQLTokenizer', () => {
+  const tokensOf = (dialect: ConstructorParameters<typeof SQLTokenizer>[0], sql: string) =>
+    new SQLTokenizer(dialect).tokenize(sql).filter(token => token.type !== 'whitespace').map(token => [token.type, token.text]);
+
+  it('should record the position of every token', () => {
+    const tokens = new SQLTokenizer('postgresql').tokenize('SELECT 1;\n  -- done');
+
+    expect(tokens.map(token => [token.type, token.start, token.line, token.column])).toEqual([
+      ['word', 0, 1, 1],
+      ['whitespace', 6, 1, 7],
+      ['word', 7, 1, 8],
+      ['delimiter', 8, 1, 9],
+      ['whitespace', 9, 1, 10],
+      ['line-comment', 12, 2, 3]
+    ]);
+  });
+
+  describe('postgresql', () => {
+    it('should read dollar-quoted bodies as one string', () => {
+      expect(tokensOf('postgresql', "AS $$ BEGIN x := 1; END; $$;")).toEqual([
+        ['word', 'AS'],
+        ['string', '$$ BEGIN x := 1; END; $$'],
+        ['delimiter', ';']
+      ]);
+      expect(tokensOf('postgresql', 'DO $body$ SELECT $$; $body$;').slice(1)).toEqual([
+        ['string', '$body$ SELECT $$; $body$'],
+        ['delimiter', ';']
+      ]);
+    });
+
+    it('should not mistake parameters or identifiers with $ for dollar quotes', () => {
+      expect(tokensOf('postgresql', 'SELECT $1, a$b$;')).toEqual([
+        ['word', 'SELECT'],
+        ['word', '$1'],
+        ['punctuation', ','],
+        ['word', 'a$b$'],
+        ['delimiter', ';']
+      ]);
+    });
+
+    it('should handle doubled quotes, E strings and nested comments', () => {
+      expect(tokensOf('postgresql', "'it''s;' E'a\\';b' \"x\"\"y;\" /* a /* b; */ c; */;")).toEqual([
+        ['string', "'it''s;'"],
+        ['string', "E'a\\';b'"],
+        ['quoted-identifier', '"x""y;"'],
+        ['block-comment', '/* a /* b; */ c; */'],
+        ['delimiter', ';']
+      ]);
+    });
+
+    it('should not treat backslashes as escapes in standard strings', () => {
+      expect(tokensOf('postgresql', "'C:\\';")).toEqual([
+        ['string', "'C:\\'"],
+        ['delimiter', ';']
+      ]);
+    });
+  });
+
+  describe('mysql', () => {
+    it('should handle backticks, backslash escapes and # comments', () => {
+      expect(tokensOf('mysql', "`a;b` 'it\\'s;' \"x;y\" # note;\n--x;")).toEqual([
+        ['quoted-identifier', '`a;b`'],
+        ['string', "'it\\'s;'"],
+        ['string', '"x;y"'],
+        ['line-comment', '# note;'],
+        ['punctuation', '-'],
+        ['punctuation', '-'],
+        ['word', 'x'],
+        ['delimiter', ';']
+      ]);
+    });
+
+    it('should not nest block comments', () => {
+      expect(tokensOf('mysql', '/* a /* b */ c;')).toEqual([
+        ['block-comment', '/* a /* b */'],
+        ['word', 'c'],
+        ['delimiter', ';']
+      ]);
+    });
+
+    it('should switch delimiters with DELIMITER commands', () => {
+      expect(tokensOf('mysql', 'DELIMITER $$\nBEGIN SET x = 1; END$$\nDELIMITER ;\nSELECT 1;')).toEqual([
+        ['delimiter-command', 'DELIMITER $$'],
+        ['word', 'BEGIN'],
+        ['word', 'SET'],
+        ['word', 'x'],
+        ['punctuation', '='],
+        ['word', '1'],
+        ['punctuation', ';'],
+        ['word', 'END'],
+        ['delimiter', '$$'],
+        ['delimiter-command', 'DELIMITER ;'],
+        ['word', 'SELECT'],
+        ['word', '1'],
+        ['delimiter', ';']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PrismaStrongMigrationsLinter } from '../../core/linter';
+import { GitUtils } from '../../utils/git';
+
+// Only git is mocked: migrations are scanned and analyzed by the real rules
+jest.mock('../../utils/git');
+const mockGitUtils = jest.mocked(GitUtils);
+
+describe('Linter Integration Tests', () => {
+  let tempDir: string;
+  let linter: PrismaStrongMigrationsLinter;
+
+  const writeMigration = (name: string, content: string): string => {
+    const filePath = path.join(tempDir, 'migrations', name, 'migration.sql');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'linter-'));
+    const configPath = path.join(tempDir, 'config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ migrationsPath: path.join(tempDir, 'migrations') }));
+    linter = new PrismaStrongMigrationsLinter(configPath);
+    mockGitUtils.isGitRepository.mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('strict parse mode', () => {
+    const unparsable = 'ALTER TABLE "users" FROBNICATE "email";';
+
+    it('should fail on parse errors', async () => {
+      writeMigration('20240101000000_init', `${unparsable}\n`);
+      const strict = new PrismaStrongMigrationsLinter(path.join(tempDir, 'config.json'), { strictParse: true });
+
+      expect(strict.shouldExit(await strict.lintMigrations())).toBe(true);
+    });
+
+    it('should not fail on parse errors a directive suppressed or the baseline recorded', async () => {
+      writeMigration('20240101000000_init', `-- strong-migrations-disable-next-line parse-error -- reason: reviewed\n${unparsable}\n`);
+      writeMigration('20240102000000_next', `${unparsable}\n`);
+      const strict = new PrismaStrongMigrationsLinter(path.join(tempDir, 'config.json'), { strictParse: true });
+      const cwd = process.cwd();
+      process.chdir(tempDir);
+      try {
+        await strict.updateBaseline();
+        const result = await strict.lintMigrations();
+
+        expect(result.violations).toEqual([]);
+        expect(result.suppressed!.map(v => v.ruleId)).toEqual(['parse-error']);
+        expect(result.baselined!.map(v => v.ruleId)).toEqual(['parse-error']);
+        expect(strict.shouldExit(result)).toBe(false);
+      } finally {
+        process.chdir(cwd);
+      }
+    });
+  });
+
+  describe('lintChangedMigrations with onlyNewLines', () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = writeMigration('20240101000000_init', [
+        'DROP TABLE "legacy";',
+        'ALTER TABLE "users"',
+        '  DROP COLUMN "email",',
+        '  ADD COLUMN "age" INTEGER;',
+        ''
+      ].join('\n'));
+      mockGitUtils.getMigrationChanges.mockReturnValue([{ kind: 'modified', filePath, migrationId: '20240101000000' }]);
+      mockGitUtils.getMigrationIdsAt.mockReturnValue(['20240101000000']);
+      mockGitUtils.getAddedLines.mockReturnValue(new Map([[filePath, [{ start: 4, end: 4 }]]]));
+    });
+
+    it('should report the findings of statements with added lines, and not the edit itself', async () => {
+      const result = await linter.lintChangedMigrations({ onlyNewLines: true });
+
+      expect(result.violations.map(v => [v.ruleId, v.line])).toEqual([
+        ['no-drop-column', 3],
+        ['no-add-column-without-default', 4]
+      ]);
+      expect(linter.shouldExit(result)).toBe(true);
+    });
+
+    it('should pass when no finding is in a statement with added lines', async () => {
+      mockGitUtils.getAddedLines.mockReturnValue(new Map([[filePath, [{ start: 5, end: 5 }]]]));
+
+      const result = await linter.lintChangedMigrations({ onlyNewLines: true });
+
+      expect(result.violations).toEqual([]);
+      expect(linter.shouldExit(result)).toBe(false);
+    });
+
+    it('should keep every finding of a renamed migration, which Prisma applies as new', async () => {
+      const renamedPath = writeMigration('20240102000000_init', fs.readFileSync(filePath, 'utf-8'));
+      fs.rmSync(path.dirname(filePath), { recursive: true });
+      mockGitUtils.getMigrationChanges.mockReturnValue([{
+        kind: 'renamed',
+        filePath: renamedPath,
+        migrationId: '20240102000000',
+        previousPath: filePath,
+        previousMigrationId: '20240101000000'
+      }]);
+      // A pure rename has no content hunks
+      mockGitUtils.getAddedLines.mockReturnValue(new Map());
+
+      const result = await linter.lintChangedMigrations({ onlyNewLines: true });
+
+      expect(result.violations.map(v => [v.ruleId, v.line])).toEqual([
+        ['no-rename-applied-migration', 1],
+        ['no-drop-table', 1],
+        ['no-drop-column', 3],
+        ['no-add-column-without-default', 4]
+      ]);
+    });
+
+    it('should report the edit of an applied migration otherwise', async () => {
+      const result = await linter.lintChangedMigrations();
+
+      expect(result.violations.map(v => v.ruleId)).toEqual(['no-modify-applied-migration']);
+    });
+  });
+});
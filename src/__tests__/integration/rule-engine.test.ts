@@ -1,4 +1,5 @@
 import { getBuiltInRules, BUILT_IN_RULES } from '../../rules';
+import { RuleEngine } from '../../core/rule-engine';
 import { Migration, SQLStatement, Severity, RuleCategory, Violation } from '../../types';
 
 describe('Rule Engine Integration Tests', () => {
@@ -13,7 +14,7 @@ describe('Rule Engine Integration Tests', () => {
     it('should have all expected rules loaded', () => {
       const rules = getBuiltInRules();
       
-      expect(rules).toHaveLength(18); // Total number of rules
+      expect(rules).toHaveLength(25); // Total number of rules
       
       // Schema Safety Rules
       expect(BUILT_IN_RULES['no-drop-table']).toBeDefined();
@@ -39,9 +40,16 @@ describe('Rule Engine Integration Tests', () => {
       expect(BUILT_IN_RULES['no-data-manipulation']).toBeDefined();
       expect(BUILT_IN_RULES['no-add-non-nullable-column']).toBeDefined();
       expect(BUILT_IN_RULES['no-nullable-to-non-nullable']).toBeDefined();
+      expect(BUILT_IN_RULES['no-modify-applied-migration']).toBeDefined();
+      expect(BUILT_IN_RULES['no-delete-applied-migration']).toBeDefined();
+      expect(BUILT_IN_RULES['no-rename-applied-migration']).toBeDefined();
+      expect(BUILT_IN_RULES['no-duplicate-migration-timestamp']).toBeDefined();
+      expect(BUILT_IN_RULES['require-migration-sql']).toBeDefined();
+      expect(BUILT_IN_RULES['no-out-of-order-migration']).toBeDefined();
       
       // Best Practices Rules
       expect(BUILT_IN_RULES['require-transaction-block']).toBeDefined();
+      expect(BUILT_IN_RULES['migration-name-format']).toBeDefined();
     });
 
     it('should have correct rule categories distribution', () => {
@@ -54,8 +62,8 @@ describe('Rule Engine Integration Tests', () => {
       expect(categoryCounts[RuleCategory.SCHEMA_SAFETY]).toBe(8);
       expect(categoryCounts[RuleCategory.PERFORMANCE]).toBe(3);
       expect(categoryCounts[RuleCategory.DATA_INTEGRITY]).toBe(3);
-      expect(categoryCounts[RuleCategory.DEPLOYMENT_SAFETY]).toBe(3);
-      expect(categoryCounts[RuleCategory.BEST_PRACTICES]).toBe(1);
+      expect(categoryCounts[RuleCategory.DEPLOYMENT_SAFETY]).toBe(9);
+      expect(categoryCounts[RuleCategory.BEST_PRACTICES]).toBe(2);
     });
 
     it('should have all rules enabled by default', () => {
@@ -79,7 +87,7 @@ describe('Rule Engine Integration Tests', () => {
   });
 
   describe('Complex Migration Scenarios', () => {
-    it('should detect multiple rule violations in a complex migration', () => {
+    it('should detect multiple rule violations in a complex migration', async () => {
       const statements: SQLStatement[] = [
         {
           type: 'DROP_TABLE',
@@ -125,13 +133,12 @@ describe('Rule Engine Integration Tests', () => {
       );
 
       const allViolations: Violation[] = [];
-      statements.forEach(statement => {
-        const rules = getBuiltInRules();
-        rules.forEach(rule => {
-          const violations = rule.check(statement, migration);
+      for (const statement of statements) {
+        for (const rule of getBuiltInRules()) {
+          const violations = await (rule.check?.(statement, migration) ?? []);
           allViolations.push(...violations);
-        });
-      });
+        }
+      }
 
       expect(allViolations.length).toBeGreaterThan(5);
       
@@ -144,7 +151,7 @@ describe('Rule Engine Integration Tests', () => {
       expect(ruleIds).toContain('no-data-manipulation');
     });
 
-    it('should handle a well-structured migration with minimal violations', () => {
+    it('should handle a well-structured migration with minimal violations', async () => {
       const statements: SQLStatement[] = [
         {
           type: 'OTHER',
@@ -186,12 +193,12 @@ describe('Rule Engine Integration Tests', () => {
       const allViolations: Violation[] = [];
       const rules = getBuiltInRules();
 
-      statements.forEach(statement => {
-        rules.forEach(rule => {
-          const violations = rule.check(statement, migration);
+      for (const statement of statements) {
+        for (const rule of rules) {
+          const violations = await (rule.check?.(statement, migration) ?? []);
           allViolations.push(...violations);
-        });
-      });
+        }
+      }
 
       // Should have very few violations for a well-structured migration
       expect(allViolations.length).toBeLessThan(3);
@@ -230,7 +237,7 @@ describe('Rule Engine Integration Tests', () => {
       edgeCaseStatements.forEach(statement => {
         rules.forEach(rule => {
           expect(() => {
-            rule.check(statement, migration);
+            rule.check?.(statement, migration);
           }).not.toThrow();
         });
       });
@@ -275,7 +282,7 @@ describe('Rule Engine Integration Tests', () => {
       problematicStatements.forEach(statement => {
         rules.forEach(rule => {
           expect(() => {
-            rule.check(statement, migration);
+            rule.check?.(statement, migration);
           }).not.toThrow();
         });
       });
@@ -283,7 +290,7 @@ describe('Rule Engine Integration Tests', () => {
   });
 
   describe('Rule Performance and Reliability', () => {
-    it('should process large migrations efficiently', () => {
+    it('should process large migrations efficiently', async () => {
       // Create a migration with many statements
       const statements: SQLStatement[] = [];
       for (let i = 0; i < 100; i++) {
@@ -300,16 +307,10 @@ describe('Rule Engine Integration Tests', () => {
         statements
       );
 
-      const rules = getBuiltInRules();
+      const engine = new RuleEngine(getBuiltInRules());
       const startTime = Date.now();
 
-      let totalViolations = 0;
-      statements.forEach(statement => {
-        rules.forEach(rule => {
-          const violations = rule.check(statement, migration);
-          totalViolations += violations.length;
-        });
-      });
+      const totalViolations = (await engine.analyzeMigration(migration)).length;
 
       const endTime = Date.now();
       const duration = endTime - startTime;
@@ -319,7 +320,7 @@ describe('Rule Engine Integration Tests', () => {
       expect(totalViolations).toBeGreaterThan(0); // Should find some violations
     });
 
-    it('should have consistent rule behavior across multiple runs', () => {
+    it('should have consistent rule behavior across multiple runs', async () => {
       const statement: SQLStatement = {
         type: 'ALTER_TABLE',
         content: 'ALTER TABLE users ADD COLUMN email VARCHAR(255) NOT NULL;',
@@ -333,7 +334,7 @@ describe('Rule Engine Integration Tests', () => {
       // Run the same check multiple times
       const results: Violation[][] = [];
       for (let i = 0; i < 10; i++) {
-        results.push(rule.check(statement, migration));
+        results.push(await (rule.check?.(statement, migration) ?? []));
       }
 
       // All results should be identical
@@ -354,7 +355,7 @@ describe('Rule Engine Integration Tests', () => {
         expect(rule.description).toBeTruthy();
         expect([Severity.ERROR, Severity.WARNING, Severity.INFO]).toContain(rule.severity);
         expect(Object.values(RuleCategory)).toContain(rule.category);
-        expect(typeof rule.check).toBe('function');
+        expect(rule.check ?? rule.checkMigration ?? rule.checkProject ?? rule.checkChange).toBeInstanceOf(Function);
         expect(typeof rule.enabled).toBe('boolean');
       });
     });
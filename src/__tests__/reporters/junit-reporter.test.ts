@@ -1,5 +1,5 @@
 import { JunitReporter } from '../../reporters/junit-reporter';
-import { LintResult, Severity, Violation, RuleCategory } from '../../types';
+import { LintResult, Severity, Violation, RuleCategory, SuppressionKind } from '../../types';
 
 describe('JunitReporter', () => {
   let reporter: JunitReporter;
@@ -263,6 +263,83 @@ describe('JunitReporter', () => {
       expect(output).toContain('classname="migration-lint"');
     });
 
+    it('should generate one test suite per migration file', () => {
+      const violations: Violation[] = [
+        {
+          ruleId: 'no-drop-table',
+          ruleName: 'No Drop Table',
+          severity: Severity.ERROR,
+          message: 'Dropping tables is dangerous',
+          line: 1,
+          filePath: 'prisma/migrations/20240101000000_a/migration.sql',
+          category: RuleCategory.SCHEMA_SAFETY
+        },
+        {
+          ruleId: 'require-pii-comments',
+          ruleName: 'Require PII Comments',
+          severity: Severity.INFO,
+          message: 'Column appears to contain PII',
+          line: 2,
+          filePath: 'prisma/migrations/20240102000000_b/migration.sql',
+          category: RuleCategory.DATA_INTEGRITY
+        }
+      ];
+
+      const result: LintResult = {
+        violations,
+        totalFiles: 2,
+        totalViolations: 2,
+        errorCount: 1,
+        warningCount: 0,
+        infoCount: 1
+      };
+
+      const output = reporter.format(result);
+
+      expect(output).toContain('<testsuite name="prisma/migrations/20240101000000_a/migration.sql" tests="1" failures="1"');
+      expect(output).toContain('<testsuite name="prisma/migrations/20240102000000_b/migration.sql" tests="1" failures="0"');
+      expect(output).toContain('file="prisma/migrations/20240101000000_a/migration.sql"');
+      expect(output).not.toContain('<testsuite name="migration-lint"');
+    });
+
+    it('should list acknowledged violations as skipped test cases with reason and approver', () => {
+      const acknowledged: Violation = {
+        ruleId: 'no-drop-table',
+        ruleName: 'No Drop Table',
+        severity: Severity.ERROR,
+        message: 'Dropping tables is dangerous',
+        line: 3,
+        filePath: 'prisma/migrations/20240101000000_a/migration.sql',
+        category: RuleCategory.SCHEMA_SAFETY,
+        suppression: {
+          kind: SuppressionKind.SAFETY_ASSURED,
+          justification: 'table archived to S3',
+          approver: 'jane.doe',
+          line: 2
+        }
+      };
+
+      const result: LintResult = {
+        violations: [],
+        acknowledged: [acknowledged],
+        totalFiles: 1,
+        totalViolations: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0
+      };
+
+      const output = reporter.format(result);
+
+      expect(output).toContain('tests="1"');
+      expect(output).toContain('failures="0"');
+      expect(output).toContain('skipped="1"');
+      expect(output).toContain('<skipped message="Acknowledged by jane.doe: table archived to S3"/>');
+      expect(output).toContain('<property name="approver" value="jane.doe"/>');
+      expect(output).toContain('<property name="reason" value="table archived to S3"/>');
+      expect(output).not.toContain('<failure');
+    });
+
     it('should include timestamp in XML output', () => {
       const result: LintResult = {
         violations: [],
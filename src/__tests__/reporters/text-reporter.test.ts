@@ -25,6 +25,51 @@ describe('TextReporter', () => {
       expect(output).toContain('✓ No violations found in migration files');
     });
 
+    it('should summarize muted findings when no violation is active', () => {
+      const violation: Violation = {
+        ruleId: 'no-drop-table',
+        ruleName: 'No Drop Table',
+        severity: Severity.ERROR,
+        message: 'Dropping table',
+        line: 1,
+        category: RuleCategory.SCHEMA_SAFETY
+      };
+      const result: LintResult = {
+        violations: [],
+        suppressed: [violation],
+        acknowledged: [],
+        baselined: [violation, violation],
+        totalFiles: 2,
+        totalViolations: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0
+      };
+
+      const output = stripVTControlCharacters(reporter.format(result));
+
+      expect(output).toContain('✓ No violations found in migration files');
+      expect(output).toContain('0 problems (2 files linted, 1 suppressed, 2 baselined)');
+      expect(reporter.format({ ...result, suppressed: [], baselined: [] })).not.toContain('0 problems');
+    });
+
+    it('should report how many statements were analyzed by text fallback', () => {
+      const result: LintResult = {
+        violations: [],
+        totalFiles: 2,
+        totalViolations: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0,
+        parsing: { totalStatements: 12, textFallbackStatements: 3 }
+      };
+
+      const output = stripVTControlCharacters(reporter.format(result));
+
+      expect(output).toContain('3 of 12 statements could not be parsed and were analyzed by text matching only');
+      expect(reporter.format({ ...result, parsing: { totalStatements: 12, textFallbackStatements: 0 } })).not.toContain('text matching');
+    });
+
     it('should format single error violation correctly', () => {
       const violation: Violation = {
         ruleId: 'no-drop-table',
@@ -131,6 +176,60 @@ describe('TextReporter', () => {
       expect(output).toContain('Dropping tables is dangerous');
     });
 
+    it('should print the slowest rules and migrations as tables when timed', () => {
+      const result: LintResult = {
+        violations: [],
+        totalFiles: 1,
+        totalViolations: 0,
+        errorCount: 0,
+        warningCount: 0,
+        infoCount: 0,
+        timing: {
+          scan: 3.2,
+          rules: [{ ruleId: 'no-drop-table', time: 3, calls: 4 }, { ruleId: 'no-drop-column', time: 1, calls: 4 }],
+          migrations: [{ filePath: 'a/migration.sql', parse: 1.5, rules: 4, total: 5.5 }]
+        }
+      };
+
+      expect(stripVTControlCharacters(reporter.format(result)).split('\n').slice(1)).toEqual([
+        '',
+        'Rule           | Time (ms) | Calls | Relative',
+        ':--------------|----------:|------:|--------:',
+        'no-drop-table  |     3.000 |     4 |    75.0%',
+        'no-drop-column |     1.000 |     4 |    25.0%',
+        '',
+        'Migration       | Parse (ms) | Rules (ms) | Total (ms)',
+        ':---------------|-----------:|-----------:|----------:',
+        'a/migration.sql |      1.500 |      4.000 |      5.500',
+        '',
+        'Scan time: 3.200 ms'
+      ]);
+    });
+
+    it('should show the stack traces of crashed rules only in debug mode', () => {
+      const violation: Violation = {
+        ruleId: 'internal-error',
+        ruleName: 'Internal Error',
+        severity: Severity.WARNING,
+        message: 'Rule no-drop-table crashed: boom',
+        line: 1,
+        category: RuleCategory.DIAGNOSTICS,
+        stack: 'Error: boom\n    at check (no-drop-table.js:3:11)'
+      };
+      const result: LintResult = {
+        violations: [violation],
+        totalFiles: 1,
+        totalViolations: 1,
+        errorCount: 0,
+        warningCount: 1,
+        infoCount: 0
+      };
+
+      expect(reporter.format(result)).not.toContain('no-drop-table.js:3:11');
+      expect(stripVTControlCharacters(new TextReporter({ debug: true }).format(result)))
+        .toContain('    Error: boom\n        at check (no-drop-table.js:3:11)');
+    });
+
     it('should format summary with only errors', () => {
       const result: LintResult = {
         violations: [],
@@ -179,6 +278,52 @@ describe('TextReporter', () => {
       expect(output).toContain('1 file linted');
     });
 
+    it('should group violations under the migration file they belong to', () => {
+      const violations: Violation[] = [
+        {
+          ruleId: 'no-drop-table',
+          ruleName: 'No Drop Table',
+          severity: Severity.ERROR,
+          message: 'Dropping tables can cause irreversible data loss',
+          line: 3,
+          column: 5,
+          filePath: 'prisma/migrations/20240101000000_drop_users/migration.sql',
+          migrationId: '20240101000000',
+          category: RuleCategory.SCHEMA_SAFETY
+        },
+        {
+          ruleId: 'no-drop-column',
+          ruleName: 'No Drop Column',
+          severity: Severity.ERROR,
+          message: 'Dropping columns can cause irreversible data loss',
+          line: 1,
+          column: 1,
+          filePath: 'prisma/migrations/20240102000000_drop_email/migration.sql',
+          migrationId: '20240102000000',
+          category: RuleCategory.SCHEMA_SAFETY
+        }
+      ];
+
+      const result: LintResult = {
+        violations,
+        totalFiles: 2,
+        totalViolations: 2,
+        errorCount: 2,
+        warningCount: 0,
+        infoCount: 0
+      };
+
+      const output = stripVTControlCharacters(reporter.format(result));
+      const firstFile = output.indexOf('prisma/migrations/20240101000000_drop_users/migration.sql');
+      const secondFile = output.indexOf('prisma/migrations/20240102000000_drop_email/migration.sql');
+
+      expect(firstFile).toBeGreaterThanOrEqual(0);
+      expect(secondFile).toBeGreaterThan(firstFile);
+      expect(output.indexOf('3:5')).toBeGreaterThan(firstFile);
+      expect(output.indexOf('3:5')).toBeLessThan(secondFile);
+      expect(output.indexOf('Dropping columns')).toBeGreaterThan(secondFile);
+    });
+
     it('should format summary with plural forms', () => {
       const result: LintResult = {
         violations: [],
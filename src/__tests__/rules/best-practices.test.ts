@@ -1,4 +1,5 @@
 import { requireTransactionBlockRule } from '../../rules/best-practices/require-transaction-block';
+import { migrationNameFormatRule } from '../../rules/best-practices/migration-name-format';
 import { Migration, SQLStatement, Severity, RuleCategory } from '../../types';
 
 describe('Best Practices Rules', () => {
@@ -9,6 +10,9 @@ describe('Best Practices Rules', () => {
     statements
   });
 
+  const checkMigration = (migration: Migration, options: Record<string, unknown> = {}) =>
+    requireTransactionBlockRule.checkMigration!(migration, { options });
+
   describe('Require Transaction Block Rule', () => {
     it('should detect migration without transaction blocks when there are multiple operations', () => {
       const statements: SQLStatement[] = [
@@ -37,8 +41,8 @@ describe('Best Practices Rules', () => {
         statements
       );
 
-      // Only the first statement should trigger the violation
-      const violations = requireTransactionBlockRule.check(statements[0], migration);
+      // Reported once per migration, at the first modifying statement
+      const violations = checkMigration(migration);
       expect(violations).toHaveLength(1);
       expect(violations[0].ruleId).toBe('require-transaction-block');
       expect(violations[0].ruleName).toBe('Require Transaction Block');
@@ -69,10 +73,7 @@ describe('Best Practices Rules', () => {
         statements
       );
 
-      statements.forEach(statement => {
-        const violations = requireTransactionBlockRule.check(statement, migration);
-        expect(violations).toHaveLength(0);
-      });
+      expect(checkMigration(migration)).toHaveLength(0);
     });
 
     it('should NOT trigger when transaction block exists', () => {
@@ -114,10 +115,7 @@ describe('Best Practices Rules', () => {
         statements
       );
 
-      statements.forEach(statement => {
-        const violations = requireTransactionBlockRule.check(statement, migration);
-        expect(violations).toHaveLength(0);
-      });
+      expect(checkMigration(migration)).toHaveLength(0);
     });
 
     it('should detect migration with incomplete transaction blocks', () => {
@@ -153,7 +151,7 @@ describe('Best Practices Rules', () => {
         statements
       );
       
-      const violations = requireTransactionBlockRule.check(statements[0], migration);
+      const violations = checkMigration(migration);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toBe('Migration with multiple operations should use explicit transaction block');
     });
@@ -191,7 +189,7 @@ describe('Best Practices Rules', () => {
         statements
       );
       
-      const violations = requireTransactionBlockRule.check(statements[0], migration);
+      const violations = checkMigration(migration);
       expect(violations).toHaveLength(1);
       expect(violations[0].message).toBe('Migration with multiple operations should use explicit transaction block');
     });
@@ -229,7 +227,7 @@ describe('Best Practices Rules', () => {
           statements.map(s => s.content).join('\n'),
           statements
         );
-        const violations = requireTransactionBlockRule.check(statements[0], migration);
+        const violations = checkMigration(migration);
         expect(violations).toHaveLength(1);
         expect(violations[0].message).toBe('Migration with multiple operations should use explicit transaction block');
       });
@@ -265,7 +263,7 @@ describe('Best Practices Rules', () => {
 
       dataStatements.forEach(statement => {
         const migration = createMockMigration(statement.content, [statement]);
-        const violations = requireTransactionBlockRule.check(statement, migration);
+        const violations = checkMigration(migration);
         expect(violations).toHaveLength(0);
       });
     });
@@ -315,12 +313,8 @@ describe('Best Practices Rules', () => {
         statements
       );
       
-      // Both DDL statements should not trigger violations as they're within transaction blocks
-      const violations1 = requireTransactionBlockRule.check(statements[1], migration);
-      expect(violations1).toHaveLength(0);
-      
-      const violations2 = requireTransactionBlockRule.check(statements[4], migration);
-      expect(violations2).toHaveLength(0);
+      // Both DDL statements are within transaction blocks
+      expect(checkMigration(migration)).toHaveLength(0);
     });
 
     it('should handle PostgreSQL-style comments in transaction detection', () => {
@@ -356,10 +350,35 @@ describe('Best Practices Rules', () => {
         statements
       );
       
-      const violations = requireTransactionBlockRule.check(statements[2], migration);
+      const violations = checkMigration(migration);
       expect(violations).toHaveLength(0);
     });
 
+    it('should honor the maxStatements option', () => {
+      const statements: SQLStatement[] = [
+        {
+          type: 'CREATE_TABLE',
+          content: 'CREATE TABLE users (id SERIAL PRIMARY KEY);',
+          startLine: 1,
+          endLine: 1
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE users ADD COLUMN email VARCHAR(255);',
+          startLine: 2,
+          endLine: 2
+        }
+      ];
+
+      const migration = createMockMigration(
+        statements.map(s => s.content).join('\n'),
+        statements
+      );
+
+      expect(checkMigration(migration, { maxStatements: 1 })).toHaveLength(1);
+      expect(checkMigration(migration, { maxStatements: 2 })).toHaveLength(0);
+    });
+
     it('should have correct rule metadata', () => {
       expect(requireTransactionBlockRule.id).toBe('require-transaction-block');
       expect(requireTransactionBlockRule.name).toBe('Require Transaction Block');
@@ -369,4 +388,26 @@ describe('Best Practices Rules', () => {
       expect(requireTransactionBlockRule.enabled).toBe(true);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Migration Name Format Rule', () => {
+    const checkName = (filename: string) =>
+      migrationNameFormatRule.checkMigration({ id: '', filename, content: '', statements: [] }, { options: {} });
+
+    it('should accept directories named as prisma migrate dev names them', () => {
+      expect(checkName('prisma/migrations/20240131235959_add_users/migration.sql')).toHaveLength(0);
+    });
+
+    it('should report directory names without a valid timestamp', () => {
+      for (const directory of ['init', '2024_init', '20240101_init', '20241301000000_init', '20240101000000', '20240101000000-init']) {
+        const violations = checkName(`prisma/migrations/${directory}/migration.sql`);
+
+        expect(violations).toHaveLength(1);
+        expect(violations[0].message).toBe(`Migration directory ${directory} does not match YYYYMMDDHHMMSS_name`);
+      }
+    });
+
+    it('should ignore files outside the Prisma layout', () => {
+      expect(checkName('migrations/001_init.sql')).toHaveLength(0);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { requireNotNullConstraintRule } from '../../rules/data-integrity/require-not-null-constraint';
 import { requirePiiCommentsRule } from '../../rules/data-integrity/require-pii-comments';
+import { SQLParser } from '../../core/sql-parser';
 import { Migration, SQLStatement, Severity, RuleCategory } from '../../types';
 
 describe('Data Integrity Rules', () => {
@@ -117,6 +118,25 @@ describe('Data Integrity Rules', () => {
   });
 
   describe('Require PII Comments Rule', () => {
+    it('should point at the column in the file despite comments inside the statement', () => {
+      const content = [
+        '-- CreateTable',
+        'CREATE TABLE "users" (',
+        '    -- surrogate key',
+        '    "id" SERIAL PRIMARY KEY,',
+        '    /* login',
+        '       address */',
+        '    "email" TEXT',
+        ');'
+      ].join('\n');
+      const [statement] = new SQLParser('postgresql').parseStatements(content);
+
+      const violations = requirePiiCommentsRule.check(statement, createMockMigration(content, [statement]));
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ line: 7, column: 5, endLine: 7, endColumn: 17 });
+    });
+
     it('should detect PII columns without comments', () => {
       const statement: SQLStatement = {
         type: 'CREATE_TABLE',
@@ -230,6 +250,21 @@ describe('Data Integrity Rules', () => {
       expect(violations[0].message).toBe('Column appears to contain PII but lacks proper comment');
     });
 
+    it('should use configured PII patterns instead of the defaults', () => {
+      const statement: SQLStatement = {
+        type: 'CREATE_TABLE',
+        content: 'CREATE TABLE users (\n  email VARCHAR(255),\n  national_id VARCHAR(20)\n);',
+        startLine: 1,
+        endLine: 4
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      const violations = requirePiiCommentsRule.check(statement, migration, { options: { patterns: ['\\bnational_id\\b'] } });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].line).toBe(3);
+    });
+
     it('should have correct rule metadata', () => {
       expect(requirePiiCommentsRule.id).toBe('require-pii-comments');
       expect(requirePiiCommentsRule.name).toBe('Require PII Comments');
@@ -1,7 +1,13 @@
 import { noDataManipulationRule } from '../../rules/deployment-safety/no-data-manipulation';
 import { noAddNonNullableColumnRule } from '../../rules/deployment-safety/no-add-non-nullable-column';
 import { noNullableToNonNullableRule } from '../../rules/deployment-safety/no-nullable-to-non-nullable';
-import { Migration, SQLStatement, Severity, RuleCategory } from '../../types';
+import { noModifyAppliedMigrationRule } from '../../rules/deployment-safety/no-modify-applied-migration';
+import { noDeleteAppliedMigrationRule } from '../../rules/deployment-safety/no-delete-applied-migration';
+import { noRenameAppliedMigrationRule } from '../../rules/deployment-safety/no-rename-applied-migration';
+import { noDuplicateMigrationTimestampRule } from '../../rules/deployment-safety/no-duplicate-migration-timestamp';
+import { requireMigrationSqlRule } from '../../rules/deployment-safety/require-migration-sql';
+import { noOutOfOrderMigrationRule } from '../../rules/deployment-safety/no-out-of-order-migration';
+import { Migration, MigrationChange, SQLStatement, Severity, RuleCategory } from '../../types';
 
 describe('Deployment Safety Rules', () => {
   const createMockMigration = (content: string, statements: SQLStatement[]): Migration => ({
@@ -302,6 +308,18 @@ describe('Deployment Safety Rules', () => {
       });
     });
 
+    it('should check each added column for its own default', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE users ADD COLUMN email TEXT NOT NULL, ADD COLUMN role TEXT DEFAULT \'user\';',
+        startLine: 1,
+        endLine: 1
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      expect(noAddNonNullableColumnRule.check(statement, migration)).toHaveLength(1);
+    });
+
     it('should have correct rule metadata', () => {
       expect(noAddNonNullableColumnRule.id).toBe('no-add-non-nullable-column');
       expect(noAddNonNullableColumnRule.name).toBe('No Add Non-Nullable Column Without Default');
@@ -412,4 +430,107 @@ describe('Deployment Safety Rules', () => {
       expect(noNullableToNonNullableRule.enabled).toBe(true);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Applied Migration Rules', () => {
+    const filePath = '/project/prisma/migrations/20231201120000_init/migration.sql';
+    const changes: Record<MigrationChange['kind'], MigrationChange> = {
+      added: { kind: 'added', filePath, migrationId: '20231201120000' },
+      modified: { kind: 'modified', filePath, migrationId: '20231201120000' },
+      deleted: { kind: 'deleted', filePath, migrationId: '20231201120000' },
+      renamed: {
+        kind: 'renamed',
+        filePath: '/project/prisma/migrations/20231201120000_create_users/migration.sql',
+        migrationId: '20231201120000',
+        previousPath: filePath,
+        previousMigrationId: '20231201120000'
+      }
+    };
+    const reportedKinds = (checkChange: typeof noModifyAppliedMigrationRule.checkChange) =>
+      Object.values(changes).filter(change => checkChange(change, { options: {} }).length > 0).map(change => change.kind);
+
+    it('should report each kind of change with its own rule', () => {
+      expect(reportedKinds(noModifyAppliedMigrationRule.checkChange)).toEqual(['modified']);
+      expect(reportedKinds(noDeleteAppliedMigrationRule.checkChange)).toEqual(['deleted']);
+      expect(reportedKinds(noRenameAppliedMigrationRule.checkChange)).toEqual(['renamed']);
+    });
+
+    it('should name the migrations involved', () => {
+      expect(noModifyAppliedMigrationRule.checkChange(changes.modified, { options: {} })[0].message)
+        .toBe('Migration 20231201120000_init was modified after it was merged');
+      expect(noRenameAppliedMigrationRule.checkChange(changes.renamed, { options: {} })[0].message)
+        .toBe('Migration 20231201120000_init was renamed to 20231201120000_create_users after it was merged');
+    });
+
+    it('should be errors in the deployment safety category', () => {
+      for (const rule of [noModifyAppliedMigrationRule, noDeleteAppliedMigrationRule, noRenameAppliedMigrationRule]) {
+        expect(rule.severity).toBe(Severity.ERROR);
+        expect(rule.category).toBe(RuleCategory.DEPLOYMENT_SAFETY);
+        expect(rule.enabled).toBe(true);
+      }
+    });
+  });
+
+  describe('Migration Directory Rules', () => {
+    const prismaMigration = (directory: string, content: string = 'SELECT 1;'): Migration => ({
+      id: directory.split('_')[0],
+      filename: `prisma/migrations/${directory}/migration.sql`,
+      content,
+      statements: []
+    });
+
+    it('should report every migration sharing the timestamp of an earlier one', () => {
+      const violations = noDuplicateMigrationTimestampRule.checkProject([
+        prismaMigration('20240101000000_init'),
+        prismaMigration('20240102000000_add_posts'),
+        prismaMigration('20240102000000_add_users'),
+        prismaMigration('20240102000000_add_tags')
+      ], { options: {} });
+
+      expect(violations.map(v => [v.filePath, v.message])).toEqual([
+        ['prisma/migrations/20240102000000_add_users/migration.sql', 'Migration 20240102000000_add_users has the same timestamp as 20240102000000_add_posts'],
+        ['prisma/migrations/20240102000000_add_tags/migration.sql', 'Migration 20240102000000_add_tags has the same timestamp as 20240102000000_add_posts']
+      ]);
+    });
+
+    it('should report directories without a migration.sql and empty migration files', () => {
+      const violations = requireMigrationSqlRule.checkProject([prismaMigration('20240101000000_init'), prismaMigration('20240103000000_empty', ' \n')], {
+        options: {},
+        project: {
+          migrationsPath: './prisma/migrations',
+          directories: [
+            { name: '20240101000000_init', hasMigrationFile: true },
+            { name: '20240102000000_lost', hasMigrationFile: false },
+            { name: '20240103000000_empty', hasMigrationFile: true }
+          ]
+        }
+      });
+
+      expect(violations.map(v => [v.filePath, v.message])).toEqual([
+        ['prisma/migrations/20240102000000_lost', 'Migration directory 20240102000000_lost has no migration.sql'],
+        ['prisma/migrations/20240103000000_empty/migration.sql', 'Migration 20240103000000_empty has an empty migration.sql']
+      ]);
+    });
+
+    it('should accept migrations that contain only a comment', () => {
+      expect(requireMigrationSqlRule.checkProject([prismaMigration('20240101000000_noop', '-- This is an empty migration.')], { options: {} }))
+        .toHaveLength(0);
+    });
+
+    it('should report added migrations older than the newest migration on the base branch', () => {
+      const change = (kind: MigrationChange['kind'], directory: string): MigrationChange => ({
+        kind,
+        filePath: `/project/prisma/migrations/${directory}/migration.sql`,
+        migrationId: directory.split('_')[0]
+      });
+      const context = { options: {}, baseMigrationIds: ['20240101000000', '20240301000000', '20240201000000'] };
+
+      const violations = noOutOfOrderMigrationRule.checkChange(change('added', '20240215000000_add_tags'), context);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0].message).toBe('Migration 20240215000000_add_tags is timestamped before 20240301000000, the newest migration on the base branch');
+      expect(noOutOfOrderMigrationRule.checkChange(change('added', '20240302000000_add_tags'), context)).toHaveLength(0);
+      expect(noOutOfOrderMigrationRule.checkChange(change('modified', '20240215000000_add_tags'), context)).toHaveLength(0);
+      expect(noOutOfOrderMigrationRule.checkChange(change('added', '20240215000000_add_tags'), { options: {} })).toHaveLength(0);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { requireConcurrentIndexRule } from '../../rules/performance/require-concurrent-index';
 import { noFullTableScanRule } from '../../rules/performance/no-full-table-scan';
 import { requireIndexForForeignKeyRule } from '../../rules/performance/require-index-for-foreign-key';
+import { SchemaBuilder } from '../../core/schema-builder';
 import { Migration, SQLStatement, Severity, RuleCategory } from '../../types';
 
 describe('Performance Rules', () => {
@@ -315,6 +316,21 @@ describe('Performance Rules', () => {
   });
 
   describe('Require Index For Foreign Key Rule', () => {
+    it('should read statements the parser rejected in the configured dialect', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE `orders` ADD CONSTRAINT `fk_customer` FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`);',
+        startLine: 1,
+        endLine: 1,
+        ast: null
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      const violations = requireIndexForForeignKeyRule.check(statement, migration, { options: {}, dialect: 'mysql' });
+
+      expect(violations.map(v => v.message)).toEqual(['Foreign key column(s) "customer_id" should have an index']);
+    });
+
     it('should detect foreign key without corresponding index', () => {
       const statement: SQLStatement = {
         type: 'ALTER_TABLE',
@@ -331,7 +347,7 @@ describe('Performance Rules', () => {
       expect(violations[0].ruleName).toBe('Require Index for Foreign Key');
       expect(violations[0].severity).toBe(Severity.WARNING);
       expect(violations[0].category).toBe(RuleCategory.PERFORMANCE);
-      expect(violations[0].message).toBe('Foreign key column(s) "CUSTOMER_ID" should have an index');
+      expect(violations[0].message).toBe('Foreign key column(s) "customer_id" should have an index');
       expect(violations[0].line).toBe(1);
     });
 
@@ -347,7 +363,7 @@ describe('Performance Rules', () => {
       const violations = requireIndexForForeignKeyRule.check(statement, migration);
       
       expect(violations).toHaveLength(1);
-      expect(violations[0].message).toBe('Foreign key column(s) "ORDER_ID, PRODUCT_ID" should have an index');
+      expect(violations[0].message).toBe('Foreign key column(s) "order_id, product_id" should have an index');
     });
 
     it('should NOT trigger when corresponding index exists', () => {
@@ -375,6 +391,48 @@ describe('Performance Rules', () => {
       expect(violations).toHaveLength(0);
     });
 
+    it('should NOT trigger when an earlier migration indexed the column', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE "Order" ADD CONSTRAINT "Order_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id");',
+        startLine: 1,
+        endLine: 1
+      };
+      const history = createMockMigration('CREATE INDEX "Order_customerId_idx" ON "Order"("customerId");', [{
+        type: 'CREATE_INDEX',
+        content: 'CREATE INDEX "Order_customerId_idx" ON "Order"("customerId");',
+        startLine: 1,
+        endLine: 1
+      }]);
+
+      const migration = createMockMigration(statement.content, [statement]);
+      const resultingSchema = SchemaBuilder.replay([history]);
+      const violations = requireIndexForForeignKeyRule.check(statement, migration, { options: {}, resultingSchema });
+
+      expect(violations).toHaveLength(0);
+    });
+
+    it('should not accept an index that only covers another column', () => {
+      const statements: SQLStatement[] = [
+        {
+          type: 'CREATE_INDEX',
+          content: 'CREATE INDEX idx_order_created ON orders (created_at, customer_id);',
+          startLine: 1,
+          endLine: 1
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers(id);',
+          startLine: 2,
+          endLine: 2
+        }
+      ];
+
+      const migration = createMockMigration(statements.map(s => s.content).join('\n'), statements);
+
+      expect(requireIndexForForeignKeyRule.check(statements[1], migration)).toHaveLength(1);
+    });
+
     it('should handle case insensitive statements', () => {
       const statement: SQLStatement = {
         type: 'ALTER_TABLE',
@@ -7,6 +7,7 @@ import { noUniqueConstraintWithoutIndexRule } from '../../rules/schema-safety/no
 import { noColumnRenameRule } from '../../rules/schema-safety/no-column-rename';
 import { noTableRenameRule } from '../../rules/schema-safety/no-table-rename';
 import { noDropForeignKeyConstraintRule } from '../../rules/schema-safety/no-drop-foreign-key-constraint';
+import { SchemaBuilder } from '../../core/schema-builder';
 import { Migration, SQLStatement, Severity, RuleCategory } from '../../types';
 
 describe('Schema Safety Rules', () => {
@@ -173,6 +174,18 @@ describe('Schema Safety Rules', () => {
       });
     });
 
+    it('should NOT trigger on DROP COLUMN inside comments', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE users ADD COLUMN archived_at TIMESTAMP /* instead of DROP COLUMN */;',
+        startLine: 1,
+        endLine: 1
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      expect(noDropColumnRule.check(statement, migration)).toHaveLength(0);
+    });
+
     it('should have correct rule metadata', () => {
       expect(noDropColumnRule.id).toBe('no-drop-column');
       expect(noDropColumnRule.name).toBe('No Drop Column');
@@ -246,6 +259,18 @@ describe('Schema Safety Rules', () => {
       expect(violations).toHaveLength(1);
     });
 
+    it('should NOT mistake DEFAULT inside a string literal for a default value', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE users ADD COLUMN plan TEXT CHECK (plan <> \'DEFAULT\');',
+        startLine: 1,
+        endLine: 1
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      expect(noAddColumnWithoutDefaultRule.check(statement, migration)).toHaveLength(1);
+    });
+
     it('should have correct rule metadata', () => {
       expect(noAddColumnWithoutDefaultRule.id).toBe('no-add-column-without-default');
       expect(noAddColumnWithoutDefaultRule.name).toBe('No Add Column Without Default');
@@ -392,6 +417,18 @@ describe('Schema Safety Rules', () => {
       expect(violations).toHaveLength(1);
     });
 
+    it('should NOT accept ON DELETE written in a comment', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers(id) /* ON DELETE handled by app */;',
+        startLine: 1,
+        endLine: 1
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      expect(requireForeignKeyCascadeRule.check(statement, migration)).toHaveLength(1);
+    });
+
     it('should have correct rule metadata', () => {
       expect(requireForeignKeyCascadeRule.id).toBe('require-foreign-key-cascade');
       expect(requireForeignKeyCascadeRule.name).toBe('Require Foreign Key Cascade');
@@ -403,6 +440,21 @@ describe('Schema Safety Rules', () => {
   });
 
   describe('No Unique Constraint Without Index Rule', () => {
+    it('should read statements the parser rejected in the configured dialect', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE `users` ADD UNIQUE INDEX `u`(`email`);',
+        startLine: 1,
+        endLine: 1,
+        ast: null
+      };
+
+      const migration = createMockMigration(statement.content, [statement]);
+      const violations = noUniqueConstraintWithoutIndexRule.check(statement, migration, { options: {}, dialect: 'mysql' });
+
+      expect(violations.map(v => v.message)).toEqual(['Adding unique constraint on "email" may fail if duplicates exist']);
+    });
+
     it('should detect unique constraints without corresponding indexes', () => {
       const statement: SQLStatement = {
         type: 'ALTER_TABLE',
@@ -448,6 +500,51 @@ describe('Schema Safety Rules', () => {
       expect(violations).toHaveLength(1); // Still triggers but with different suggestion
     });
 
+    it('should NOT trigger for tables created in the same migration', () => {
+      const statements: SQLStatement[] = [
+        {
+          type: 'CREATE_TABLE',
+          content: 'CREATE TABLE users (id INT PRIMARY KEY, email TEXT);',
+          startLine: 1,
+          endLine: 1
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE users ADD CONSTRAINT uk_email UNIQUE (email);',
+          startLine: 2,
+          endLine: 2
+        }
+      ];
+
+      const migration = createMockMigration(statements.map(s => s.content).join('\n'), statements);
+
+      expect(noUniqueConstraintWithoutIndexRule.check(statements[1], migration)).toHaveLength(0);
+    });
+
+    it('should suggest checking for duplicates when an index already exists', () => {
+      const statements: SQLStatement[] = [
+        {
+          type: 'CREATE_INDEX',
+          content: 'CREATE INDEX idx_email ON users (email);',
+          startLine: 1,
+          endLine: 1
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE users ADD CONSTRAINT uk_email UNIQUE (email);',
+          startLine: 2,
+          endLine: 2
+        }
+      ];
+
+      const migration = createMockMigration(statements.map(s => s.content).join('\n'), statements);
+      const [withIndex] = noUniqueConstraintWithoutIndexRule.check(statements[1], migration);
+      const [withoutIndex] = noUniqueConstraintWithoutIndexRule.check(statements[1], createMockMigration(statements[1].content, [statements[1]]));
+
+      expect(withIndex.suggestion).toBe('Check for duplicate data before applying this constraint');
+      expect(withoutIndex.suggestion).toBe('Create index first and check for duplicates before adding unique constraint');
+    });
+
     it('should handle case insensitive statements', () => {
       const statement: SQLStatement = {
         type: 'ALTER_TABLE',
@@ -693,6 +790,56 @@ describe('Schema Safety Rules', () => {
       });
     });
 
+    it('should use configured constraint name prefixes and suffixes', () => {
+      const options = { prefixes: ['REF_'], suffixes: ['_fkey'] };
+      const statements: SQLStatement[] = [
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE "Post" DROP CONSTRAINT "Post_authorId_fkey";',
+          startLine: 1,
+          endLine: 1
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE orders DROP CONSTRAINT ref_orders_customer;',
+          startLine: 2,
+          endLine: 2
+        },
+        {
+          type: 'ALTER_TABLE',
+          content: 'ALTER TABLE orders DROP CONSTRAINT FK_orders_product;',
+          startLine: 3,
+          endLine: 3
+        }
+      ];
+
+      const counts = statements.map(statement => {
+        const migration = createMockMigration(statement.content, [statement]);
+        return noDropForeignKeyConstraintRule.check(statement, migration, { options }).length;
+      });
+
+      expect(counts).toEqual([1, 1, 0]);
+    });
+
+    it('should recognize foreign keys from the replayed schema whatever their name', () => {
+      const statement: SQLStatement = {
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE "Post" DROP CONSTRAINT "Post_authorId_fkey";',
+        startLine: 1,
+        endLine: 1
+      };
+      const currentSchema = SchemaBuilder.replay([createMockMigration('', [{
+        type: 'ALTER_TABLE',
+        content: 'ALTER TABLE "Post" ADD CONSTRAINT "Post_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id");',
+        startLine: 1,
+        endLine: 1
+      }])]);
+
+      const migration = createMockMigration(statement.content, [statement]);
+      expect(noDropForeignKeyConstraintRule.check(statement, migration)).toHaveLength(0);
+      expect(noDropForeignKeyConstraintRule.check(statement, migration, { options: {}, currentSchema })).toHaveLength(1);
+    });
+
     it('should have correct rule metadata', () => {
       expect(noDropForeignKeyConstraintRule.id).toBe('no-drop-foreign-key-constraint');
       expect(noDropForeignKeyConstraintRule.name).toBe('No Drop Foreign Key Constraint');
@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { GitUtils } from '../../utils/git';
 import { execSync } from 'child_process';
 
@@ -71,90 +72,160 @@ describe('GitUtils', () => {
     });
   });
 
-  describe('getChangedMigrationFiles', () => {
-    it('should return changed migration files', () => {
-      // Mock fetch origin (silent)
+  describe('getMigrationChanges', () => {
+    it('should classify added, modified, deleted and renamed migration files', () => {
       mockExecSync.mockReturnValueOnce('');
-      
-      // Mock git diff output
-      const gitOutput = 'prisma/migrations/001_init/migration.sql\nprisma/migrations/002_add_users/migration.sql\nsrc/other-file.ts';
-      mockExecSync.mockReturnValueOnce(gitOutput);
-      
-      const result = GitUtils.getChangedMigrationFiles('prisma/migrations');
-      
-      expect(result).toHaveLength(2);
-      expect(result[0]).toContain('001_init/migration.sql');
-      expect(result[1]).toContain('002_add_users/migration.sql');
+      mockExecSync.mockReturnValueOnce([
+        'A\tprisma/migrations/003_posts/migration.sql',
+        'M\tprisma/migrations/001_init/migration.sql',
+        'D\tprisma/migrations/002_users/migration.sql',
+        'R100\tprisma/migrations/004_tags/migration.sql\tprisma/migrations/005_tags/migration.sql',
+        'R090\tdrafts/006_comments.sql\tprisma/migrations/006_comments/migration.sql',
+        'M\tsrc/other-file.ts'
+      ].join('\n'));
+
+      const result = GitUtils.getMigrationChanges('prisma/migrations');
+
+      expect(mockExecSync).toHaveBeenLastCalledWith(
+        'git diff --name-status -M --diff-filter=ADMR origin/main...HEAD',
+        { encoding: 'utf8' }
+      );
+      expect(result).toEqual([
+        { kind: 'added', filePath: path.resolve('prisma/migrations/003_posts/migration.sql'), migrationId: '003' },
+        { kind: 'modified', filePath: path.resolve('prisma/migrations/001_init/migration.sql'), migrationId: '001' },
+        { kind: 'deleted', filePath: path.resolve('prisma/migrations/002_users/migration.sql'), migrationId: '002' },
+        {
+          kind: 'renamed',
+          filePath: path.resolve('prisma/migrations/005_tags/migration.sql'),
+          migrationId: '005',
+          previousPath: path.resolve('prisma/migrations/004_tags/migration.sql'),
+          previousMigrationId: '004'
+        },
+        { kind: 'added', filePath: path.resolve('prisma/migrations/006_comments/migration.sql'), migrationId: '006' }
+      ]);
     });
 
-    it('should return empty array when no migration files changed', () => {
-      // Mock fetch origin (silent)
+    it('should only diff added files with addedOnly', () => {
       mockExecSync.mockReturnValueOnce('');
-      
-      // Mock git diff output with no migration files
-      const gitOutput = 'src/other-file.ts\nREADME.md';
-      mockExecSync.mockReturnValueOnce(gitOutput);
-      
-      const result = GitUtils.getChangedMigrationFiles('prisma/migrations');
-      
-      expect(result).toHaveLength(0);
+      mockExecSync.mockReturnValueOnce('');
+
+      expect(GitUtils.getMigrationChanges('prisma/migrations', { base: 'origin/develop', addedOnly: true })).toEqual([]);
+      expect(mockExecSync).toHaveBeenLastCalledWith(
+        'git diff --name-status -M --diff-filter=A origin/develop...HEAD',
+        { encoding: 'utf8' }
+      );
     });
+  });
 
-    it('should return empty array when no files changed', () => {
-      // Mock fetch origin (silent)
-      mockExecSync.mockReturnValueOnce('');
-      
-      // Mock git diff output with empty result
-      mockExecSync.mockReturnValueOnce('');
-      
-      const result = GitUtils.getChangedMigrationFiles('prisma/migrations');
-      
-      expect(result).toHaveLength(0);
+  describe('parseAddedLines', () => {
+    it('should return the added line ranges per file', () => {
+      const diff = [
+        'diff --git prisma/migrations/001_init/migration.sql prisma/migrations/001_init/migration.sql',
+        'index 1111111..2222222 100644',
+        '--- prisma/migrations/001_init/migration.sql',
+        '+++ prisma/migrations/001_init/migration.sql',
+        '@@ -2 +2 @@ CREATE TABLE users (',
+        '-  id INT',
+        '+  id BIGINT',
+        '@@ -5,0 +6,3 @@',
+        '+--- Not a file header',
+        '+++ Nor is this',
+        '+CREATE INDEX users_id ON users (id);',
+        '@@ -9,2 +11,0 @@',
+        '-DROP TABLE a;',
+        '-DROP TABLE b;',
+        'diff --git prisma/migrations/002_users/migration.sql prisma/migrations/002_users/migration.sql',
+        'deleted file mode 100644',
+        '--- prisma/migrations/002_users/migration.sql',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-DROP TABLE users;',
+        ''
+      ].join('\n');
+
+      const result = GitUtils.parseAddedLines(diff);
+
+      expect([...result]).toEqual([
+        [path.resolve('prisma/migrations/001_init/migration.sql'), [{ start: 2, end: 2 }, { start: 6, end: 8 }]]
+      ]);
     });
+  });
 
-    it('should use correct git command with options', () => {
-      // Mock fetch origin (silent)
-      mockExecSync.mockReturnValueOnce('');
-      
-      // Mock git diff output
-      mockExecSync.mockReturnValueOnce('');
-      
-      GitUtils.getChangedMigrationFiles('prisma/migrations', {
-        base: 'origin/develop',
-        addedOnly: true
-      });
-      
+  describe('getAddedLines', () => {
+    it('should diff against the merge base without context lines', () => {
+      mockExecSync.mockReturnValue('');
+
+      expect(GitUtils.getAddedLines('./prisma/migrations', { base: 'origin/develop' })).toEqual(new Map());
       expect(mockExecSync).toHaveBeenCalledWith(
-        'git diff --diff-filter=A --name-only origin/develop...HEAD',
+        `git diff -U0 --no-color --no-prefix -M origin/develop...HEAD -- ${path.normalize('prisma/migrations')}`,
         { encoding: 'utf8' }
       );
     });
+  });
 
-    it('should throw error when git command fails', () => {
-      // Mock fetch origin (silent)
-      mockExecSync.mockReturnValueOnce('');
-      
-      // Mock git diff failure
-      mockExecSync.mockImplementation(() => {
-        throw new Error('Git command failed');
-      });
-      
-      expect(() => GitUtils.getChangedMigrationFiles('prisma/migrations')).toThrow(
-        'Failed to get changed migration files'
+  describe('getStagedMigrationChanges', () => {
+    it('should classify staged files against the merge base with the base branch', () => {
+      mockExecSync
+        .mockReturnValueOnce('prisma/migrations/002_users/migration.sql\nsrc/app.ts\n')
+        .mockReturnValueOnce('')
+        .mockReturnValueOnce('abc123\n')
+        .mockReturnValueOnce('A\tprisma/migrations/001_init/migration.sql\nA\tprisma/migrations/002_users/migration.sql');
+
+      const result = GitUtils.getStagedMigrationChanges('prisma/migrations');
+
+      expect(mockExecSync).toHaveBeenLastCalledWith(
+        'git diff --name-status -M --cached --diff-filter=ADMR abc123',
+        { encoding: 'utf8' }
       );
+      // 001_init was committed on this branch before, and is not staged
+      expect(result).toEqual([
+        { kind: 'added', filePath: path.resolve('prisma/migrations/002_users/migration.sql'), migrationId: '002' }
+      ]);
+    });
+
+    it('should compare to HEAD when the base branch does not exist', () => {
+      mockExecSync
+        .mockReturnValueOnce('prisma/migrations/001_init/migration.sql\n')
+        .mockImplementationOnce(() => {
+          throw new Error('Branch not found');
+        })
+        .mockReturnValueOnce('M\tprisma/migrations/001_init/migration.sql');
+
+      const result = GitUtils.getStagedMigrationChanges('prisma/migrations');
+
+      expect(mockExecSync).toHaveBeenLastCalledWith(
+        'git diff --name-status -M --cached --diff-filter=ADMR HEAD',
+        { encoding: 'utf8' }
+      );
+      expect(result).toEqual([
+        { kind: 'modified', filePath: path.resolve('prisma/migrations/001_init/migration.sql'), migrationId: '001' }
+      ]);
     });
   });
 
-  describe('getChangedMigrationFilesSinceCommit', () => {
-    it('should return changed migration files since commit', () => {
-      const gitOutput = 'prisma/migrations/001_init/migration.sql\nprisma/migrations/002_add_users/migration.sql';
-      mockExecSync.mockReturnValue(gitOutput);
-      
-      const result = GitUtils.getChangedMigrationFilesSinceCommit('prisma/migrations', 'abc123');
-      
-      expect(result).toHaveLength(2);
+  describe('readStagedFile', () => {
+    it('should read the file from the index', () => {
+      mockExecSync.mockReturnValue('CREATE TABLE users (id INT);\n');
+
+      const result = GitUtils.readStagedFile(path.resolve('prisma/migrations/001_init/migration.sql'));
+
+      expect(result).toBe('CREATE TABLE users (id INT);\n');
+      expect(mockExecSync).toHaveBeenCalledWith(
+        `git show ":./${path.join('prisma', 'migrations', '001_init', 'migration.sql')}"`,
+        { encoding: 'utf8' }
+      );
+    });
+  });
+
+  describe('getMigrationIdsAt', () => {
+    it('should list the migration IDs at a ref', () => {
+      mockExecSync.mockReturnValue('prisma/migrations/20240101000000_init\nprisma/migrations/20240102000000_add_users\n');
+
+      const result = GitUtils.getMigrationIdsAt('./prisma/migrations/', 'origin/main');
+
+      expect(result).toEqual(['20240101000000', '20240102000000']);
       expect(mockExecSync).toHaveBeenCalledWith(
-        'git diff --diff-filter=AM --name-only abc123...HEAD',
+        'git ls-tree -d --name-only origin/main prisma/migrations/',
         { encoding: 'utf8' }
       );
     });
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HookInstaller } from '../../utils/hooks';
+import { GitUtils } from '../../utils/git';
+
+jest.mock('../../utils/git');
+const mockGitUtils = jest.mocked(GitUtils);
+
+describe('HookInstaller', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hooks-'));
+    mockGitUtils.getHooksPath.mockReturnValue(path.join(tempDir, '.git', 'hooks'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create an executable git pre-commit hook', () => {
+    const result = HookInstaller.install({ cwd: tempDir, config: '.strong-migrations.js' });
+
+    const filePath = path.join(tempDir, '.git', 'hooks', 'pre-commit');
+    expect(result).toEqual({ manager: 'git', filePath, changed: true });
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('#!/bin/sh\nnpx prisma-strong-migrations lint --staged --config .strong-migrations.js\n');
+    expect(fs.statSync(filePath).mode & 0o111).toBeTruthy();
+  });
+
+  it('should append to an existing husky hook once', () => {
+    fs.mkdirSync(path.join(tempDir, '.husky'));
+    fs.writeFileSync(path.join(tempDir, '.husky', 'pre-commit'), 'npx lint-staged');
+
+    expect(HookInstaller.install({ cwd: tempDir }).changed).toBe(true);
+    expect(HookInstaller.install({ cwd: tempDir })).toEqual({
+      manager: 'husky',
+      filePath: path.join(tempDir, '.husky', 'pre-commit'),
+      changed: false
+    });
+    expect(fs.readFileSync(path.join(tempDir, '.husky', 'pre-commit'), 'utf-8')).toBe('npx lint-staged\nnpx prisma-strong-migrations lint --staged\n');
+  });
+
+  it('should insert the command before a hook that ends with exit or exec', () => {
+    const filePath = path.join(tempDir, '.git', 'hooks', 'pre-commit');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '#!/bin/sh\nnpm test\nexec npx lint-staged\n\n');
+
+    HookInstaller.install({ cwd: tempDir, manager: 'git' });
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('#!/bin/sh\nnpm test\nnpx prisma-strong-migrations lint --staged\nexec npx lint-staged\n');
+  });
+
+  it('should add a command to the lefthook configuration, keeping the others', () => {
+    const filePath = path.join(tempDir, 'lefthook.yml');
+    fs.writeFileSync(filePath, 'pre-commit:\n  commands:\n    # Formatting\n    prettier:\n      run: npx prettier --check {staged_files}\n');
+
+    const result = HookInstaller.install({ cwd: tempDir });
+
+    expect(result).toEqual({ manager: 'lefthook', filePath, changed: true });
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe([
+      'pre-commit:',
+      '  commands:',
+      '    # Formatting',
+      '    prettier:',
+      '      run: npx prettier --check {staged_files}',
+      '    prisma-strong-migrations:',
+      '      run: npx prisma-strong-migrations lint --staged',
+      ''
+    ].join('\n'));
+  });
+});
@@ -6,9 +6,17 @@ import { ReporterFactory } from './reporters';
 import { ConfigManager } from './core/config';
 import { OutputFormat } from './types';
 import { GitUtils } from './utils/git';
+import { HOOK_MANAGERS, HookInstaller, HookManager } from './utils/hooks';
 
 const program = new Command();
 
+/** Configuration problems that do not stop the run, on stderr to keep reports parseable */
+function reportConfigWarnings(linter: PrismaStrongMigrationsLinter): void {
+  for (const warning of linter.getConfig().getWarnings()) {
+    console.warn(`Warning: ${warning}`);
+  }
+}
+
 program
   .name('prisma-strong-migrations')
   .description('A linter for Prisma migrations to ensure safe SQL deployments')
@@ -23,17 +31,43 @@ program
   .option('--since <id>', 'lint migrations since the specified migration ID')
   .option('--file <path>', 'lint a specific migration file')
   .option('--changed', 'lint only changed migration files (compared to base branch)')
+  .option('--staged', 'lint the staged version of changed migration files, for pre-commit hooks')
   .option('--base <branch>', 'base branch to compare against for changed files', 'origin/main')
   .option('--since-commit <sha>', 'lint changed migration files since specific commit')
   .option('--added-only', 'include only added files when using --changed')
   .option('--modified-only', 'include only modified files when using --changed')
+  .option('--only-new-lines', 'with --changed, lint modified migrations as unapplied and report only violations on lines added compared to the base branch')
+  .option('--update-baseline', 'record all current violations in the baseline file')
+  .option('--strict-parse', 'fail when any statement cannot be parsed')
+  .option('--debug', 'show stack traces of rules that crash')
+  .option('--timing', 'report the time spent per rule and migration')
+  .option('--verify-lock', 'fail when a migration recorded in the lock file changed or was removed')
   .action(async (options) => {
+    // The other modes win over --changed, and have no base branch to compare lines against
+    if (options.onlyNewLines && (!options.changed || options.file || options.staged || options.sinceCommit)) {
+      console.error('Error: --only-new-lines can only be used with --changed.');
+      process.exit(1);
+    }
+
     try {
-      const linter = new PrismaStrongMigrationsLinter(options.config);
+      const linter = new PrismaStrongMigrationsLinter(options.config, {
+        strictParse: options.strictParse,
+        timing: options.timing,
+        verifyLock: options.verifyLock
+      });
+      reportConfigWarnings(linter);
+
+      if (options.updateBaseline) {
+        const { filePath, entryCount } = await linter.updateBaseline();
+        console.log(`Wrote ${entryCount} baseline entr${entryCount !== 1 ? 'ies' : 'y'} to ${filePath}`);
+        return;
+      }
       
       let result;
       if (options.file) {
         result = await linter.lintFile(options.file);
+      } else if (options.staged) {
+        result = await linter.lintStagedMigrations({ base: options.base });
       } else if (options.sinceCommit) {
         result = await linter.lintChangedMigrationsSinceCommit(options.sinceCommit);
       } else if (options.changed) {
@@ -54,7 +88,7 @@ program
           base: baseBranch,
           addedOnly: options.addedOnly,
           modifiedOnly: options.modifiedOnly,
-          includeAll: !options.addedOnly && !options.modifiedOnly
+          onlyNewLines: options.onlyNewLines
         };
 
         result = await linter.lintChangedMigrations(gitOptions);
@@ -76,7 +110,7 @@ program
       }
       
       const format = options.format as OutputFormat;
-      const reporter = ReporterFactory.create(format);
+      const reporter = ReporterFactory.create(format, { debug: options.debug });
       const output = reporter.format(result);
       
       console.log(output);
@@ -86,6 +120,67 @@ program
       }
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
+      if (options.debug && error instanceof Error && error.stack) {
+        console.error(error.stack);
+      }
+      process.exit(1);
+    }
+  });
+
+const lock = program
+  .command('lock')
+  .description('Manage the checksum file of applied migrations');
+
+lock
+  .command('update')
+  .description('Record checksums of migrations that are not in the lock file yet')
+  .option('-c, --config <path>', 'path to configuration file')
+  .option('--force', 're-record changed migrations and drop removed ones')
+  .action(async (options) => {
+    try {
+      const linter = new PrismaStrongMigrationsLinter(options.config);
+      reportConfigWarnings(linter);
+
+      const { filePath, added, changed, missing } = await linter.updateLock({ force: options.force });
+      console.log(`Added ${added.length} entr${added.length !== 1 ? 'ies' : 'y'} to ${filePath}`);
+
+      if (options.force) {
+        for (const migration of changed) {
+          console.log(`Re-recorded changed migration ${migration}`);
+        }
+        for (const migration of missing) {
+          console.log(`Removed missing migration ${migration}`);
+        }
+      } else if (changed.length + missing.length > 0) {
+        console.warn(`Warning: kept the recorded entries of changed or removed migrations: ${[...changed, ...missing].join(', ')}`);
+        console.warn('Use --force to accept them, only if they were never applied');
+      }
+    } catch (error) {
+      console.error('Error updating lock file:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('install-hook')
+  .description('Install a pre-commit hook that lints staged migrations')
+  .option('-c, --config <path>', 'configuration file for the hook to use')
+  .option('--manager <name>', `where to install the hook (${HOOK_MANAGERS.join(', ')}; default: detected)`)
+  .action((options) => {
+    try {
+      if (options.manager !== undefined && !HOOK_MANAGERS.includes(options.manager)) {
+        throw new Error(`Unknown hook manager ${options.manager}, expected one of: ${HOOK_MANAGERS.join(', ')}`);
+      }
+
+      const { manager, filePath, changed } = HookInstaller.install({
+        manager: options.manager as HookManager | undefined,
+        config: options.config
+      });
+      console.log(changed
+        ? `Installed the ${manager} pre-commit hook in ${filePath}`
+        : `The ${manager} pre-commit hook in ${filePath} already runs the linter`);
+    } catch (error) {
+      console.error('Error installing hook:', error instanceof Error ? error.message : error);
       process.exit(1);
     }
   });
@@ -124,6 +219,7 @@ program
   .action(async (options) => {
     try {
       const linter = new PrismaStrongMigrationsLinter(options.config);
+      reportConfigWarnings(linter);
       const rules = linter.getAllRules();
       
       console.log('Available rules:\n');
@@ -152,10 +248,12 @@ program
   .action(async (options) => {
     try {
       const linter = new PrismaStrongMigrationsLinter(options.config);
+      reportConfigWarnings(linter);
       const config = linter.getConfig().getConfig();
       
       console.log('Configuration:');
       console.log(`  Migrations path: ${config.migrationsPath}`);
+      console.log(`  Dialect: ${config.dialect}`);
       console.log(`  Fail on error: ${config.failOnError}`);
       console.log(`  Fail on warning: ${config.failOnWarning}`);
       console.log(`  Output format: ${config.output}`);
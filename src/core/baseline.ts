@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { FileResult, LintResult, RuleCategory, Severity, SuppressionKind, Violation } from '../types';
+import { createFileResult, createLintResult } from './lint-result';
+import { INTERNAL_ERROR, STALE_BASELINE_ENTRY } from './diagnostics';
+
+export const DEFAULT_BASELINE_FILE = '.prisma-strong-migrations-baseline.json';
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  migrationId: string;
+  /** Number of identical findings recorded for this fingerprint */
+  count: number;
+}
+
+interface BaselineFile {
+  version: number;
+  entries: BaselineEntry[];
+}
+
+/**
+ * Normalize statement text so that fingerprints survive formatting changes
+ * and line shifts: comments are dropped, whitespace and case are collapsed.
+ */
+export function normalizeStatement(content: string): string {
+  return content
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/;$/, '')
+    .trim()
+    .toLowerCase();
+}
+
+export function createFingerprint(ruleId: string, migrationId: string, statementContent: string): string {
+  return createHash('sha256')
+    .update(`${ruleId}\0${migrationId}\0${normalizeStatement(statementContent)}`)
+    .digest('hex');
+}
+
+export class Baseline {
+  constructor(private entries: BaselineEntry[] = []) {}
+
+  static load(filePath: string): Baseline | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BaselineFile;
+      if (file.version !== BASELINE_VERSION || !Array.isArray(file.entries)) {
+        throw new Error(`unsupported baseline version ${file.version}`);
+      }
+      return new Baseline(file.entries);
+    } catch (error) {
+      throw new Error(`Failed to load baseline ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  static fromViolations(violations: Violation[]): Baseline {
+    const entries = new Map<string, BaselineEntry>();
+
+    // Crashed rules are bugs to fix, never findings to accept
+    for (const violation of violations.filter(v => v.ruleId !== INTERNAL_ERROR)) {
+      const fingerprint = Baseline.fingerprintOf(violation);
+      const entry = entries.get(fingerprint);
+      if (entry) {
+        entry.count++;
+      } else {
+        entries.set(fingerprint, {
+          fingerprint,
+          ruleId: violation.ruleId,
+          migrationId: violation.migrationId ?? '',
+          count: 1
+        });
+      }
+    }
+
+    return new Baseline([...entries.values()].sort((a, b) =>
+      a.migrationId.localeCompare(b.migrationId) || a.ruleId.localeCompare(b.ruleId) || a.fingerprint.localeCompare(b.fingerprint)
+    ));
+  }
+
+  private static fingerprintOf(violation: Violation): string {
+    return violation.fingerprint ?? createFingerprint(violation.ruleId, violation.migrationId ?? '', violation.message);
+  }
+
+  getEntries(): BaselineEntry[] {
+    return [...this.entries];
+  }
+
+  save(filePath: string): void {
+    const file: BaselineFile = { version: BASELINE_VERSION, entries: this.entries };
+    fs.writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  /**
+   * Move findings recorded in the baseline out of the reported violations.
+   * With `detectStale`, baseline entries that matched nothing are reported as
+   * `stale-baseline-entry` warnings against the baseline file.
+   */
+  apply(result: LintResult, filePath: string, options: { detectStale?: boolean } = {}): LintResult {
+    if (!result.results) {
+      return result;
+    }
+
+    const remaining = new Map(this.entries.map(entry => [entry.fingerprint, entry.count]));
+
+    const fileResults: FileResult[] = result.results.map(fileResult => {
+      const violations = fileResult.violations.map(violation => {
+        const fingerprint = Baseline.fingerprintOf(violation);
+        const count = remaining.get(fingerprint) ?? 0;
+        if (count === 0) {
+          return violation;
+        }
+
+        remaining.set(fingerprint, count - 1);
+        return {
+          ...violation,
+          suppression: {
+            kind: SuppressionKind.BASELINE,
+            justification: `Recorded in ${filePath}`,
+            line: violation.line
+          }
+        };
+      });
+
+      return createFileResult(
+        { filename: fileResult.filePath, id: fileResult.migrationId },
+        [...violations, ...fileResult.suppressed, ...fileResult.acknowledged, ...fileResult.baselined]
+      );
+    });
+
+    if (options.detectStale) {
+      const stale = this.entries.filter(entry => remaining.get(entry.fingerprint) === entry.count);
+      if (stale.length > 0) {
+        fileResults.push(createFileResult({ filename: filePath, id: '' }, stale.map(entry => this.createStaleViolation(entry, filePath))));
+      }
+    }
+
+    return createLintResult(fileResults, result.totalFiles, result.parsing);
+  }
+
+  private createStaleViolation(entry: BaselineEntry, filePath: string): Violation {
+    return {
+      ruleId: STALE_BASELINE_ENTRY,
+      ruleName: 'Stale Baseline Entry',
+      severity: Severity.WARNING,
+      message: `Baseline entry for ${entry.ruleId} in migration ${entry.migrationId} no longer matches any violation`,
+      line: 1,
+      filePath,
+      migrationId: entry.migrationId,
+      fingerprint: entry.fingerprint,
+      suggestion: 'Run lint --update-baseline to remove entries that were fixed',
+      category: RuleCategory.DIAGNOSTICS
+    };
+  }
+}
@@ -0,0 +1,304 @@
+import type { DialectName } from 'sql-parser-cst';
+import { OutputFormat, Rule, RuleOptionSchema, Severity } from '../types';
+
+export const DIALECTS: DialectName[] = ['postgresql', 'mysql', 'mariadb', 'sqlite', 'bigquery'];
+
+const SEVERITIES: string[] = Object.values(Severity);
+const RULE_SETTINGS = ['enabled', 'severity', 'options'];
+const OVERRIDE_SETTINGS = ['files', 'rules'];
+
+interface SettingSchema {
+  type: 'string' | 'boolean' | 'number' | 'string[]' | 'string | string[]';
+  description: string;
+  enum?: string[];
+}
+
+/** Top-level settings, except `rules` and `overrides`, which have their own checks */
+const SETTINGS: Record<string, SettingSchema> = {
+  $schema: { type: 'string', description: 'JSON Schema of this file, for editor completion' },
+  extends: {
+    type: 'string | string[]',
+    description: 'Presets (`prisma-strong-migrations:recommended`), packages or paths to configuration files'
+  },
+  migrationsPath: { type: 'string', description: 'Directory containing the Prisma migrations' },
+  dialect: { type: 'string', enum: DIALECTS, description: 'SQL dialect the migrations are written in' },
+  include: { type: 'string[]', description: 'Glob patterns of migration files to lint, relative to migrationsPath' },
+  exclude: { type: 'string[]', description: 'Skip migration files whose path contains any of these strings' },
+  failOnError: { type: 'boolean', description: 'Exit with a failure when errors are reported' },
+  failOnWarning: { type: 'boolean', description: 'Exit with a failure when warnings are reported' },
+  reportUnusedDirectives: { type: 'boolean', description: 'Report suppression directives that suppress nothing' },
+  parseErrors: {
+    type: 'string',
+    enum: [...SEVERITIES, 'off'],
+    description: 'Severity of parse-error diagnostics for statements the parser could not read'
+  },
+  strictParse: { type: 'boolean', description: 'Fail the run when any statement could not be parsed' },
+  failOnInternalError: { type: 'boolean', description: 'Fail the run when any rule crashes or times out' },
+  baseline: { type: 'string', description: 'Baseline file of accepted violations' },
+  lockFile: { type: 'string', description: 'Checksum file of applied migrations, checked by lint --verify-lock' },
+  output: { type: 'string', enum: Object.values(OutputFormat), description: 'Output format' },
+  ignoreBefore: { type: 'string', description: 'Skip rule checks for migrations whose ID sorts before this one' },
+  plugins: { type: 'string[]', description: 'Plugin packages or files whose rules are added under their namespace' },
+  rulesDir: { type: 'string', description: 'Directory of rule files, one rule per .js file' },
+  ruleTimeout: { type: 'number', description: 'Milliseconds an asynchronous rule may take for one check before it is abandoned' }
+};
+
+export interface ConfigValidationResult {
+  errors: string[];
+  /** Problems that do not stop the run, such as rule IDs no loaded rule has */
+  warnings: string[];
+}
+
+/**
+ * Check a merged configuration against the settings schema. Rule options are
+ * checked separately against each rule's option schema.
+ */
+export function validateConfig(config: Record<string, unknown>, rules: Rule[]): ConfigValidationResult {
+  const result: ConfigValidationResult = { errors: [], warnings: [] };
+  const ruleIds = rules.map(rule => rule.id);
+
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (key === 'rules') {
+      validateRules('rules', value, ruleIds, result);
+    } else if (key === 'overrides') {
+      validateOverrides(value, ruleIds, result);
+    } else if (hasOwn(SETTINGS, key)) {
+      const error = validateSetting(SETTINGS[key], value);
+      if (error) {
+        result.errors.push(`${key} ${error}`);
+      }
+    } else {
+      result.errors.push(`${key} is not a known setting${didYouMean(key, [...Object.keys(SETTINGS), 'rules', 'overrides'])}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * JSON Schema of configuration files, for editor completion in
+ * `.prisma-strong-migrationsrc.json` and `.yaml` files.
+ */
+export function createConfigSchema(rules: Rule[]): Record<string, unknown> {
+  const ruleConfig = {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      severity: { enum: SEVERITIES },
+      options: { type: 'object' }
+    },
+    additionalProperties: false
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'prisma-strong-migrations configuration',
+    type: 'object',
+    definitions: {
+      ruleConfig,
+      rules: {
+        type: 'object',
+        properties: Object.fromEntries(rules.map(rule => [rule.id, ruleSchema(rule)])),
+        additionalProperties: { $ref: '#/definitions/ruleConfig' }
+      }
+    },
+    properties: {
+      ...Object.fromEntries(Object.entries(SETTINGS).map(([key, setting]) => [key, settingSchema(setting)])),
+      rules: { $ref: '#/definitions/rules' },
+      overrides: {
+        type: 'array',
+        description: 'Rule settings for the migrations matching `files`, applied in order over `rules`',
+        items: {
+          type: 'object',
+          properties: {
+            files: settingSchema({ type: 'string | string[]', description: 'Glob patterns, relative to migrationsPath' }),
+            rules: { $ref: '#/definitions/rules' }
+          },
+          required: OVERRIDE_SETTINGS,
+          additionalProperties: false
+        }
+      }
+    },
+    additionalProperties: false
+  };
+}
+
+function validateRules(path: string, value: unknown, ruleIds: string[], result: ConfigValidationResult): void {
+  if (!isObject(value)) {
+    result.errors.push(`${path} must be an object of rule settings`);
+    return;
+  }
+
+  for (const [ruleId, ruleConfig] of Object.entries(value)) {
+    if (!ruleIds.includes(ruleId)) {
+      result.warnings.push(`${path}.${ruleId} is not a known rule${didYouMean(ruleId, ruleIds)}`);
+    }
+
+    if (!isObject(ruleConfig)) {
+      result.errors.push(`${path}.${ruleId} must be an object such as { enabled: true, severity: 'error' }`);
+      continue;
+    }
+
+    for (const [key, setting] of Object.entries(ruleConfig)) {
+      if (key === 'enabled' && typeof setting !== 'boolean') {
+        result.errors.push(`${path}.${ruleId}.enabled must be a boolean`);
+      } else if (key === 'severity') {
+        const error = validateSetting({ type: 'string', enum: SEVERITIES, description: '' }, setting);
+        if (error) {
+          result.errors.push(`${path}.${ruleId}.severity ${error}`);
+        }
+      } else if (!RULE_SETTINGS.includes(key)) {
+        result.errors.push(`${path}.${ruleId}.${key} is not a known rule setting${didYouMean(key, RULE_SETTINGS)}`);
+      }
+    }
+  }
+}
+
+function validateOverrides(value: unknown, ruleIds: string[], result: ConfigValidationResult): void {
+  if (!Array.isArray(value)) {
+    result.errors.push('overrides must be an array');
+    return;
+  }
+
+  value.forEach((override: unknown, index) => {
+    const path = `overrides[${index}]`;
+    if (!isObject(override)) {
+      result.errors.push(`${path} must be an object with files and rules`);
+      return;
+    }
+
+    const filesError = validateSetting({ type: 'string | string[]', description: '' }, override.files);
+    if (filesError) {
+      result.errors.push(`${path}.files ${filesError}`);
+    }
+    validateRules(`${path}.rules`, override.rules, ruleIds, result);
+
+    for (const key of Object.keys(override).filter(key => !OVERRIDE_SETTINGS.includes(key))) {
+      result.errors.push(`${path}.${key} is not a known override setting${didYouMean(key, OVERRIDE_SETTINGS)}`);
+    }
+  });
+}
+
+function validateSetting(setting: SettingSchema, value: unknown): string | undefined {
+  const isString = typeof value === 'string';
+  const isStringArray = Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  switch (setting.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be a boolean';
+    case 'number':
+      return typeof value === 'number' && value > 0 ? undefined : 'must be a positive number';
+    case 'string[]':
+      return isStringArray ? undefined : 'must be an array of strings';
+    case 'string | string[]':
+      return isString || isStringArray ? undefined : 'must be a string or an array of strings';
+    case 'string':
+      if (!isString) {
+        return 'must be a string';
+      }
+      if (setting.enum && !setting.enum.includes(value)) {
+        return `must be one of: ${setting.enum.join(', ')}, got "${value}"${didYouMean(value, setting.enum)}`;
+      }
+      return undefined;
+  }
+}
+
+function ruleSchema(rule: Rule): Record<string, unknown> {
+  const options = Object.entries(rule.optionsSchema ?? {});
+
+  return {
+    type: 'object',
+    description: rule.description,
+    properties: {
+      enabled: { type: 'boolean' },
+      severity: { enum: SEVERITIES, default: rule.severity },
+      ...(options.length > 0 && {
+        options: {
+          type: 'object',
+          properties: Object.fromEntries(options.map(([name, option]) => [name, optionSchema(option)])),
+          additionalProperties: false
+        }
+      })
+    },
+    additionalProperties: false
+  };
+}
+
+function optionSchema(option: RuleOptionSchema): Record<string, unknown> {
+  const schema: Record<string, unknown> = { description: option.description };
+  const format = option.format && { format: option.format };
+
+  switch (option.type) {
+    case 'string[]':
+      Object.assign(schema, { type: 'array', items: { type: 'string', ...format } });
+      break;
+    default:
+      Object.assign(schema, { type: option.type, ...format });
+  }
+
+  if (option.minimum !== undefined) {
+    schema.minimum = option.minimum;
+  }
+  if (option.default !== undefined) {
+    schema.default = option.default;
+  }
+  return schema;
+}
+
+function settingSchema(setting: SettingSchema): Record<string, unknown> {
+  const stringArray = { type: 'array', items: { type: 'string' } };
+  const types: Record<SettingSchema['type'], Record<string, unknown>> = {
+    'string': setting.enum ? { enum: setting.enum } : { type: 'string' },
+    'boolean': { type: 'boolean' },
+    'number': { type: 'number', exclusiveMinimum: 0 },
+    'string[]': stringArray,
+    'string | string[]': { anyOf: [{ type: 'string' }, stringArray] }
+  };
+
+  return { description: setting.description, ...types[setting.type] };
+}
+
+/** ` (did you mean "x"?)` for the candidate closest to a misspelled value, if any is close */
+function didYouMean(value: string, candidates: string[]): string {
+  const maxDistance = Math.max(3, Math.floor(value.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best ? ` (did you mean "${best.candidate}"?)` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
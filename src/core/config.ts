@@ -1,18 +1,61 @@
+import * as path from 'path';
 import { cosmiconfigSync } from 'cosmiconfig';
-import { Config, RuleConfig, Severity, OutputFormat } from '../types';
+import { Config, Rule, RuleConfig, Severity, OutputFormat, UserConfig } from '../types';
 import { getBuiltInRules } from '../rules';
+import { DEFAULT_BASELINE_FILE } from './baseline';
+import { validateRuleOptions } from './rule-options';
+import { validateConfig } from './config-schema';
+import { detectPrismaProject, dialectForProvider } from './prisma-project';
+import { loadPlugin, loadRulesDir } from './plugins';
+import { getPreset, getPresetNames, PRESET_PREFIX } from './presets';
+
+type Explorer = ReturnType<typeof cosmiconfigSync>;
 
 const DEFAULT_CONFIG: Config = {
   migrationsPath: './prisma/migrations',
   rules: {},
   failOnError: true,
   failOnWarning: false,
+  reportUnusedDirectives: true,
+  parseErrors: Severity.INFO,
+  strictParse: false,
+  failOnInternalError: false,
+  baseline: DEFAULT_BASELINE_FILE,
   output: OutputFormat.TEXT,
   dialect: 'postgresql',
 };
 
+/**
+ * Merge two configurations: settings of `override` replace those of `base`,
+ * except rules, which are merged per rule, and overrides, which accumulate.
+ */
+export function mergeConfigs(base: UserConfig, override: UserConfig): UserConfig {
+  const rules = { ...base.rules };
+
+  for (const [ruleId, ruleConfig] of Object.entries(override.rules ?? {})) {
+    rules[ruleId] = mergeRuleConfig(rules[ruleId], ruleConfig);
+  }
+
+  const overrides = base.overrides && override.overrides
+    ? [...base.overrides, ...override.overrides]
+    : override.overrides ?? base.overrides;
+
+  return { ...base, ...override, rules, ...(overrides && { overrides }) };
+}
+
+/** Settings of `override` over those of `base`, with options merged per option */
+export function mergeRuleConfig<T extends Partial<RuleConfig>>(base: T | undefined, override: Partial<RuleConfig>): T {
+  const options = base?.options && override.options
+    ? { ...base.options, ...override.options }
+    : override.options ?? base?.options;
+
+  return { ...base, ...override, ...(options && { options }) } as T;
+}
+
 export class ConfigManager {
   private config: Config;
+  private warnings: string[] = [];
+  private pluginRules: Rule[] = [];
 
   constructor(configPath?: string) {
     this.config = this.loadConfig(configPath);
@@ -29,31 +72,161 @@ export class ConfigManager {
         result = explorer.search();
       }
 
-      const userConfig = result?.config || {};
-      return this.mergeWithDefaults(userConfig);
+      const filepath = result?.filepath;
+      const baseDir = filepath ? path.dirname(filepath) : process.cwd();
+      const userConfig = this.detectProjectSettings(
+        this.resolveExtends(explorer, result?.config || {}, baseDir, filepath ? [filepath] : [])
+      );
+      this.pluginRules = this.loadPluginRules(userConfig, baseDir);
+      const config = this.mergeWithDefaults(userConfig);
+      this.validateConfig(config);
+      this.validateRuleOptions(config);
+      return config;
     } catch (error) {
       throw new Error(`Failed to load configuration: ${error}`);
     }
   }
 
-  private mergeWithDefaults(userConfig: Partial<Config>): Config {
-    const config: Config = {
-      ...DEFAULT_CONFIG,
-      ...userConfig,
-      rules: {
-        ...this.getDefaultRuleConfig(),
-        ...userConfig.rules
+  /**
+   * Merge the configurations a config extends, in order, and the config itself
+   * on top. `chain` holds the files being loaded, to report circular extends.
+   */
+  private resolveExtends(explorer: Explorer, config: UserConfig, baseDir: string, chain: string[]): UserConfig {
+    const { extends: parents, ...own } = config;
+    let resolved: UserConfig = {};
+
+    for (const parent of [parents ?? []].flat()) {
+      resolved = mergeConfigs(resolved, this.loadExtendedConfig(explorer, parent, baseDir, chain));
+    }
+
+    return mergeConfigs(resolved, own);
+  }
+
+  /**
+   * Load one `extends` entry: a built-in preset, a path relative to the
+   * extending config file, or a package that exports a configuration.
+   */
+  private loadExtendedConfig(explorer: Explorer, name: string, baseDir: string, chain: string[]): UserConfig {
+    if (typeof name !== 'string') {
+      throw new Error('extends must be a string or an array of strings');
+    }
+
+    if (name.startsWith(PRESET_PREFIX)) {
+      const preset = getPreset(name);
+      if (!preset) {
+        throw new Error(`Unknown preset "${name}" (expected one of: ${getPresetNames().join(', ')})`);
       }
-    };
+      return this.resolveExtends(explorer, preset, baseDir, chain);
+    }
 
-    return config;
+    let filepath: string;
+    try {
+      filepath = name.startsWith('.') || path.isAbsolute(name)
+        ? path.resolve(baseDir, name)
+        : require.resolve(name, { paths: [baseDir] });
+    } catch {
+      throw new Error(`Cannot find configuration "${name}" to extend`);
+    }
+
+    if (chain.includes(filepath)) {
+      throw new Error(`Circular extends: ${[...chain, filepath].join(' -> ')}`);
+    }
+
+    const result = explorer.load(filepath);
+    return this.resolveExtends(explorer, result?.config ?? {}, path.dirname(filepath), [...chain, filepath]);
+  }
+
+  /**
+   * Take the migrations path and dialect the configuration leaves out from the
+   * Prisma project: the schema location in package.json or Prisma's defaults,
+   * and the provider in migration_lock.toml, or else in the schema datasource.
+   */
+  private detectProjectSettings(config: UserConfig): UserConfig {
+    const project = detectPrismaProject(process.cwd(), config.migrationsPath);
+    const detected: UserConfig = {};
+
+    if (project.migrationsPath) {
+      detected.migrationsPath = project.migrationsPath;
+    }
+
+    if (project.lockProvider && project.schemaProvider && project.lockProvider !== project.schemaProvider) {
+      this.warnings.push(
+        `${project.schemaPath} uses provider "${project.schemaProvider}", but ${project.lockPath} records "${project.lockProvider}"`
+      );
+    }
+
+    const provider = project.lockProvider ?? project.schemaProvider;
+    const dialect = provider && dialectForProvider(provider);
+    if (dialect) {
+      detected.dialect = dialect;
+    } else if (provider && !config.dialect) {
+      this.warnings.push(`Prisma provider "${provider}" has no matching SQL dialect, statements are parsed as ${DEFAULT_CONFIG.dialect}`);
+    }
+
+    const lockDialect = project.lockProvider && dialectForProvider(project.lockProvider);
+    if (config.dialect && lockDialect && config.dialect !== lockDialect) {
+      this.warnings.push(
+        `dialect "${config.dialect}" is configured, but ${project.lockPath} records provider "${project.lockProvider}" (dialect "${lockDialect}")`
+      );
+    }
+
+    return { ...detected, ...config };
+  }
+
+  /**
+   * Rules from `plugins` and `rulesDir`, resolved from the directory of the
+   * configuration file. Invalid settings are left to validation to report.
+   */
+  private loadPluginRules(config: UserConfig, baseDir: string): Rule[] {
+    const rules = [
+      ...(Array.isArray(config.plugins) ? config.plugins.flatMap(plugin => loadPlugin(plugin, baseDir)) : []),
+      ...(typeof config.rulesDir === 'string' ? loadRulesDir(config.rulesDir, baseDir) : [])
+    ];
+
+    const ruleIds = new Set(getBuiltInRules().map(rule => rule.id));
+    for (const rule of rules) {
+      if (ruleIds.has(rule.id)) {
+        throw new Error(`Rule "${rule.id}" is defined more than once`);
+      }
+      ruleIds.add(rule.id);
+    }
+
+    return rules;
+  }
+
+  private mergeWithDefaults(userConfig: UserConfig): Config {
+    const defaults: UserConfig = { ...DEFAULT_CONFIG, rules: this.getDefaultRuleConfig() };
+
+    // Every built-in rule has a complete default, so only custom rules can lack `enabled`
+    return mergeConfigs(defaults, userConfig) as Config;
+  }
+
+  private validateConfig(config: Config): void {
+    const { errors, warnings } = validateConfig({ ...config }, this.getRules());
+    this.warnings.push(...warnings);
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+    }
+  }
+
+  private validateRuleOptions(config: Config): void {
+    const errors = this.getRules().flatMap(rule => [
+      ...validateRuleOptions(rule, config.rules[rule.id]?.options),
+      ...(config.overrides ?? []).flatMap((override, index) =>
+        validateRuleOptions(rule, override.rules?.[rule.id]?.options).map(error => `overrides[${index}].${error}`)
+      )
+    ]);
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid rule options:\n  ${errors.join('\n  ')}`);
+    }
   }
 
   private getDefaultRuleConfig(): Record<string, RuleConfig> {
-    const builtInRules = getBuiltInRules();
     const defaultRules: Record<string, RuleConfig> = {};
 
-    for (const rule of builtInRules) {
+    for (const rule of this.getRules()) {
       defaultRules[rule.id] = {
         enabled: rule.enabled,
         severity: rule.severity
@@ -67,6 +240,21 @@ export class ConfigManager {
     return this.config;
   }
 
+  /** Rules loaded from the configured plugins and rules directory */
+  getPluginRules(): Rule[] {
+    return [...this.pluginRules];
+  }
+
+  /** Built-in and plugin rules */
+  private getRules(): Rule[] {
+    return [...getBuiltInRules(), ...this.pluginRules];
+  }
+
+  /** Problems found in the configuration that do not prevent linting, such as unknown rule IDs */
+  getWarnings(): string[] {
+    return [...this.warnings];
+  }
+
   getMigrationsPath(): string {
     return this.config.migrationsPath;
   }
@@ -106,39 +294,26 @@ export class ConfigManager {
 
   static createDefaultConfig(): string {
     return `module.exports = {
-  migrationsPath: './prisma/migrations',
-  dialect: 'postgresql',
+  // Detected from the Prisma schema and migration_lock.toml when left out
+  // migrationsPath: './prisma/migrations',
+  // dialect: 'postgresql',
   failOnError: true,
   failOnWarning: false,
+  reportUnusedDirectives: true,
+  parseErrors: 'info',
+  strictParse: false,
+  failOnInternalError: false,
+  baseline: '.prisma-strong-migrations-baseline.json',
   output: 'text',
+  // Built-in presets: recommended, strict, zero-downtime and all.
+  // Packages and paths to other configuration files can be listed too.
+  extends: ['prisma-strong-migrations:recommended'],
   rules: {
-    // Schema Safety Rules - High severity for potentially dangerous operations
-    'no-drop-table': { enabled: true, severity: 'error' },
-    'no-drop-column': { enabled: true, severity: 'error' },
-    'no-alter-column-type': { enabled: true, severity: 'error' },
-    'no-column-rename': { enabled: true, severity: 'error' },
-    'no-table-rename': { enabled: true, severity: 'error' },
-    'no-add-column-without-default': { enabled: true, severity: 'warning' },
-    'require-foreign-key-cascade': { enabled: true, severity: 'warning' },
-    'no-unique-constraint-without-index': { enabled: true, severity: 'warning' },
-    'no-drop-foreign-key-constraint': { enabled: true, severity: 'warning' },
-    
-    // Performance Rules - Warnings for potential performance issues
-    'require-index-for-foreign-key': { enabled: true, severity: 'warning' },
-    'no-full-table-scan': { enabled: true, severity: 'warning' },
-    'require-concurrent-index': { enabled: true, severity: 'error' },
-    
-    // Data Integrity Rules - Info level for best practices
-    'require-not-null-constraint': { enabled: false, severity: 'info' },
-    'require-pii-comments': { enabled: false, severity: 'info' },
-    
-    // Deployment Safety Rules - Errors for migration failures
-    'no-data-manipulation': { enabled: true, severity: 'warning' },
-    'no-add-non-nullable-column': { enabled: true, severity: 'error' },
-    'no-nullable-to-non-nullable': { enabled: true, severity: 'error' },
-    
-    // Best Practices Rules - Info level suggestions
-    'require-transaction-block': { enabled: false, severity: 'info' }
+    // Rules are merged over the presets, so only list what differs
+    'no-drop-table': { severity: 'error' },
+    'no-drop-foreign-key-constraint': { options: { prefixes: ['FK_'], suffixes: ['_FK'] } },
+    'require-pii-comments': { enabled: false },
+    'require-transaction-block': { options: { maxStatements: 2 } }
   }
 };`;
   }
@@ -0,0 +1,22 @@
+/** Rule IDs of the diagnostics the linter reports itself, rather than a rule */
+
+/** A statement the parser could not read */
+export const PARSE_ERROR = 'parse-error';
+
+/** A rule hook that crashed or timed out */
+export const INTERNAL_ERROR = 'internal-error';
+
+/** A malformed suppression directive */
+export const INVALID_DIRECTIVE = 'invalid-directive';
+
+/** A suppression directive that did not suppress anything */
+export const UNUSED_DIRECTIVE = 'unused-directive';
+
+/** A baseline entry that no longer matches any violation */
+export const STALE_BASELINE_ENTRY = 'stale-baseline-entry';
+
+/** A migration recorded in the lock file whose checksum changed */
+export const CHANGED_MIGRATION = 'changed-migration';
+
+/** A migration recorded in the lock file that no longer exists */
+export const MISSING_MIGRATION = 'missing-migration';
@@ -0,0 +1,237 @@
+import { Migration, RuleCategory, Severity, SQLComment, SuppressionKind, Violation } from '../types';
+import { INVALID_DIRECTIVE, UNUSED_DIRECTIVE } from './diagnostics';
+
+const DIRECTIVE_PATTERN = /^strong-migrations-(disable-next-line|disable|enable)(?=\s|$)(.*)$/s;
+const SAFETY_ASSURED_PATTERN = /^safety-assured:(start|end)(?=\s|$)(.*)$/s;
+const REASON_PATTERN = /^reason:\s*(\S.*)$/is;
+const ATTRIBUTE_PATTERN = /(\w+)\s*=\s*"([^"]*)"/g;
+const ALL_RULES = '*';
+
+export type DirectiveType = 'disable-next-line' | 'disable' | 'enable' | 'safety-assured:start' | 'safety-assured:end';
+
+export interface Directive {
+  type: DirectiveType;
+  /** Rule IDs the directive applies to; empty means every rule */
+  ruleIds: string[];
+  justification?: string;
+  approver?: string;
+  line: number;
+  endLine: number;
+  column: number;
+}
+
+export interface DirectiveOptions {
+  reportUnusedDirectives?: boolean;
+}
+
+interface SuppressionRange {
+  kind: SuppressionKind;
+  directive: Directive;
+  ruleId: string;
+  startLine: number;
+  endLine: number;
+  used: boolean;
+}
+
+/**
+ * Parse a directive out of a comment. Two forms are recognised:
+ * `-- strong-migrations-disable-next-line no-drop-column -- reason: column unused since v4.2`
+ * and `-- safety-assured:start reason="..." approver="..."` / `-- safety-assured:end`.
+ */
+export function parseDirective(comment: SQLComment): Directive | undefined {
+  const position = { line: comment.line, endLine: comment.endLine, column: comment.column };
+
+  const safetyAssured = SAFETY_ASSURED_PATTERN.exec(comment.text);
+  if (safetyAssured) {
+    const [, type, body] = safetyAssured;
+    const attributes = new Map([...body.matchAll(ATTRIBUTE_PATTERN)].map(([, key, value]) => [key, value.trim()]));
+
+    return {
+      type: `safety-assured:${type}` as DirectiveType,
+      ruleIds: [],
+      justification: attributes.get('reason') || undefined,
+      approver: attributes.get('approver') || undefined,
+      ...position
+    };
+  }
+
+  const match = DIRECTIVE_PATTERN.exec(comment.text);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, type, body] = match;
+  const separator = body.indexOf('--');
+  const rulesPart = separator === -1 ? body : body.slice(0, separator);
+  const reasonPart = separator === -1 ? '' : body.slice(separator + 2).trim();
+
+  return {
+    type: type as DirectiveType,
+    ruleIds: rulesPart.split(/[\s,]+/).filter(Boolean),
+    justification: REASON_PATTERN.exec(reasonPart)?.[1].trim(),
+    ...position
+  };
+}
+
+/**
+ * Mark violations covered by a directive as suppressed (or acknowledged inside
+ * a safety-assured region), and report directives that are malformed or did
+ * not cover anything.
+ */
+export function applyDirectives(violations: Violation[], migration: Migration, options: DirectiveOptions = {}): Violation[] {
+  const directives = (migration.comments ?? [])
+    .map(parseDirective)
+    .filter((directive): directive is Directive => directive !== undefined);
+
+  if (directives.length === 0) {
+    return violations;
+  }
+
+  const problems: Violation[] = [];
+  const ranges: SuppressionRange[] = [];
+  const openRanges: SuppressionRange[] = [];
+  let openRegion: SuppressionRange | undefined;
+  // The end of a rejected region is expected and should not be reported again
+  let rejectedRegion = false;
+
+  const reportInvalid = (directive: Directive, message: string) => {
+    problems.push(createDirectiveProblem(migration, directive, INVALID_DIRECTIVE, 'Invalid Directive', Severity.ERROR, message));
+  };
+
+  for (const directive of directives) {
+    switch (directive.type) {
+      case 'enable':
+        for (const range of [...openRanges]) {
+          if (directive.ruleIds.length === 0 || directive.ruleIds.includes(range.ruleId)) {
+            range.endLine = directive.line;
+            openRanges.splice(openRanges.indexOf(range), 1);
+          }
+        }
+        break;
+
+      case 'safety-assured:start':
+        if (openRegion) {
+          reportInvalid(directive, `safety-assured:start cannot be nested inside the region opened on line ${openRegion.directive.line}`);
+        } else if (!directive.justification || !directive.approver) {
+          reportInvalid(directive, 'safety-assured:start requires both reason="..." and approver="..."');
+          rejectedRegion = true;
+        } else {
+          openRegion = {
+            kind: SuppressionKind.SAFETY_ASSURED,
+            directive,
+            ruleId: ALL_RULES,
+            startLine: directive.line,
+            endLine: Infinity,
+            used: false
+          };
+          ranges.push(openRegion);
+        }
+        break;
+
+      case 'safety-assured:end':
+        if (openRegion) {
+          openRegion.endLine = directive.line;
+          openRegion = undefined;
+        } else if (rejectedRegion) {
+          rejectedRegion = false;
+        } else {
+          reportInvalid(directive, 'safety-assured:end has no matching safety-assured:start');
+        }
+        break;
+
+      default:
+        if (!directive.justification) {
+          reportInvalid(directive, `strong-migrations-${directive.type} requires a justification, e.g. "-- reason: column unused since v4.2"`);
+          break;
+        }
+
+        for (const ruleId of directive.ruleIds.length ? directive.ruleIds : [ALL_RULES]) {
+          if (directive.type === 'disable-next-line') {
+            // The next line and, when a statement starts there, the whole statement
+            const target = directive.endLine + 1;
+            const statement = migration.statements.find(s => s.startLine === target);
+            const endLine = Math.max(target, statement?.endLine ?? target);
+            ranges.push({ kind: SuppressionKind.DIRECTIVE, directive, ruleId, startLine: target, endLine, used: false });
+          } else {
+            const range = { kind: SuppressionKind.DIRECTIVE, directive, ruleId, startLine: directive.line, endLine: Infinity, used: false };
+            ranges.push(range);
+            openRanges.push(range);
+          }
+        }
+    }
+  }
+
+  if (openRegion) {
+    // An unterminated region would silently waive everything below it
+    reportInvalid(openRegion.directive, 'safety-assured:start is missing a matching safety-assured:end');
+    ranges.splice(ranges.indexOf(openRegion), 1);
+  }
+
+  const processed = violations.map(violation => {
+    if (violation.suppression) {
+      return violation;
+    }
+
+    const range = ranges.find(r =>
+      (r.ruleId === ALL_RULES || r.ruleId === violation.ruleId) &&
+      violation.line <= r.endLine &&
+      (violation.endLine ?? violation.line) >= r.startLine
+    );
+
+    if (!range) {
+      return violation;
+    }
+
+    range.used = true;
+    return {
+      ...violation,
+      suppression: {
+        kind: range.kind,
+        justification: range.directive.justification!,
+        ...(range.directive.approver ? { approver: range.directive.approver } : {}),
+        line: range.directive.line
+      }
+    };
+  });
+
+  if (options.reportUnusedDirectives ?? true) {
+    for (const range of ranges.filter(r => !r.used)) {
+      const detail = range.ruleId === ALL_RULES ? '' : ` (no problems were reported from '${range.ruleId}')`;
+      const name = range.kind === SuppressionKind.SAFETY_ASSURED
+        ? 'safety-assured region'
+        : `strong-migrations-${range.directive.type} directive`;
+      problems.push(createDirectiveProblem(
+        migration,
+        range.directive,
+        UNUSED_DIRECTIVE,
+        'Unused Directive',
+        Severity.WARNING,
+        `Unused ${name}${detail}`
+      ));
+    }
+  }
+
+  return [...processed, ...problems];
+}
+
+function createDirectiveProblem(
+  migration: Migration,
+  directive: Directive,
+  ruleId: string,
+  ruleName: string,
+  severity: Severity,
+  message: string
+): Violation {
+  return {
+    ruleId,
+    ruleName,
+    severity,
+    message,
+    line: directive.line,
+    column: directive.column,
+    endLine: directive.endLine,
+    filePath: migration.filename,
+    migrationId: migration.id,
+    category: RuleCategory.DIAGNOSTICS
+  };
+}
@@ -0,0 +1,57 @@
+import { FileResult, LintResult, Migration, ParseSummary, Severity, SuppressionKind, Violation } from '../types';
+import { getAst } from './sql-query';
+
+export function createFileResult(migration: Pick<Migration, 'filename' | 'id'>, violations: Violation[]): FileResult {
+  // Suppressed, acknowledged and baselined findings are kept for the record but never count as problems
+  const active = violations.filter(v => !v.suppression);
+  const suppressed = violations.filter(v => v.suppression?.kind === SuppressionKind.DIRECTIVE);
+  const acknowledged = violations.filter(v => v.suppression?.kind === SuppressionKind.SAFETY_ASSURED);
+  const baselined = violations.filter(v => v.suppression?.kind === SuppressionKind.BASELINE);
+
+  return {
+    filePath: migration.filename,
+    migrationId: migration.id,
+    violations: active,
+    suppressed,
+    acknowledged,
+    baselined,
+    ...countBySeverity(active)
+  };
+}
+
+export function createLintResult(fileResults: FileResult[], totalFiles: number = fileResults.length, parsing?: ParseSummary): LintResult {
+  const violations = fileResults.flatMap(fileResult => fileResult.violations);
+  const suppressed = fileResults.flatMap(fileResult => fileResult.suppressed);
+  const acknowledged = fileResults.flatMap(fileResult => fileResult.acknowledged);
+  const baselined = fileResults.flatMap(fileResult => fileResult.baselined);
+
+  return {
+    violations,
+    results: fileResults,
+    suppressed,
+    acknowledged,
+    baselined,
+    totalFiles,
+    totalViolations: violations.length,
+    ...countBySeverity(violations),
+    ...(parsing && { parsing })
+  };
+}
+
+/** How many of the migrations' statements rules could only analyze by text */
+export function summarizeParsing(migrations: Migration[]): ParseSummary {
+  const statements = migrations.flatMap(migration => migration.statements);
+
+  return {
+    totalStatements: statements.length,
+    textFallbackStatements: statements.filter(statement => getAst(statement) === null).length
+  };
+}
+
+function countBySeverity(violations: Violation[]): Pick<LintResult, 'errorCount' | 'warningCount' | 'infoCount'> {
+  return {
+    errorCount: violations.filter(v => v.severity === Severity.ERROR).length,
+    warningCount: violations.filter(v => v.severity === Severity.WARNING).length,
+    infoCount: violations.filter(v => v.severity === Severity.INFO).length
+  };
+}
@@ -1,28 +1,88 @@
-import { LintResult, Rule } from '../types';
+import * as path from 'path';
+import { FileResult, LintResult, Migration, MigrationChange, ProjectContext, RuleCategory, Rule, Severity, Violation } from '../types';
 import { MigrationScanner } from './migration-scanner';
 import { RuleEngine } from './rule-engine';
+import { CHANGED_MIGRATION, INTERNAL_ERROR, MISSING_MIGRATION, PARSE_ERROR } from './diagnostics';
 import { ConfigManager } from './config';
+import { createFileResult, createLintResult, summarizeParsing } from './lint-result';
+import { Baseline, DEFAULT_BASELINE_FILE } from './baseline';
+import { validateRuleOptions } from './rule-options';
 import { getBuiltInRules } from '../rules';
-import { GitUtils, GitOptions } from '../utils/git';
+import { DEFAULT_BASE, GitUtils, GitOptions, LineRange } from '../utils/git';
+import { Profiler } from './profiler';
+import { DEFAULT_LOCK_FILE, LockMismatch, LockUpdate, MigrationLock } from './migration-lock';
+
+/** Rule IDs of the diagnostics for locked migrations that changed or were removed */
+const LOCK_DIAGNOSTICS = [CHANGED_MIGRATION, MISSING_MIGRATION];
+/** Change rule that `onlyNewLines` opts out of, since it means the edited migrations are not applied yet */
+const MODIFIED_MIGRATION_RULE = 'no-modify-applied-migration';
+
+export interface LinterOptions {
+  /** Fail the run when any statement could not be parsed, overriding the configuration */
+  strictParse?: boolean;
+  /** Measure scan, parse and rule times, and add them to results as `timing` */
+  timing?: boolean;
+  /** Check every migration recorded in the lock file against its checksum */
+  verifyLock?: boolean;
+}
+
+export interface ChangedLintOptions extends GitOptions {
+  /**
+   * Treat modified migrations as not applied yet: lint them too instead of
+   * reporting the edit, and report only findings on lines added compared to
+   * the base branch
+   */
+  onlyNewLines?: boolean;
+}
+
+interface FileLintOptions {
+  /** Reads a file instead of its working tree copy */
+  readContent?: (filePath: string) => string;
+  /** Lines added to files, by absolute path; only findings whose statement overlaps them are kept for those files */
+  addedLines?: Map<string, LineRange[]>;
+}
+
+interface ChangeLintOptions extends FileLintOptions {
+  /** IDs of the migrations on the base branch, for change hooks */
+  baseMigrationIds: string[];
+}
 
 export class PrismaStrongMigrationsLinter {
   private scanner: MigrationScanner;
   private ruleEngine: RuleEngine;
   private configManager: ConfigManager;
+  private strictParse: boolean;
+  private profiler?: Profiler;
+  private verifyLock: boolean;
 
-  constructor(configPath?: string) {
+  constructor(configPath?: string, options: LinterOptions = {}) {
     this.configManager = new ConfigManager(configPath);
-    this.scanner = new MigrationScanner(this.configManager.getConfig().dialect);
-    this.ruleEngine = new RuleEngine();
+    const config = this.configManager.getConfig();
+    this.strictParse = options.strictParse ?? config.strictParse ?? false;
+    this.profiler = options.timing ? new Profiler() : undefined;
+    this.verifyLock = options.verifyLock ?? false;
+    this.scanner = new MigrationScanner(config.dialect, this.profiler);
+    this.ruleEngine = new RuleEngine([], {
+      reportUnusedDirectives: config.reportUnusedDirectives,
+      // Strict mode reports every unparsed statement, whatever its configured severity
+      parseErrors: this.strictParse ? Severity.ERROR : config.parseErrors,
+      overrides: config.overrides,
+      ignoreBefore: config.ignoreBefore,
+      migrationsPath: config.migrationsPath,
+      ruleTimeout: config.ruleTimeout,
+      internalErrors: config.failOnInternalError ? Severity.ERROR : Severity.WARNING,
+      profiler: this.profiler,
+      dialect: config.dialect
+    });
     
     this.initializeRules();
   }
 
   private initializeRules(): void {
-    const builtInRules = getBuiltInRules();
     const config = this.configManager.getConfig();
 
-    for (const rule of builtInRules) {
+    // Plugin rules are configured the same way as built-in rules
+    for (const rule of [...getBuiltInRules(), ...this.configManager.getPluginRules()]) {
       const ruleConfig = config.rules[rule.id];
       
       if (ruleConfig) {
@@ -30,7 +90,8 @@ export class PrismaStrongMigrationsLinter {
         const configuredRule: Rule = {
           ...rule,
           enabled: ruleConfig.enabled,
-          severity: ruleConfig.severity || rule.severity
+          severity: ruleConfig.severity || rule.severity,
+          options: ruleConfig.options ?? rule.options
         };
         this.ruleEngine.addRule(configuredRule);
       } else {
@@ -40,6 +101,50 @@ export class PrismaStrongMigrationsLinter {
   }
 
   async lintMigrations(): Promise<LintResult> {
+    const result = await this.analyzeAllMigrations();
+
+    // Only a full run can tell that a baseline entry no longer matches anything
+    return this.finish(result, true);
+  }
+
+  async lintRecentMigrations(count: number = 1): Promise<LintResult> {
+    const migrationsPath = this.configManager.getMigrationsPath();
+    const migrations = await this.scanner.getRecentMigrations(migrationsPath, count);
+    const history = await this.loadHistory();
+    
+    return this.finish(await this.ruleEngine.analyzeMigrations(migrations, history, await this.loadProject()));
+  }
+
+  async lintMigrationsSince(sinceId: string): Promise<LintResult> {
+    const migrationsPath = this.configManager.getMigrationsPath();
+    const migrations = await this.scanner.getMigrationsSince(migrationsPath, sinceId);
+    const history = await this.loadHistory();
+    
+    return this.finish(await this.ruleEngine.analyzeMigrations(migrations, history, await this.loadProject()));
+  }
+
+  async lintFile(filePath: string): Promise<LintResult> {
+    const migration = await this.scanner.scanSingleMigration(filePath);
+    const violations = await this.ruleEngine.analyzeMigration(migration, await this.loadHistory());
+
+    return this.finish(createLintResult([createFileResult(migration, violations)], 1, summarizeParsing([migration])));
+  }
+
+  /**
+   * Record every current violation in the baseline file, so that only new
+   * findings are reported by subsequent runs.
+   */
+  async updateBaseline(): Promise<{ filePath: string; entryCount: number }> {
+    const result = await this.analyzeAllMigrations();
+    const baseline = Baseline.fromViolations(result.violations);
+    const filePath = this.getBaselinePath();
+
+    baseline.save(filePath);
+
+    return { filePath, entryCount: baseline.getEntries().length };
+  }
+
+  private async analyzeAllMigrations(): Promise<LintResult> {
     const migrationsPath = this.configManager.getMigrationsPath();
     const includePatterns = this.configManager.getIncludePatterns();
     const excludePatterns = this.configManager.getExcludePatterns();
@@ -50,38 +155,120 @@ export class PrismaStrongMigrationsLinter {
       excludePatterns
     );
 
-    return this.ruleEngine.analyzeMigrations(migrations);
+    return this.ruleEngine.analyzeMigrations(migrations, migrations, await this.loadProject());
   }
 
-  async lintRecentMigrations(count: number = 1): Promise<LintResult> {
+  /**
+   * Every migration in the migrations directory, replayed to give rules the
+   * schema that a partial run starts from. Excludes are not applied, since
+   * excluded migrations still shape the schema.
+   */
+  private async loadHistory(): Promise<Migration[]> {
     const migrationsPath = this.configManager.getMigrationsPath();
-    const migrations = await this.scanner.getRecentMigrations(migrationsPath, count);
-    
-    return this.ruleEngine.analyzeMigrations(migrations);
+    return this.scanner.scanMigrations(migrationsPath, this.configManager.getIncludePatterns());
   }
 
-  async lintMigrationsSince(sinceId: string): Promise<LintResult> {
+  /** The migrations directory as project hooks see it, including directories without a migration.sql */
+  private async loadProject(): Promise<ProjectContext> {
     const migrationsPath = this.configManager.getMigrationsPath();
-    const migrations = await this.scanner.getMigrationsSince(migrationsPath, sinceId);
-    
-    return this.ruleEngine.analyzeMigrations(migrations);
+    return { migrationsPath, directories: await this.scanner.listMigrationDirectories(migrationsPath) };
   }
 
-  async lintFile(filePath: string): Promise<LintResult> {
-    const migration = await this.scanner.scanSingleMigration(filePath);
-    const violations = await this.ruleEngine.analyzeMigration(migration);
+  private getBaselinePath(): string {
+    return this.configManager.getConfig().baseline ?? DEFAULT_BASELINE_FILE;
+  }
+
+  /**
+   * Record a checksum for every migration that is not in the lock file yet.
+   * With `force`, changed migrations are re-recorded and removed ones dropped.
+   */
+  async updateLock(options: { force?: boolean } = {}): Promise<LockUpdate & { filePath: string }> {
+    const filePath = this.getLockPath();
+    const lock = MigrationLock.load(filePath) ?? new MigrationLock();
+    const update = lock.update(await this.scanner.readChecksums(this.configManager.getMigrationsPath()), options);
+
+    lock.save(filePath);
+
+    return { ...update, filePath };
+  }
+
+  private getLockPath(): string {
+    return this.configManager.getConfig().lockFile ?? DEFAULT_LOCK_FILE;
+  }
+
+  /**
+   * Apply the baseline, add lock file mismatches when verifying the lock, and
+   * add the timing report when timing was requested.
+   */
+  private async finish(result: LintResult, detectStale: boolean = false): Promise<LintResult> {
+    let finished = this.applyBaseline(result, detectStale);
+
+    if (this.verifyLock) {
+      finished = await this.checkLock(finished);
+    }
+
+    return this.profiler ? { ...finished, timing: this.profiler.getReport() } : finished;
+  }
+
+  /** Every locked migration is checked, whichever migrations were linted */
+  private async checkLock(result: LintResult): Promise<LintResult> {
+    const lockPath = this.getLockPath();
+    const lock = MigrationLock.load(lockPath);
+    if (!lock) {
+      throw new Error(`Lock file ${lockPath} not found. Run lock update to create it`);
+    }
+
+    const migrationsPath = this.configManager.getMigrationsPath();
+    const mismatches = await this.scanner.verifyLock(migrationsPath, lock);
+    if (mismatches.length === 0) {
+      return result;
+    }
+
+    const fileResults = mismatches.map(mismatch => {
+      const violation = this.createLockViolation(mismatch, migrationsPath, lockPath);
+      return createFileResult({ filename: violation.filePath!, id: violation.migrationId! }, [violation]);
+    });
+    return createLintResult([...result.results ?? [], ...fileResults], result.totalFiles, result.parsing);
+  }
+
+  private createLockViolation(mismatch: LockMismatch, migrationsPath: string, lockPath: string): Violation {
+    const migrationId = mismatch.migration.split('_')[0] || mismatch.migration;
+
+    if (mismatch.kind === 'missing') {
+      return {
+        ruleId: MISSING_MIGRATION,
+        ruleName: 'Missing Migration',
+        severity: Severity.ERROR,
+        message: `Migration ${mismatch.migration} is recorded in ${lockPath} but no longer exists`,
+        line: 1,
+        filePath: lockPath,
+        migrationId,
+        suggestion: 'Applied migrations must not be removed. If it was never applied, run lock update --force',
+        category: RuleCategory.DIAGNOSTICS
+      };
+    }
 
     return {
-      violations,
-      totalFiles: 1,
-      totalViolations: violations.length,
-      errorCount: violations.filter(v => v.severity === 'error').length,
-      warningCount: violations.filter(v => v.severity === 'warning').length,
-      infoCount: violations.filter(v => v.severity === 'info').length
+      ruleId: CHANGED_MIGRATION,
+      ruleName: 'Changed Migration',
+      severity: Severity.ERROR,
+      message: `Migration ${mismatch.migration} changed since it was recorded in ${lockPath}`,
+      line: 1,
+      filePath: path.relative(process.cwd(), path.resolve(migrationsPath, mismatch.migration, 'migration.sql')),
+      migrationId,
+      suggestion: 'Applied migrations must not be edited; create a new migration instead. If it was never applied, run lock update --force',
+      category: RuleCategory.DIAGNOSTICS
     };
   }
 
-  async lintChangedMigrations(options: GitOptions = {}): Promise<LintResult> {
+  private applyBaseline(result: LintResult, detectStale: boolean = false): LintResult {
+    const filePath = this.getBaselinePath();
+    const baseline = Baseline.load(filePath);
+
+    return baseline ? baseline.apply(result, filePath, { detectStale }) : result;
+  }
+
+  async lintChangedMigrations(options: ChangedLintOptions = {}): Promise<LintResult> {
     // Check if we're in a git repository
     if (!GitUtils.isGitRepository()) {
       throw new Error('Not in a git repository. Cannot detect changed files.');
@@ -89,41 +276,16 @@ export class PrismaStrongMigrationsLinter {
 
     const migrationsPath = this.configManager.getMigrationsPath();
     
-    // Get changed migration files
-    const changedFiles = GitUtils.getChangedMigrationFiles(migrationsPath, options);
+    // Get changed migration files, classified by kind of change
+    const changes = GitUtils.getMigrationChanges(migrationsPath, options);
     
-    if (changedFiles.length === 0) {
-      return {
-        violations: [],
-        totalFiles: 0,
-        totalViolations: 0,
-        errorCount: 0,
-        warningCount: 0,
-        infoCount: 0
-      };
-    }
-
-    // Lint each changed file
-    const allViolations = [];
-    for (const filePath of changedFiles) {
-      try {
-        const migration = await this.scanner.scanSingleMigration(filePath);
-        const violations = await this.ruleEngine.analyzeMigration(migration);
-        allViolations.push(...violations);
-      } catch (_error) {
-        // Skip files that can't be read (e.g., deleted files)
-        console.warn(`Warning: Could not analyze migration file: ${filePath}`);
-      }
+    if (changes.length === 0) {
+      return this.finish(createLintResult([]));
     }
 
-    return {
-      violations: allViolations,
-      totalFiles: changedFiles.length,
-      totalViolations: allViolations.length,
-      errorCount: allViolations.filter(v => v.severity === 'error').length,
-      warningCount: allViolations.filter(v => v.severity === 'warning').length,
-      infoCount: allViolations.filter(v => v.severity === 'info').length
-    };
+    const baseMigrationIds = GitUtils.getMigrationIdsAt(migrationsPath, options.base ?? DEFAULT_BASE);
+    const addedLines = options.onlyNewLines ? GitUtils.getAddedLines(migrationsPath, options) : undefined;
+    return this.finish(await this.lintChanges(changes, { baseMigrationIds, addedLines }));
   }
 
   async lintChangedMigrationsSinceCommit(commitSha: string): Promise<LintResult> {
@@ -134,45 +296,118 @@ export class PrismaStrongMigrationsLinter {
 
     const migrationsPath = this.configManager.getMigrationsPath();
     
-    // Get changed migration files since commit
-    const changedFiles = GitUtils.getChangedMigrationFilesSinceCommit(migrationsPath, commitSha);
+    // Get changed migration files since commit, classified by kind of change
+    const changes = GitUtils.getMigrationChangesSinceCommit(migrationsPath, commitSha);
     
-    if (changedFiles.length === 0) {
-      return {
-        violations: [],
-        totalFiles: 0,
-        totalViolations: 0,
-        errorCount: 0,
-        warningCount: 0,
-        infoCount: 0
-      };
+    if (changes.length === 0) {
+      return this.finish(createLintResult([]));
+    }
+
+    const baseMigrationIds = GitUtils.getMigrationIdsAt(migrationsPath, commitSha);
+    return this.finish(await this.lintChanges(changes, { baseMigrationIds }));
+  }
+
+  /**
+   * Lint the staged version of changed migration files, for pre-commit
+   * hooks. The working tree copies may differ from what is being committed.
+   */
+  async lintStagedMigrations(options: GitOptions = {}): Promise<LintResult> {
+    if (!GitUtils.isGitRepository()) {
+      throw new Error('Not in a git repository. Cannot detect staged files.');
+    }
+
+    const migrationsPath = this.configManager.getMigrationsPath();
+    const changes = GitUtils.getStagedMigrationChanges(migrationsPath, options);
+
+    if (changes.length === 0) {
+      return this.finish(createLintResult([]));
+    }
+
+    const base = options.base ?? DEFAULT_BASE;
+    const baseMigrationIds = GitUtils.getMigrationIdsAt(migrationsPath, GitUtils.branchExists(base) ? base : 'HEAD');
+    return this.finish(await this.lintChanges(changes, {
+      baseMigrationIds,
+      readContent: filePath => GitUtils.readStagedFile(filePath)
+    }));
+  }
+
+  /**
+   * Lint added and renamed migrations, which Prisma will apply as new, and
+   * run the change hooks for every change. Modified and deleted migrations
+   * were already applied as they were, so only their change is reported,
+   * unless only the findings on added lines are kept: then the modified
+   * migrations are taken to be unapplied, and their new lines are linted
+   * instead of reporting the edit.
+   */
+  private async lintChanges(changes: MigrationChange[], options: ChangeLintOptions): Promise<LintResult> {
+    const { baseMigrationIds, readContent, addedLines } = options;
+    const lintable = changes.filter(change =>
+      change.kind === 'added' || change.kind === 'renamed' || (addedLines !== undefined && change.kind === 'modified')
+    );
+    // Prisma applies added and renamed migrations as new, so all of their lines count as added
+    const modifiedLines = addedLines && new Map(changes
+      .filter(change => change.kind === 'modified')
+      .map(change => [path.resolve(change.filePath), addedLines.get(path.resolve(change.filePath)) ?? []])
+    );
+    const linted = await this.lintFiles(lintable.map(change => change.filePath), { readContent, addedLines: modifiedLines });
+    const fileResults = new Map((linted.results ?? []).map(fileResult => [fileResult.filePath, fileResult]));
+
+    for (const change of changes) {
+      const filename = path.relative(process.cwd(), change.filePath);
+      const violations = (await this.ruleEngine.analyzeChange(change, filename, baseMigrationIds))
+        .filter(violation => addedLines === undefined || violation.ruleId !== MODIFIED_MIGRATION_RULE);
+      const existing = fileResults.get(filename);
+      if (violations.length === 0 && (existing || lintable.includes(change))) {
+        continue;
+      }
+
+      const previous = existing ? allFindings(existing) : [];
+      fileResults.set(filename, createFileResult({ filename, id: change.migrationId }, [...violations, ...previous]));
     }
 
-    // Lint each changed file
-    const allViolations = [];
-    for (const filePath of changedFiles) {
+    return createLintResult([...fileResults.values()], changes.length, linted.parsing);
+  }
+
+  /** Lint migration files, reading them with `readContent` instead of from disk when given */
+  private async lintFiles(filePaths: string[], options: FileLintOptions = {}): Promise<LintResult> {
+    const { readContent, addedLines } = options;
+    const history = await this.loadHistory();
+
+    // Files are analyzed concurrently, and reported in the order given
+    const analyzed = await Promise.all(filePaths.map(async filePath => {
       try {
-        const migration = await this.scanner.scanSingleMigration(filePath);
-        const violations = await this.ruleEngine.analyzeMigration(migration);
-        allViolations.push(...violations);
+        const migration = await this.scanner.scanSingleMigration(filePath, readContent?.(filePath));
+        const violations = await this.ruleEngine.analyzeMigration(migration, history);
+        const ranges = addedLines?.get(path.resolve(filePath));
+        const kept = ranges ? keepAddedLines(violations, migration, ranges) : violations;
+        return { migration, fileResult: createFileResult(migration, kept) };
       } catch (_error) {
         // Skip files that can't be read (e.g., deleted files)
         console.warn(`Warning: Could not analyze migration file: ${filePath}`);
+        return undefined;
       }
-    }
+    }));
+    const fileResults: FileResult[] = analyzed.flatMap(entry => entry ? [entry.fileResult] : []);
+    const migrations: Migration[] = analyzed.flatMap(entry => entry ? [entry.migration] : []);
 
-    return {
-      violations: allViolations,
-      totalFiles: changedFiles.length,
-      totalViolations: allViolations.length,
-      errorCount: allViolations.filter(v => v.severity === 'error').length,
-      warningCount: allViolations.filter(v => v.severity === 'warning').length,
-      infoCount: allViolations.filter(v => v.severity === 'info').length
-    };
+    // Files that could not be analyzed still count towards the total
+    return createLintResult(fileResults, filePaths.length, summarizeParsing(migrations));
   }
 
   addRule(rule: Rule): void {
-    this.ruleEngine.addRule(rule);
+    const options = this.configManager.getConfig().rules[rule.id]?.options;
+    if (options === undefined) {
+      this.ruleEngine.addRule(rule);
+      return;
+    }
+
+    // Custom rules without a schema receive their options unchecked
+    const errors = rule.optionsSchema ? validateRuleOptions(rule, options) : [];
+    if (errors.length > 0) {
+      throw new Error(`Invalid rule options:\n  ${errors.join('\n  ')}`);
+    }
+
+    this.ruleEngine.addRule({ ...rule, options });
   }
 
   removeRule(ruleId: string): void {
@@ -201,6 +436,21 @@ export class PrismaStrongMigrationsLinter {
 
   shouldExit(result: LintResult): boolean {
     const config = this.configManager.getConfig();
+    // Suppressed and baselined findings never fail the run, whatever their rule
+    const active = result.violations.filter(v => !v.suppression);
+
+    if (this.strictParse && active.some(v => v.ruleId === PARSE_ERROR)) {
+      return true;
+    }
+
+    if (config.failOnInternalError && active.some(v => v.ruleId === INTERNAL_ERROR)) {
+      return true;
+    }
+
+    // Editing an applied migration fails at deploy time, so it always fails the run
+    if (active.some(v => LOCK_DIAGNOSTICS.includes(v.ruleId))) {
+      return true;
+    }
     
     if (config.failOnError && result.errorCount > 0) {
       return true;
@@ -212,4 +462,23 @@ export class PrismaStrongMigrationsLinter {
     
     return false;
   }
-} 
\ No newline at end of file
+}
+
+/** Active, suppressed, acknowledged and baselined findings of a file, to rebuild its result from */
+function allFindings(fileResult: FileResult): Violation[] {
+  return [...fileResult.violations, ...fileResult.suppressed, ...fileResult.acknowledged, ...fileResult.baselined];
+}
+
+/**
+ * Keep the findings whose statement overlaps a line added to the file, so a
+ * new line anywhere in a statement reports what is wrong with it. Findings
+ * outside any statement keep their own lines.
+ */
+function keepAddedLines(violations: Violation[], migration: Migration, ranges: LineRange[]): Violation[] {
+  return violations.filter(violation => {
+    const statement = migration.statements.find(s => s.startLine <= violation.line && violation.line <= s.endLine);
+    const start = statement?.startLine ?? violation.line;
+    const end = statement?.endLine ?? violation.endLine ?? violation.line;
+    return ranges.some(range => start <= range.end && range.start <= end);
+  });
+}
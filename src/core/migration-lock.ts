@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+export const DEFAULT_LOCK_FILE = 'migrations.lock.json';
+
+const LOCK_VERSION = 1;
+
+interface LockFile {
+  version: number;
+  /** Checksum of each migration's `migration.sql`, keyed by migration directory */
+  migrations: Record<string, string>;
+}
+
+export interface LockMismatch {
+  /** Migration directory name, such as `20240101000000_init` */
+  migration: string;
+  /** `changed` when the content differs from the recorded checksum, `missing` when the migration is gone */
+  kind: 'changed' | 'missing';
+}
+
+export interface LockUpdate {
+  /** Migrations recorded for the first time */
+  added: string[];
+  /** Recorded migrations whose content changed, re-recorded only with `force` */
+  changed: string[];
+  /** Recorded migrations that no longer exist, removed only with `force` */
+  missing: string[];
+}
+
+/** The sha256 checksum Prisma records for a migration in `_prisma_migrations` */
+export function migrationChecksum(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Checksums of migrations recorded in `migrations.lock.json`. Once recorded,
+ * a migration is treated as applied: its content must not change.
+ */
+export class MigrationLock {
+  constructor(private checksums: Record<string, string> = {}) {}
+
+  static load(filePath: string): MigrationLock | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LockFile;
+      if (file.version !== LOCK_VERSION || typeof file.migrations !== 'object' || file.migrations === null) {
+        throw new Error(`unsupported lock file version ${file.version}`);
+      }
+      return new MigrationLock(file.migrations);
+    } catch (error) {
+      throw new Error(`Failed to load lock file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  getChecksums(): Record<string, string> {
+    return { ...this.checksums };
+  }
+
+  save(filePath: string): void {
+    const migrations = Object.fromEntries(Object.entries(this.checksums).sort(([a], [b]) => a.localeCompare(b)));
+    const file: LockFile = { version: LOCK_VERSION, migrations };
+    fs.writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  /** Recorded migrations whose current checksum differs, or that no longer exist */
+  verify(current: Record<string, string>): LockMismatch[] {
+    return Object.entries(this.checksums)
+      .filter(([migration, checksum]) => current[migration] !== checksum)
+      .map(([migration]) => ({ migration, kind: hasOwn(current, migration) ? 'changed' as const : 'missing' as const }));
+  }
+
+  /**
+   * Record the migrations that have no entry yet. Changed and missing
+   * migrations keep their entry unless `force` is set, so that an edit is
+   * never accepted by accident.
+   */
+  update(current: Record<string, string>, options: { force?: boolean } = {}): LockUpdate {
+    const added: string[] = [];
+    const changed: string[] = [];
+    const missing = this.verify(current).filter(mismatch => mismatch.kind === 'missing').map(mismatch => mismatch.migration);
+
+    for (const [migration, checksum] of Object.entries(current)) {
+      if (!hasOwn(this.checksums, migration)) {
+        added.push(migration);
+        this.checksums[migration] = checksum;
+      } else if (this.checksums[migration] !== checksum) {
+        changed.push(migration);
+        if (options.force) {
+          this.checksums[migration] = checksum;
+        }
+      }
+    }
+
+    if (options.force) {
+      for (const migration of missing) {
+        delete this.checksums[migration];
+      }
+    }
+
+    return { added: added.sort(), changed: changed.sort(), missing: missing.sort() };
+  }
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -1,8 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
-import { Migration } from '../types';
+import { Migration, MigrationDirectory } from '../types';
 import { SQLParser } from './sql-parser';
+import { Profiler } from './profiler';
+import { LockMismatch, MigrationLock, migrationChecksum } from './migration-lock';
 import type { DialectName } from 'sql-parser-cst';
 
 export class MigrationScanner {
@@ -10,11 +12,13 @@ export class MigrationScanner {
 
   constructor(
     public dialect: DialectName,
+    private profiler?: Profiler
   ) {
-    this.sqlParser = new SQLParser(dialect);
+    this.sqlParser = new SQLParser(dialect, profiler);
   }
 
   async scanMigrations(migrationsPath: string, include?: string[], exclude?: string[]): Promise<Migration[]> {
+    const start = Profiler.now();
     const migrationFiles = await this.findMigrationFiles(migrationsPath, include, exclude);
     const migrations: Migration[] = [];
 
@@ -27,11 +31,48 @@ export class MigrationScanner {
       }
     }
 
+    this.profiler?.recordScan(Profiler.now() - start);
     return migrations;
   }
 
-  async scanSingleMigration(filePath: string): Promise<Migration> {
-    return this.parseMigrationFile(filePath);
+  /** Scan one migration file, or `content` in its place, such as the version staged in git */
+  async scanSingleMigration(filePath: string, content?: string): Promise<Migration> {
+    const start = Profiler.now();
+    const migration = await this.parseMigrationFile(filePath, content);
+    this.profiler?.recordScan(Profiler.now() - start);
+    return migration;
+  }
+
+  /** Checksum of every migration in the directory, keyed by migration directory name */
+  async readChecksums(migrationsPath: string): Promise<Record<string, string>> {
+    const checksums: Record<string, string> = {};
+
+    for (const filePath of await this.findMigrationFiles(migrationsPath)) {
+      checksums[path.basename(path.dirname(filePath))] = migrationChecksum(await fs.promises.readFile(filePath));
+    }
+
+    return checksums;
+  }
+
+  /** Every directory in the migrations directory, including those without a migration.sql */
+  async listMigrationDirectories(migrationsPath: string): Promise<MigrationDirectory[]> {
+    if (!fs.existsSync(migrationsPath)) {
+      return [];
+    }
+
+    const entries = await fs.promises.readdir(migrationsPath, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => ({
+        name: entry.name,
+        hasMigrationFile: fs.existsSync(path.join(migrationsPath, entry.name, 'migration.sql'))
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Recorded migrations whose content changed since they were locked, or that were removed */
+  async verifyLock(migrationsPath: string, lock: MigrationLock): Promise<LockMismatch[]> {
+    return lock.verify(await this.readChecksums(migrationsPath));
   }
 
   private async findMigrationFiles(migrationsPath: string, include?: string[], exclude?: string[]): Promise<string[]> {
@@ -65,20 +106,23 @@ export class MigrationScanner {
     return [...new Set(files)].sort();
   }
 
-  private async parseMigrationFile(filePath: string): Promise<Migration> {
-    const content = await fs.promises.readFile(filePath, 'utf-8');
+  private async parseMigrationFile(filePath: string, source?: string): Promise<Migration> {
+    const content = source ?? await fs.promises.readFile(filePath, 'utf-8');
     const filename = path.basename(path.dirname(filePath));
+    const relativePath = path.relative(process.cwd(), filePath);
     
     // Extract migration ID from the directory name (Prisma format: YYYYMMDDHHMMSS_migration_name)
     const migrationId = filename.split('_')[0] || filename;
 
-    const statements = this.sqlParser.parseStatements(content);
+    const statements = this.sqlParser.parseStatements(content, relativePath);
+    const comments = this.sqlParser.parseComments(content);
 
     return {
       id: migrationId,
-      filename: path.relative(process.cwd(), filePath),
+      filename: relativePath,
       content,
-      statements
+      statements,
+      comments
     };
   }
 
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { Plugin, Rule, RuleCategory, Severity } from '../types';
+
+const PLUGIN_PACKAGE_PREFIX = 'prisma-strong-migrations-plugin-';
+const RULE_FILE_EXTENSIONS = ['.js', '.cjs'];
+const SEVERITIES: string[] = Object.values(Severity);
+const CATEGORIES: string[] = Object.values(RuleCategory);
+
+// Plugins are CommonJS modules, loaded synchronously like the configuration itself
+const loadModule = createRequire(__filename);
+
+/**
+ * Load a plugin package or file and return its rules, with IDs prefixed by
+ * the plugin namespace: `acme/no-uuid-v1` for rule `no-uuid-v1` of
+ * `@acme/prisma-strong-migrations-plugin`.
+ */
+export function loadPlugin(name: string, baseDir: string): Rule[] {
+  const plugin = requireModule<Plugin>(name, baseDir, 'plugin');
+  if (!plugin || typeof plugin.rules !== 'object' || plugin.rules === null) {
+    throw new Error(`Plugin "${name}" must export an object with rules`);
+  }
+
+  const namespace = plugin.name ?? pluginNamespace(name);
+  if (!namespace) {
+    throw new Error(`Plugin "${name}" must export a name to namespace its rules`);
+  }
+
+  const entries = Array.isArray(plugin.rules)
+    ? plugin.rules.map(rule => [rule?.id, rule] as const)
+    : Object.entries(plugin.rules);
+
+  return entries.map(([id, rule]) => {
+    if (typeof id !== 'string' || !rule) {
+      throw new Error(`Plugin "${name}": every rule needs an id`);
+    }
+
+    const ruleId = id.startsWith(`${namespace}/`) ? id : `${namespace}/${id}`;
+    return checkRule({ ...rule, id: ruleId }, `Plugin "${name}"`);
+  });
+}
+
+/** Load every rule file (`.js`, `.cjs`) in a directory; each exports one rule */
+export function loadRulesDir(directory: string, baseDir: string): Rule[] {
+  const resolved = path.resolve(baseDir, directory);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+    throw new Error(`rulesDir "${directory}" is not a directory`);
+  }
+
+  return fs.readdirSync(resolved)
+    .filter(file => RULE_FILE_EXTENSIONS.includes(path.extname(file)))
+    .sort()
+    .map(file => {
+      const rule = requireModule<Rule>(path.join(resolved, file), baseDir, 'rule');
+      return checkRule({ ...rule, id: rule?.id ?? path.basename(file, path.extname(file)) }, `Rule file "${path.join(directory, file)}"`);
+    });
+}
+
+/**
+ * Namespace derived from the package name: the scope of scoped packages, or
+ * the part after `prisma-strong-migrations-plugin-`.
+ */
+export function pluginNamespace(name: string): string | undefined {
+  const scope = /^@([^/]+)\//.exec(name);
+  if (scope) {
+    return scope[1];
+  }
+  return name.startsWith(PLUGIN_PACKAGE_PREFIX) ? name.slice(PLUGIN_PACKAGE_PREFIX.length) : undefined;
+}
+
+function requireModule<T>(name: string, baseDir: string, kind: string): T {
+  let filepath: string;
+  try {
+    filepath = name.startsWith('.') || path.isAbsolute(name)
+      ? require.resolve(path.resolve(baseDir, name))
+      : require.resolve(name, { paths: [baseDir] });
+  } catch {
+    throw new Error(`Cannot find ${kind} "${name}"`);
+  }
+
+  const loaded = loadModule(filepath);
+  return loaded?.__esModule && loaded.default ? loaded.default : loaded;
+}
+
+function checkRule(rule: Rule, source: string): Rule {
+  if (!rule.check && !rule.checkMigration && !rule.checkProject && !rule.checkChange) {
+    throw new Error(`${source}: rule "${rule.id}" must have a check, checkMigration, checkProject or checkChange function`);
+  }
+  if (!SEVERITIES.includes(rule.severity)) {
+    throw new Error(`${source}: rule "${rule.id}" has severity ${JSON.stringify(rule.severity)}, expected one of: ${SEVERITIES.join(', ')}`);
+  }
+  if (!CATEGORIES.includes(rule.category)) {
+    throw new Error(`${source}: rule "${rule.id}" has category ${JSON.stringify(rule.category)}, expected one of: ${CATEGORIES.join(', ')}`);
+  }
+
+  return { ...rule, name: rule.name ?? rule.id, enabled: rule.enabled ?? true };
+}
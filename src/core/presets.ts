@@ -0,0 +1,87 @@
+import { RuleConfig, Severity, UserConfig } from '../types';
+import { getBuiltInRules } from '../rules';
+
+/** Prefix that marks a built-in preset in `extends`, as in `prisma-strong-migrations:recommended` */
+export const PRESET_PREFIX = 'prisma-strong-migrations:';
+
+const RECOMMENDED_RULES: Record<string, RuleConfig> = {
+  // Schema Safety Rules - High severity for potentially dangerous operations
+  'no-drop-table': { enabled: true, severity: Severity.ERROR },
+  'no-drop-column': { enabled: true, severity: Severity.ERROR },
+  'no-alter-column-type': { enabled: true, severity: Severity.ERROR },
+  'no-column-rename': { enabled: true, severity: Severity.ERROR },
+  'no-table-rename': { enabled: true, severity: Severity.ERROR },
+  'no-add-column-without-default': { enabled: true, severity: Severity.WARNING },
+  'require-foreign-key-cascade': { enabled: true, severity: Severity.WARNING },
+  'no-unique-constraint-without-index': { enabled: true, severity: Severity.WARNING },
+  'no-drop-foreign-key-constraint': { enabled: true, severity: Severity.WARNING },
+
+  // Performance Rules - Warnings for potential performance issues
+  'require-index-for-foreign-key': { enabled: true, severity: Severity.WARNING },
+  'no-full-table-scan': { enabled: true, severity: Severity.WARNING },
+  'require-concurrent-index': { enabled: true, severity: Severity.ERROR },
+
+  // Data Integrity Rules - Opt-in, they flag most new tables
+  'require-not-null-constraint': { enabled: false, severity: Severity.INFO },
+  'require-pii-comments': { enabled: false, severity: Severity.INFO },
+
+  // Deployment Safety Rules - Errors for migration failures
+  'no-data-manipulation': { enabled: true, severity: Severity.WARNING },
+  'no-add-non-nullable-column': { enabled: true, severity: Severity.ERROR },
+  'no-nullable-to-non-nullable': { enabled: true, severity: Severity.ERROR },
+  'no-modify-applied-migration': { enabled: true, severity: Severity.ERROR },
+  'no-delete-applied-migration': { enabled: true, severity: Severity.ERROR },
+  'no-rename-applied-migration': { enabled: true, severity: Severity.ERROR },
+  'no-duplicate-migration-timestamp': { enabled: true, severity: Severity.ERROR },
+  'require-migration-sql': { enabled: true, severity: Severity.ERROR },
+  'no-out-of-order-migration': { enabled: true, severity: Severity.WARNING },
+
+  // Best Practices Rules - Opt-in, except for conventions Prisma relies on
+  'require-transaction-block': { enabled: false, severity: Severity.INFO },
+  'migration-name-format': { enabled: true, severity: Severity.WARNING }
+};
+
+const PRESETS: Record<string, () => UserConfig> = {
+  /** The rules that catch failing or destructive migrations, with the noisier checks left off */
+  recommended: () => ({
+    rules: RECOMMENDED_RULES
+  }),
+
+  /** Every rule, and any warning fails the run; parse errors keep their severity, as some valid SQL does not parse yet */
+  strict: () => ({
+    extends: `${PRESET_PREFIX}all`,
+    failOnWarning: true
+  }),
+
+  /** Fails on anything that locks busy tables or breaks the running application version */
+  'zero-downtime': () => ({
+    extends: `${PRESET_PREFIX}recommended`,
+    rules: {
+      'no-add-column-without-default': { enabled: true, severity: Severity.ERROR },
+      'no-unique-constraint-without-index': { enabled: true, severity: Severity.ERROR },
+      'no-drop-foreign-key-constraint': { enabled: true, severity: Severity.ERROR },
+      'no-full-table-scan': { enabled: true, severity: Severity.ERROR },
+      'no-data-manipulation': { enabled: true, severity: Severity.ERROR },
+      // CONCURRENTLY cannot run inside a transaction block
+      'require-transaction-block': { enabled: false }
+    }
+  }),
+
+  /** Every built-in rule at its default severity */
+  all: () => ({
+    rules: Object.fromEntries(getBuiltInRules().map(rule => [rule.id, { enabled: true, severity: rule.severity }]))
+  })
+};
+
+/** The preset named by an `extends` entry such as `prisma-strong-migrations:strict` */
+export function getPreset(name: string): UserConfig | undefined {
+  const key = name.slice(PRESET_PREFIX.length);
+  if (!name.startsWith(PRESET_PREFIX) || !Object.prototype.hasOwnProperty.call(PRESETS, key)) {
+    return undefined;
+  }
+  return PRESETS[key]();
+}
+
+export function getPresetNames(): string[] {
+  return Object.keys(PRESETS).map(name => `${PRESET_PREFIX}${name}`);
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DialectName } from 'sql-parser-cst';
+
+export const MIGRATION_LOCK_FILE = 'migration_lock.toml';
+
+/** Locations Prisma looks for the schema when package.json does not name one */
+const DEFAULT_SCHEMA_PATHS = ['prisma/schema.prisma', 'schema.prisma', 'prisma/schema'];
+
+/** Parser dialect for each Prisma provider; SQL Server has no matching dialect */
+const PROVIDER_DIALECTS: Record<string, DialectName> = {
+  postgresql: 'postgresql',
+  postgres: 'postgresql',
+  cockroachdb: 'postgresql',
+  mysql: 'mysql',
+  sqlite: 'sqlite'
+};
+
+export interface PrismaProject {
+  /** The schema file, or the directory of a multi-file schema, relative to the project directory */
+  schemaPath?: string;
+  /** The `migrations` directory next to the schema */
+  migrationsPath?: string;
+  /** The `migration_lock.toml` of the migrations directory, if there is one */
+  lockPath?: string;
+  /** Provider recorded by `prisma migrate` in the lock file */
+  lockProvider?: string;
+  /** Provider of the `datasource` block in the schema */
+  schemaProvider?: string;
+}
+
+/**
+ * Find the Prisma schema, migrations directory and database provider of the
+ * project in `cwd`. The lock file is read from `migrationsPath` when given,
+ * otherwise from the migrations directory next to the schema.
+ */
+export function detectPrismaProject(cwd: string, migrationsPath?: string): PrismaProject {
+  const project: PrismaProject = {};
+
+  const schemaPath = findSchema(cwd);
+  if (schemaPath) {
+    const isDirectory = fs.statSync(schemaPath).isDirectory();
+    project.schemaPath = toProjectPath(cwd, schemaPath);
+    project.migrationsPath = toProjectPath(cwd, path.join(isDirectory ? schemaPath : path.dirname(schemaPath), 'migrations'));
+    project.schemaProvider = readSchemaProvider(schemaPath, isDirectory);
+  }
+
+  const lockDirectory = migrationsPath ?? project.migrationsPath;
+  const lockPath = lockDirectory && path.resolve(cwd, lockDirectory, MIGRATION_LOCK_FILE);
+  if (lockPath && fs.existsSync(lockPath)) {
+    project.lockPath = toProjectPath(cwd, lockPath);
+    project.lockProvider = readProvider(fs.readFileSync(lockPath, 'utf-8'));
+  }
+
+  return project;
+}
+
+export function dialectForProvider(provider: string): DialectName | undefined {
+  return Object.prototype.hasOwnProperty.call(PROVIDER_DIALECTS, provider) ? PROVIDER_DIALECTS[provider] : undefined;
+}
+
+function findSchema(cwd: string): string | undefined {
+  const configured = readPackageSchema(cwd);
+  const candidates = configured ? [configured] : DEFAULT_SCHEMA_PATHS;
+
+  return candidates.map(candidate => path.resolve(cwd, candidate)).find(candidate => fs.existsSync(candidate));
+}
+
+/** The `prisma.schema` entry of package.json */
+function readPackageSchema(cwd: string): string | undefined {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(cwd, 'package.json'), 'utf-8'));
+    return typeof packageJson.prisma?.schema === 'string' ? packageJson.prisma.schema : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function readSchemaProvider(schemaPath: string, isDirectory: boolean): string | undefined {
+  const files = isDirectory
+    ? fs.readdirSync(schemaPath).filter(file => file.endsWith('.prisma')).map(file => path.join(schemaPath, file))
+    : [schemaPath];
+
+  for (const file of files) {
+    const content = fs.readFileSync(file, 'utf-8').replace(/\/\/[^\n]*/g, '');
+    const datasource = /datasource\s+\w+\s*\{([^}]*)\}/.exec(content);
+    if (datasource) {
+      return readProvider(datasource[1]);
+    }
+  }
+
+  return undefined;
+}
+
+/** The `provider = "..."` setting of a lock file or datasource block */
+function readProvider(content: string): string | undefined {
+  return /^\s*provider\s*=\s*"([^"]+)"/m.exec(content)?.[1];
+}
+
+function toProjectPath(cwd: string, filePath: string): string {
+  const relative = path.relative(cwd, filePath);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? relative : `./${relative}`;
+}
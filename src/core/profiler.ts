@@ -0,0 +1,63 @@
+import { performance } from 'perf_hooks';
+import { MigrationTiming, RuleTiming, TimingReport } from '../types';
+
+interface Total {
+  time: number;
+  calls: number;
+}
+
+/**
+ * Collects where a lint run spends its time: cumulative time per rule, parse
+ * time per file and scan time. Asynchronous rule hooks are measured until
+ * they settle, so hooks that run concurrently may overlap.
+ */
+export class Profiler {
+  private rules = new Map<string, Total>();
+  private ruleTimeByFile = new Map<string, number>();
+  private parseTimeByFile = new Map<string, number>();
+  private scanTime = 0;
+
+  /** Milliseconds since an arbitrary origin, for measuring durations */
+  static now(): number {
+    return performance.now();
+  }
+
+  recordRule(ruleId: string, time: number, filePath?: string): void {
+    const total = this.rules.get(ruleId) ?? { time: 0, calls: 0 };
+    this.rules.set(ruleId, { time: total.time + time, calls: total.calls + 1 });
+
+    if (filePath !== undefined) {
+      this.ruleTimeByFile.set(filePath, (this.ruleTimeByFile.get(filePath) ?? 0) + time);
+    }
+  }
+
+  recordParse(filePath: string, time: number): void {
+    this.parseTimeByFile.set(filePath, (this.parseTimeByFile.get(filePath) ?? 0) + time);
+  }
+
+  recordScan(time: number): void {
+    this.scanTime += time;
+  }
+
+  /** The collected times, slowest first, in milliseconds */
+  getReport(): TimingReport {
+    const rules: RuleTiming[] = [...this.rules]
+      .map(([ruleId, total]) => ({ ruleId, time: round(total.time), calls: total.calls }))
+      .sort((a, b) => b.time - a.time || a.ruleId.localeCompare(b.ruleId));
+
+    const filePaths = new Set([...this.parseTimeByFile.keys(), ...this.ruleTimeByFile.keys()]);
+    const migrations: MigrationTiming[] = [...filePaths]
+      .map(filePath => {
+        const parse = this.parseTimeByFile.get(filePath) ?? 0;
+        const ruleTime = this.ruleTimeByFile.get(filePath) ?? 0;
+        return { filePath, parse: round(parse), rules: round(ruleTime), total: round(parse + ruleTime) };
+      })
+      .sort((a, b) => b.total - a.total || a.filePath.localeCompare(b.filePath));
+
+    return { scan: round(this.scanTime), rules, migrations };
+  }
+}
+
+function round(time: number): number {
+  return Math.round(time * 1000) / 1000;
+}
@@ -1,9 +1,45 @@
-import { Rule, Migration, Violation, LintResult, Severity } from '../types';
+import * as path from 'path';
+import minimatch from 'minimatch';
+import { DialectName } from 'sql-parser-cst';
+import { Rule, Migration, Violation, LintResult, SQLStatement, FileResult, RuleContext, MigrationContext, Severity, RuleCategory, ConfigOverride, RuleResult, MigrationChange, ProjectContext } from '../types';
+import { createFileResult, createLintResult, summarizeParsing } from './lint-result';
+import { applyDirectives } from './directives';
+import { createFingerprint } from './baseline';
+import { resolveRuleOptions } from './rule-options';
+import { SchemaBuilder } from './schema-builder';
+import { rangeOf } from './sql-query';
+import { mergeRuleConfig } from './config';
+import { Profiler } from './profiler';
+import { INTERNAL_ERROR, PARSE_ERROR } from './diagnostics';
+
+const SNIPPET_MAX_LENGTH = 120;
+const DEFAULT_RULE_TIMEOUT = 30000;
+
+export interface RuleEngineOptions {
+  /** Report suppression directives that did not suppress anything (default: true) */
+  reportUnusedDirectives?: boolean;
+  /** Severity of `parse-error` diagnostics for statements the parser could not read (default: info) */
+  parseErrors?: Severity | 'off';
+  /** Rule settings for the migrations matching each override's patterns, applied in order */
+  overrides?: ConfigOverride[];
+  /** Skip migrations whose ID sorts before this one (default: check every migration) */
+  ignoreBefore?: string;
+  /** Directory that override patterns are relative to (default: the current directory) */
+  migrationsPath?: string;
+  /** Milliseconds an asynchronous rule hook may take before it is abandoned (default: 30000) */
+  ruleTimeout?: number;
+  /** Severity of `internal-error` diagnostics for rule hooks that throw or time out (default: warning) */
+  internalErrors?: Severity;
+  /** Records the time spent in each rule hook */
+  profiler?: Profiler;
+  /** Dialect that statements are read in when replaying the schema (default: postgresql) */
+  dialect?: DialectName;
+}
 
 export class RuleEngine {
   private rules: Rule[] = [];
 
-  constructor(rules: Rule[] = []) {
+  constructor(rules: Rule[] = [], private options: RuleEngineOptions = {}) {
     this.rules = rules;
   }
 
@@ -29,56 +65,356 @@ export class RuleEngine {
     }
   }
 
-  async analyzeMigrations(migrations: Migration[]): Promise<LintResult> {
-    const allViolations: Violation[] = [];
+  /**
+   * Analyze migrations with every rule hook. `history` is replayed to give
+   * rules the schema each migration starts from; it defaults to the analyzed
+   * migrations themselves. `project` describes the migrations directory to
+   * project hooks.
+   */
+  async analyzeMigrations(migrations: Migration[], history: Migration[] = migrations, project?: ProjectContext): Promise<LintResult> {
+    const schemas = this.replaySchemas(migrations, history);
+    const violationsByMigration = new Map<Migration, Violation[]>();
+
+    // With their schemas replayed, migrations are independent and are checked concurrently
+    const [collected, projectViolations] = await Promise.all([
+      Promise.all(migrations.map(migration => this.collectViolations(migration, schemas.get(migration)!))),
+      this.runProjectChecks(migrations, project)
+    ]);
+    migrations.forEach((migration, index) => violationsByMigration.set(migration, collected[index]));
+
+    // Project-level findings are filed under the migration they name, if its rules include the rule
+    const unassigned = new Map<string, Violation[]>();
+    for (const violation of projectViolations) {
+      const migration = migrations.find(m => m.id === violation.migrationId || m.filename === violation.filePath);
+      if (migration) {
+        const rule = this.getEffectiveRules(migration).find(r => r.id === violation.ruleId);
+        if (rule) {
+          violationsByMigration.get(migration)!.push(this.locateViolation({ ...violation, severity: rule.severity }, migration));
+        }
+      } else {
+        const filePath = violation.filePath ?? '';
+        unassigned.set(filePath, [...unassigned.get(filePath) ?? [], violation]);
+      }
+    }
 
-    for (const migration of migrations) {
-      const violations = await this.analyzeMigration(migration);
-      allViolations.push(...violations);
+    const fileResults: FileResult[] = migrations.map(migration =>
+      createFileResult(migration, this.applyDirectives(violationsByMigration.get(migration)!, migration))
+    );
+    for (const [filePath, violations] of unassigned) {
+      fileResults.push(createFileResult({ filename: filePath, id: violations[0].migrationId ?? '' }, violations));
     }
 
-    return this.generateLintResult(allViolations, migrations.length);
+    return createLintResult(fileResults, migrations.length, summarizeParsing(migrations));
+  }
+
+  /**
+   * Analyze a single migration with the statement and migration hooks.
+   * Project hooks need every migration and only run from analyzeMigrations.
+   */
+  async analyzeMigration(migration: Migration, history: Migration[] = []): Promise<Violation[]> {
+    const schemas = this.replaySchemas([migration], history);
+    return this.applyDirectives(await this.collectViolations(migration, schemas.get(migration)!), migration);
   }
 
-  async analyzeMigration(migration: Migration): Promise<Violation[]> {
+  /**
+   * Run the change hooks for a migration file that changed compared to the
+   * base branch. `filename` is where findings are reported, since the file
+   * may no longer exist. `ignoreBefore` does not apply: older migrations are
+   * the deployed ones these hooks protect.
+   */
+  async analyzeChange(change: MigrationChange, filename: string, baseMigrationIds?: string[]): Promise<Violation[]> {
+    const migration: Migration = { id: change.migrationId, filename, content: '', statements: [] };
     const violations: Violation[] = [];
 
+    for (const { rule, context } of this.withContext(this.getConfiguredRules(migration), { baseMigrationIds })) {
+      if (!rule.checkChange) continue;
+
+      const ruleViolations = await this.runRule(rule, () => rule.checkChange!(change, context), migration);
+      violations.push(...ruleViolations.map(v => this.locateViolation(v, migration)));
+    }
+
+    return violations;
+  }
+
+  /**
+   * Replay the history in ID order, recording the schema before and after
+   * each analyzed migration. Analyzed migrations replace history entries
+   * with the same ID.
+   */
+  private replaySchemas(migrations: Migration[], history: Migration[]): Map<Migration, MigrationContext> {
+    const analyzedIds = new Set(migrations.map(m => m.id));
+    const ordered = [...history.filter(m => !analyzedIds.has(m.id)), ...migrations]
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    const builder = new SchemaBuilder(this.options.dialect);
+    const schemas = new Map<Migration, MigrationContext>();
+
+    for (const migration of ordered) {
+      if (!migrations.includes(migration)) {
+        builder.applyMigration(migration);
+        continue;
+      }
+
+      const currentSchema = builder.getSchema();
+      builder.applyMigration(migration);
+      schemas.set(migration, { currentSchema, resultingSchema: builder.getSchema() });
+    }
+
+    return schemas;
+  }
+
+  private async collectViolations(migration: Migration, schemaContext: MigrationContext): Promise<Violation[]> {
+    const violations: Violation[] = [];
+    if (this.isIgnored(migration)) {
+      return violations;
+    }
+
+    const enabledRules = this.withContext(this.getEffectiveRules(migration), schemaContext);
+
     for (const statement of migration.statements) {
-      for (const rule of this.rules) {
-        if (!rule.enabled) continue;
-
-        try {
-          const ruleViolations = rule.check(statement, migration);
-          violations.push(...ruleViolations);
-        } catch (error) {
-          // Log rule execution error but continue with other rules
-          console.warn(`Rule ${rule.id} failed to execute:`, error);
-        }
+      const parseError = this.createParseError(statement);
+      if (parseError) {
+        violations.push(this.locateViolation(parseError, migration, statement));
+      }
+
+      for (const { rule, context } of enabledRules) {
+        if (!rule.check) continue;
+
+        const ruleViolations = await this.runRule(rule, () => rule.check!(statement, migration, context), migration, statement.startLine);
+        violations.push(...ruleViolations.map(v => this.locateViolation(v, migration, statement)));
       }
     }
 
+    for (const { rule, context } of enabledRules) {
+      if (!rule.checkMigration) continue;
+
+      const ruleViolations = await this.runRule(rule, () => rule.checkMigration!(migration, context), migration);
+      violations.push(...ruleViolations.map(v => this.locateViolation(v, migration)));
+    }
+
     return violations;
   }
 
-  private generateLintResult(violations: Violation[], totalFiles: number): LintResult {
-    const errorCount = violations.filter(v => v.severity === Severity.ERROR).length;
-    const warningCount = violations.filter(v => v.severity === Severity.WARNING).length;
-    const infoCount = violations.filter(v => v.severity === Severity.INFO).length;
+  /**
+   * Report a statement the parser rejected. Rules still see it, but can only
+   * match its text, so findings may be missed or imprecise.
+   */
+  private createParseError(statement: SQLStatement): Violation | undefined {
+    const severity = this.options.parseErrors ?? Severity.INFO;
+    if (!statement.parseError || severity === 'off') {
+      return undefined;
+    }
 
     return {
-      violations,
-      totalFiles,
-      totalViolations: violations.length,
-      errorCount,
-      warningCount,
-      infoCount
+      ruleId: PARSE_ERROR,
+      ruleName: 'Parse Error',
+      severity,
+      message: `Could not parse statement: ${statement.parseError.message}`,
+      line: statement.parseError.line,
+      column: statement.parseError.column,
+      suggestion: 'Rules only matched this statement by its text, so review it by hand. Set parseErrors to "off" to hide statements the parser does not support',
+      category: RuleCategory.DIAGNOSTICS
     };
   }
 
+  /**
+   * Run the project hooks once over every migration. Overrides still enable,
+   * disable and set the severity of their findings per migration, but the
+   * hooks receive the `options` of the base configuration.
+   */
+  private async runProjectChecks(migrations: Migration[], project?: ProjectContext): Promise<Violation[]> {
+    const sorted = [...migrations].sort((a, b) => a.id.localeCompare(b.id));
+    const violations: Violation[] = [];
+
+    // A rule runs if any migration enables it; findings are then filtered per migration
+    const ruleIds = new Set([...this.getEnabledRules(), ...migrations.flatMap(m => this.getEffectiveRules(m))].map(r => r.id));
+
+    for (const { rule, context } of this.withContext(this.rules.filter(r => ruleIds.has(r.id)), { project })) {
+      if (!rule.checkProject) continue;
+
+      violations.push(...await this.runRule(rule, () => rule.checkProject!(sorted, context)));
+    }
+
+    return violations;
+  }
+
+  /**
+   * Run a rule hook, reporting its findings at the severity the rule is
+   * configured with. Hooks returning a Promise are abandoned after the timeout.
+   * A hook that throws is reported as an `internal-error` at `line` of the
+   * migration, and the other rules still run.
+   */
+  private async runRule(rule: Rule, run: () => RuleResult, migration?: Migration, line: number = 1): Promise<Violation[]> {
+    const start = Profiler.now();
+    try {
+      const result = run();
+      const violations = Array.isArray(result) ? result : await this.withTimeout(rule, result);
+      return violations.map(violation => ({ ...violation, severity: rule.severity }));
+    } catch (error) {
+      const internalError = this.createInternalError(rule, error, line);
+      // A crashed project hook concerns no single migration and is filed under the migrations directory
+      return [migration ? internalError : { ...internalError, filePath: this.options.migrationsPath ?? '.' }];
+    } finally {
+      this.options.profiler?.recordRule(rule.id, Profiler.now() - start, migration?.filename);
+    }
+  }
+
+  private createInternalError(rule: Rule, error: unknown, line: number): Violation {
+    const message = error instanceof Error ? error.message : String(error);
+
+    return {
+      ruleId: INTERNAL_ERROR,
+      ruleName: 'Internal Error',
+      severity: this.options.internalErrors ?? Severity.WARNING,
+      message: `Rule ${rule.id} crashed: ${message}`,
+      line,
+      suggestion: `The checks of ${rule.id} did not run here. Run with --debug for the stack trace`,
+      category: RuleCategory.DIAGNOSTICS,
+      ...(error instanceof Error && error.stack && { stack: error.stack })
+    };
+  }
+
+  private async withTimeout(rule: Rule, result: Promise<Violation[]>): Promise<Violation[]> {
+    const timeout = this.options.ruleTimeout ?? DEFAULT_RULE_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        result,
+        new Promise<never>((_resolve, reject) => {
+          timer = setTimeout(() => reject(new Error(`Rule ${rule.id} timed out after ${timeout}ms`)), timeout);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private withContext(rules: Rule[], migrationContext: Omit<RuleContext, 'options'> = {}): { rule: Rule; context: RuleContext }[] {
+    return rules.map(rule => ({
+      rule,
+      context: { ...migrationContext, dialect: this.options.dialect, options: resolveRuleOptions(rule.optionsSchema, rule.options) }
+    }));
+  }
+
+  private applyDirectives(violations: Violation[], migration: Migration): Violation[] {
+    // Directives in skipped migrations are not reported as unused
+    if (this.isIgnored(migration)) {
+      return violations;
+    }
+
+    // A crashed rule is never waived by a directive: its checks did not run
+    const crashes = violations.filter(v => v.ruleId === INTERNAL_ERROR);
+    const findings = applyDirectives(violations.filter(v => v.ruleId !== INTERNAL_ERROR), migration, {
+      reportUnusedDirectives: this.options.reportUnusedDirectives
+    });
+    return [...findings, ...crashes];
+  }
+
+  /**
+   * Stamp a violation with the file, migration and statement it was found in,
+   * keeping any location details the rule already provided. Violations from
+   * migration and project hooks are matched to the statement on their line.
+   */
+  private locateViolation(violation: Violation, migration: Migration, source?: SQLStatement): Violation {
+    const statement = source ?? migration.statements.find(s => s.startLine <= violation.line && violation.line <= s.endLine);
+
+    if (!statement) {
+      return {
+        ...violation,
+        column: violation.column ?? 1,
+        endLine: violation.endLine ?? violation.line,
+        filePath: violation.filePath ?? migration.filename,
+        migrationId: violation.migrationId ?? migration.id,
+        fingerprint: violation.fingerprint ?? createFingerprint(violation.ruleId, migration.id, violation.message)
+      };
+    }
+
+    const statementRange = rangeOf(statement);
+
+    return {
+      ...violation,
+      column: violation.column ?? this.firstColumnOf(statement, violation.line),
+      endLine: violation.endLine ?? statementRange.endLine,
+      endColumn: violation.endColumn ?? statementRange.endColumn,
+      filePath: violation.filePath ?? migration.filename,
+      migrationId: violation.migrationId ?? migration.id,
+      snippet: violation.snippet ?? this.createSnippet(statement.content),
+      fingerprint: violation.fingerprint ?? createFingerprint(violation.ruleId, migration.id, statement.content)
+    };
+  }
+
+  /** Column where the statement's text starts on the given line, skipping indentation */
+  private firstColumnOf(statement: SQLStatement, line: number): number {
+    const text = statement.content.split('\n')[line - statement.startLine];
+    if (text === undefined) {
+      return 1;
+    }
+
+    const indentation = text.length - text.trimStart().length;
+    return line === statement.startLine ? (statement.startColumn ?? 1) + indentation : indentation + 1;
+  }
+
+  private createSnippet(content: string): string {
+    const collapsed = content.replace(/\s+/g, ' ').trim();
+    return collapsed.length > SNIPPET_MAX_LENGTH
+      ? `${collapsed.slice(0, SNIPPET_MAX_LENGTH - 1)}…`
+      : collapsed;
+  }
+
   getEnabledRules(): Rule[] {
     return this.rules.filter(rule => rule.enabled);
   }
 
+  /**
+   * The rules that check one migration: none before `ignoreBefore`, otherwise
+   * the enabled rules once every override matching the migration is applied.
+   */
+  getEffectiveRules(migration: Pick<Migration, 'id' | 'filename'>): Rule[] {
+    if (this.isIgnored(migration)) {
+      return [];
+    }
+
+    return this.getConfiguredRules(migration);
+  }
+
+  /** The enabled rules once every override matching the migration is applied, whatever its ID */
+  private getConfiguredRules(migration: Pick<Migration, 'id' | 'filename'>): Rule[] {
+    const overrides = (this.options.overrides ?? []).filter(override => this.matchesOverride(override, migration));
+    if (overrides.length === 0) {
+      return this.getEnabledRules();
+    }
+
+    return this.rules
+      .map(rule => overrides.reduce((configured, override) => this.applyOverride(configured, override), rule))
+      .filter(rule => rule.enabled);
+  }
+
+  private isIgnored(migration: Pick<Migration, 'id'>): boolean {
+    return this.options.ignoreBefore !== undefined && migration.id.localeCompare(this.options.ignoreBefore) < 0;
+  }
+
+  /** Override patterns match the migration file or its directory, such as `2023*` */
+  private matchesOverride(override: ConfigOverride, migration: Pick<Migration, 'filename'>): boolean {
+    const filePath = path.relative(this.options.migrationsPath ?? '.', migration.filename);
+    const directory = path.dirname(filePath);
+
+    return [override.files].flat().some(pattern => minimatch(filePath, pattern) || minimatch(directory, pattern));
+  }
+
+  private applyOverride(rule: Rule, override: ConfigOverride): Rule {
+    const ruleConfig = override.rules[rule.id];
+    if (!ruleConfig) {
+      return rule;
+    }
+
+    const { enabled, severity, options } = mergeRuleConfig(
+      { enabled: rule.enabled, severity: rule.severity, options: rule.options },
+      ruleConfig
+    );
+    return { ...rule, enabled: enabled ?? rule.enabled, severity: severity ?? rule.severity, options };
+  }
+
   getAllRules(): Rule[] {
     return [...this.rules];
   }
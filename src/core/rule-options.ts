@@ -0,0 +1,97 @@
+import { Rule, RuleOptions, RuleOptionSchema, RuleOptionsSchema } from '../types';
+
+/**
+ * Fill in defaults from a rule's option schema for any option the
+ * configuration did not set.
+ */
+export function resolveRuleOptions(schema: RuleOptionsSchema | undefined, options: RuleOptions = {}): RuleOptions {
+  const resolved: RuleOptions = {};
+
+  for (const [name, option] of Object.entries(schema ?? {})) {
+    if (option.default !== undefined) {
+      resolved[name] = option.default;
+    }
+  }
+
+  return { ...resolved, ...options };
+}
+
+/**
+ * Check configured options against a rule's option schema, returning one
+ * message per problem (empty when the options are valid).
+ */
+export function validateRuleOptions(rule: Pick<Rule, 'id' | 'optionsSchema'>, options: unknown): string[] {
+  if (options === undefined) {
+    return [];
+  }
+
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    return [`rules.${rule.id}.options must be an object`];
+  }
+
+  const schema = rule.optionsSchema ?? {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(options)) {
+    const option = schema[name];
+    if (!option) {
+      const known = Object.keys(schema);
+      errors.push(known.length > 0
+        ? `rules.${rule.id}.options.${name} is not a known option (expected one of: ${known.join(', ')})`
+        : `rules.${rule.id} does not accept options, got "${name}"`);
+      continue;
+    }
+
+    const error = validateOptionValue(option, value);
+    if (error) {
+      errors.push(`rules.${rule.id}.options.${name} ${error}`);
+    }
+  }
+
+  return errors;
+}
+
+function validateOptionValue(option: RuleOptionSchema, value: unknown): string | undefined {
+  switch (option.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be a boolean';
+
+    case 'string':
+      return typeof value === 'string' ? validatePattern(option, [value]) : 'must be a string';
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return 'must be a number';
+      }
+      if (option.type === 'integer' && !Number.isInteger(value)) {
+        return 'must be an integer';
+      }
+      if (option.minimum !== undefined && value < option.minimum) {
+        return `must be at least ${option.minimum}`;
+      }
+      return undefined;
+
+    case 'string[]':
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        return 'must be an array of strings';
+      }
+      return validatePattern(option, value);
+  }
+}
+
+function validatePattern(option: RuleOptionSchema, values: string[]): string | undefined {
+  if (option.format !== 'regex') {
+    return undefined;
+  }
+
+  for (const value of values) {
+    try {
+      new RegExp(value);
+    } catch {
+      return `contains an invalid regular expression: ${value}`;
+    }
+  }
+
+  return undefined;
+}
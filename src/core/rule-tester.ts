@@ -0,0 +1,185 @@
+import { strict as assert } from 'assert';
+import type { DialectName } from 'sql-parser-cst';
+import { Migration, Rule, RuleOptions, Severity, Violation } from '../types';
+import { RuleEngine } from './rule-engine';
+import { INTERNAL_ERROR } from './diagnostics';
+import { SQLParser } from './sql-parser';
+import { validateRuleOptions } from './rule-options';
+
+export interface RuleTesterConfig {
+  /** Dialect the test SQL is parsed with (default: postgresql) */
+  dialect?: DialectName;
+}
+
+export interface ValidTestCase {
+  code: string;
+  name?: string;
+  options?: RuleOptions;
+  /** SQL of an earlier migration, replayed so the rule sees the schema it creates */
+  schema?: string;
+}
+
+export interface InvalidTestCase extends ValidTestCase {
+  /** The expected number of violations, or the expected details of each, in order */
+  errors: number | ExpectedViolation[];
+}
+
+/** Only the fields given are compared; messages can also be matched with a regular expression */
+export interface ExpectedViolation {
+  message?: string | RegExp;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  severity?: Severity;
+  ruleId?: string;
+  suggestion?: string;
+}
+
+export interface RuleTests {
+  valid: (string | ValidTestCase)[];
+  invalid: InvalidTestCase[];
+}
+
+type TestFunction = (name: string, fn: () => void | Promise<void>) => void;
+
+const MIGRATION_ID = '20240101000000';
+const SCHEMA_MIGRATION_ID = '20231231000000';
+
+/**
+ * Runs a rule against SQL snippets parsed by the real SQLParser, like
+ * ESLint's RuleTester: `run` registers one test per case with the test
+ * framework's `describe` and `it`, and `check` runs every case directly.
+ */
+export class RuleTester {
+  /** Test framework hooks, the globals of Jest, Mocha or Vitest by default */
+  static describe: TestFunction | undefined;
+  static it: TestFunction | undefined;
+
+  private parser: SQLParser;
+
+  constructor(private config: RuleTesterConfig = {}) {
+    this.parser = new SQLParser(config.dialect ?? 'postgresql');
+  }
+
+  run(rule: Rule, tests: RuleTests): void {
+    const describe = RuleTester.describe ?? (globalThis as { describe?: TestFunction }).describe;
+    const it = RuleTester.it ?? (globalThis as { it?: TestFunction }).it;
+    if (!describe || !it) {
+      throw new Error('RuleTester.run needs a test framework with describe and it; use check() without one');
+    }
+
+    describe(rule.id, () => {
+      describe('valid', () => {
+        for (const test of tests.valid) {
+          const testCase = typeof test === 'string' ? { code: test } : test;
+          it(testName(testCase), () => this.checkValid(rule, testCase));
+        }
+      });
+
+      describe('invalid', () => {
+        for (const testCase of tests.invalid) {
+          it(testName(testCase), () => this.checkInvalid(rule, testCase));
+        }
+      });
+    });
+  }
+
+  /** Run every case, rejecting with an assertion error at the first mismatch */
+  async check(rule: Rule, tests: RuleTests): Promise<void> {
+    for (const test of tests.valid) {
+      await this.checkValid(rule, typeof test === 'string' ? { code: test } : test);
+    }
+    for (const testCase of tests.invalid) {
+      await this.checkInvalid(rule, testCase);
+    }
+  }
+
+  private async checkValid(rule: Rule, testCase: ValidTestCase): Promise<void> {
+    const violations = await this.lint(rule, testCase);
+
+    assert.deepStrictEqual(
+      violations.map(describeViolation),
+      [],
+      `Expected no violations for valid code:\n${testCase.code}`
+    );
+  }
+
+  private async checkInvalid(rule: Rule, testCase: InvalidTestCase): Promise<void> {
+    const violations = await this.lint(rule, testCase);
+
+    if (typeof testCase.errors === 'number') {
+      assert.strictEqual(
+        violations.length,
+        testCase.errors,
+        `Expected ${testCase.errors} violation(s), got ${violations.length}:\n${violations.map(describeViolation).join('\n')}`
+      );
+      return;
+    }
+
+    assert.ok(testCase.errors.length > 0, 'Invalid cases must expect at least one violation');
+
+    const expected = testCase.errors;
+    const actual = violations.map((violation, index) => pickExpected(violation, expected[index] ?? expected[expected.length - 1]));
+    assert.deepStrictEqual(actual, expected.map((error, index) => matchMessage(error, violations[index])), `Violations differ for:\n${testCase.code}`);
+  }
+
+  private async lint(rule: Rule, testCase: ValidTestCase): Promise<Violation[]> {
+    // Like linter.addRule, rules without a schema receive their options unchecked
+    const errors = rule.optionsSchema ? validateRuleOptions(rule, testCase.options) : [];
+    if (errors.length > 0) {
+      throw new Error(`Invalid rule options:\n  ${errors.join('\n  ')}`);
+    }
+
+    const engine = new RuleEngine(
+      [{ ...rule, enabled: true, options: testCase.options ?? rule.options }],
+      { reportUnusedDirectives: false, parseErrors: 'off' }
+    );
+    const migration = this.createMigration(MIGRATION_ID, testCase.code);
+    const history = testCase.schema !== undefined ? [this.createMigration(SCHEMA_MIGRATION_ID, testCase.schema), migration] : [migration];
+
+    const result = await engine.analyzeMigrations([migration], history);
+
+    // A crash fails the test with the rule's own error rather than a count mismatch
+    const crash = result.violations.find(violation => violation.ruleId === INTERNAL_ERROR);
+    if (crash) {
+      throw Object.assign(new Error(crash.message), crash.stack ? { stack: crash.stack } : {});
+    }
+    return result.violations;
+  }
+
+  private createMigration(id: string, code: string): Migration {
+    return {
+      id,
+      filename: `${id}_test/migration.sql`,
+      content: code,
+      statements: this.parser.parseStatements(code),
+      comments: this.parser.parseComments(code)
+    };
+  }
+}
+
+function testName(testCase: ValidTestCase): string {
+  return testCase.name ?? testCase.code.replace(/\s+/g, ' ').trim();
+}
+
+function describeViolation(violation: Violation): string {
+  return `${violation.line}:${violation.column} ${violation.ruleId}: ${violation.message}`;
+}
+
+/** The fields of a violation that the expectation names */
+function pickExpected(violation: Violation, expected: ExpectedViolation): ExpectedViolation {
+  const picked: Record<string, unknown> = {};
+  for (const key of Object.keys(expected)) {
+    picked[key] = violation[key as keyof Violation];
+  }
+  return picked;
+}
+
+/** The expectation, with a message pattern replaced by the message it matches */
+function matchMessage(expected: ExpectedViolation, violation: Violation | undefined): ExpectedViolation {
+  if (expected.message instanceof RegExp && violation && expected.message.test(violation.message)) {
+    return { ...expected, message: violation.message };
+  }
+  return expected;
+}
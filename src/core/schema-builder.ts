@@ -0,0 +1,657 @@
+import { DialectName } from 'sql-parser-cst';
+import { Column, Constraint, DatabaseSchema, Index, Migration, SQLStatement, Table } from '../types';
+import { SQLToken, SQLTokenizer } from './sql-tokenizer';
+
+interface Token {
+  /** Identifier name without quotes, or the raw text of any other token */
+  value: string;
+  /** Upper-cased value for keyword comparisons; empty for quoted identifiers and strings */
+  keyword: string;
+  start: number;
+  end: number;
+}
+
+// Keywords that end the data type of a column definition
+const COLUMN_CONSTRAINT_KEYWORDS = new Set([
+  'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'CONSTRAINT', 'COLLATE',
+  'GENERATED', 'AUTO_INCREMENT', 'AUTOINCREMENT', 'COMMENT', 'ON', 'IDENTITY'
+]);
+
+const TABLE_CONSTRAINT_KEYWORDS = new Set(['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE']);
+
+/**
+ * Replays migrations into a `DatabaseSchema`. Statements are read from their
+ * tokens rather than with the CST parser, which rejects common Prisma output
+ * such as enum-typed columns and `CREATE INDEX ... USING`.
+ */
+export class SchemaBuilder {
+  private schema: DatabaseSchema = { tables: [], indexes: [], constraints: [] };
+  private sql = '';
+  private migrationId?: string;
+  private tokenizer: SQLTokenizer;
+
+  constructor(dialect: DialectName = 'postgresql') {
+    this.tokenizer = new SQLTokenizer(dialect);
+  }
+
+  /** Replay migrations in ID order and return the resulting schema */
+  static replay(migrations: Migration[], dialect?: DialectName): DatabaseSchema {
+    const builder = new SchemaBuilder(dialect);
+    for (const migration of [...migrations].sort((a, b) => a.id.localeCompare(b.id))) {
+      builder.applyMigration(migration);
+    }
+    return builder.getSchema();
+  }
+
+  /** Constraints declared by a single statement, read against an empty schema */
+  static constraintsIn(statement: SQLStatement, dialect?: DialectName): Constraint[] {
+    const builder = new SchemaBuilder(dialect);
+    builder.applyStatement(statement);
+    return builder.getSchema().constraints;
+  }
+
+  applyMigration(migration: Migration): void {
+    for (const statement of migration.statements) {
+      this.applyStatement(statement, migration.id);
+    }
+  }
+
+  applyStatement(statement: SQLStatement, migrationId?: string): void {
+    this.sql = statement.content;
+    this.migrationId = migrationId;
+
+    const tokens = this.tokenizer.tokenize(statement.content).flatMap(toReaderToken);
+    const reader = new TokenReader(tokens);
+
+    try {
+      if (reader.accept('CREATE')) {
+        this.applyCreate(reader);
+      } else if (reader.accept('ALTER')) {
+        this.applyAlter(reader);
+      } else if (reader.accept('DROP')) {
+        this.applyDrop(reader);
+      }
+    } catch {
+      // Statements the reader does not understand leave the schema unchanged
+    }
+  }
+
+  /** A snapshot of the schema that later statements will not modify */
+  getSchema(): DatabaseSchema {
+    return {
+      tables: this.schema.tables.map(table => ({ ...table, columns: table.columns.map(column => ({ ...column })) })),
+      indexes: this.schema.indexes.map(index => ({ ...index, columns: [...index.columns] })),
+      constraints: this.schema.constraints.map(constraint => ({
+        ...constraint,
+        columns: [...constraint.columns],
+        ...(constraint.referencedColumns ? { referencedColumns: [...constraint.referencedColumns] } : {})
+      }))
+    };
+  }
+
+  private applyCreate(reader: TokenReader): void {
+    reader.accept('OR', 'REPLACE');
+    reader.acceptAny('TEMP', 'TEMPORARY', 'UNLOGGED');
+
+    if (reader.accept('TABLE')) {
+      reader.accept('IF', 'NOT', 'EXISTS');
+      this.createTable(reader);
+      return;
+    }
+
+    const unique = reader.accept('UNIQUE');
+    if (reader.accept('INDEX')) {
+      reader.accept('CONCURRENTLY');
+      reader.accept('IF', 'NOT', 'EXISTS');
+      const name = reader.peek()?.keyword === 'ON' ? undefined : reader.qualifiedName();
+      reader.expect('ON');
+      reader.accept('ONLY');
+      const tableName = reader.qualifiedName();
+      if (reader.accept('USING')) reader.next();
+
+      const columns = this.readIndexColumns(reader);
+      this.addIndex({ name: name ?? `${tableName}_${columns.join('_')}_idx`, tableName, columns, unique });
+    }
+  }
+
+  private createTable(reader: TokenReader): void {
+    const name = reader.qualifiedName();
+    if (!reader.accept('(')) {
+      return; // CREATE TABLE ... AS SELECT / LIKE
+    }
+
+    this.dropTable(name);
+    this.schema.tables.push({ name, columns: [], createdIn: this.migrationId });
+
+    for (const item of reader.list()) {
+      const itemReader = new TokenReader(item);
+      if (TABLE_CONSTRAINT_KEYWORDS.has(itemReader.peek()?.keyword ?? '')) {
+        this.addTableConstraint(name, itemReader);
+      } else {
+        this.addColumn(name, itemReader);
+      }
+    }
+  }
+
+  private applyAlter(reader: TokenReader): void {
+    if (reader.accept('INDEX')) {
+      reader.accept('IF', 'EXISTS');
+      const oldName = reader.qualifiedName();
+      if (reader.accept('RENAME', 'TO')) {
+        this.renameIndex(oldName, reader.qualifiedName());
+      }
+      return;
+    }
+
+    if (!reader.accept('TABLE')) {
+      return;
+    }
+
+    reader.accept('IF', 'EXISTS');
+    reader.accept('ONLY');
+    let tableName = reader.qualifiedName();
+
+    for (const action of reader.list(false)) {
+      const actionReader = new TokenReader(action);
+      tableName = this.applyAlterAction(tableName, actionReader);
+    }
+  }
+
+  /** Apply one ALTER TABLE action, returning the (possibly renamed) table name */
+  private applyAlterAction(tableName: string, reader: TokenReader): string {
+    if (reader.accept('ADD')) {
+      const next = reader.peek()?.keyword ?? '';
+      if (next === 'COLUMN') {
+        reader.next();
+        reader.accept('IF', 'NOT', 'EXISTS');
+        this.addColumn(tableName, reader);
+      } else if (TABLE_CONSTRAINT_KEYWORDS.has(next)) {
+        this.addTableConstraint(tableName, reader);
+      } else {
+        this.addColumn(tableName, reader);
+      }
+      return tableName;
+    }
+
+    if (reader.accept('DROP')) {
+      if (reader.accept('CONSTRAINT') || reader.accept('FOREIGN', 'KEY') || reader.accept('CHECK')) {
+        reader.accept('IF', 'EXISTS');
+        this.dropConstraint(tableName, reader.name());
+      } else if (reader.accept('PRIMARY', 'KEY')) {
+        const primaryKey = this.schema.constraints.find(c => sameName(c.tableName, tableName) && c.type === 'PRIMARY KEY');
+        if (primaryKey) this.dropConstraint(tableName, primaryKey.name);
+      } else if (reader.acceptAny('INDEX', 'KEY')) {
+        this.dropIndex(reader.name());
+      } else {
+        reader.accept('COLUMN');
+        reader.accept('IF', 'EXISTS');
+        this.dropColumn(tableName, reader.name());
+      }
+      return tableName;
+    }
+
+    if (reader.accept('ALTER')) {
+      reader.accept('COLUMN');
+      this.alterColumn(tableName, reader.name(), reader);
+      return tableName;
+    }
+
+    if (reader.accept('MODIFY')) {
+      reader.accept('COLUMN');
+      const name = reader.peek()!.value;
+      this.dropColumn(tableName, name, false);
+      this.addColumn(tableName, reader);
+      return tableName;
+    }
+
+    if (reader.accept('CHANGE')) {
+      reader.accept('COLUMN');
+      const oldName = reader.name();
+      const newName = reader.peek()!.value;
+      this.renameColumn(tableName, oldName, newName);
+      this.dropColumn(tableName, newName, false);
+      this.addColumn(tableName, reader);
+      return tableName;
+    }
+
+    if (reader.accept('RENAME')) {
+      if (reader.accept('TO') || reader.accept('AS')) {
+        const newName = reader.qualifiedName();
+        this.renameTable(tableName, newName);
+        return newName;
+      }
+      if (reader.acceptAny('INDEX', 'KEY')) {
+        const oldName = reader.name();
+        reader.expect('TO');
+        this.renameIndex(oldName, reader.name());
+        return tableName;
+      }
+      if (reader.accept('CONSTRAINT')) {
+        const oldName = reader.name();
+        reader.expect('TO');
+        const constraint = this.findConstraint(tableName, oldName);
+        if (constraint) constraint.name = reader.name();
+        return tableName;
+      }
+      reader.accept('COLUMN');
+      const oldName = reader.name();
+      reader.expect('TO');
+      this.renameColumn(tableName, oldName, reader.name());
+    }
+
+    return tableName;
+  }
+
+  private alterColumn(tableName: string, columnName: string, reader: TokenReader): void {
+    const column = this.findColumn(tableName, columnName);
+    if (!column) return;
+
+    if (reader.accept('SET', 'NOT', 'NULL')) {
+      column.nullable = false;
+    } else if (reader.accept('DROP', 'NOT', 'NULL')) {
+      column.nullable = true;
+    } else if (reader.accept('SET', 'DEFAULT')) {
+      column.defaultValue = this.readExpression(reader);
+    } else if (reader.accept('DROP', 'DEFAULT')) {
+      delete column.defaultValue;
+    } else if (reader.accept('SET', 'DATA', 'TYPE') || reader.accept('TYPE')) {
+      column.type = this.readDataType(reader, new Set(['USING', 'COLLATE']));
+    }
+  }
+
+  private applyDrop(reader: TokenReader): void {
+    if (reader.accept('TABLE')) {
+      reader.accept('IF', 'EXISTS');
+      for (const item of reader.list(false)) {
+        this.dropTable(new TokenReader(item).qualifiedName());
+      }
+    } else if (reader.accept('INDEX')) {
+      reader.accept('CONCURRENTLY');
+      reader.accept('IF', 'EXISTS');
+      for (const item of reader.list(false)) {
+        this.dropIndex(new TokenReader(item).qualifiedName());
+      }
+    }
+  }
+
+  private addColumn(tableName: string, reader: TokenReader): void {
+    const table = this.findTable(tableName);
+    if (!table) return;
+
+    const name = reader.name();
+    const column: Column = {
+      name,
+      type: this.readDataType(reader, COLUMN_CONSTRAINT_KEYWORDS),
+      nullable: true,
+      isPrimaryKey: false,
+      isForeignKey: false
+    };
+    table.columns = table.columns.filter(c => !sameName(c.name, name));
+    table.columns.push(column);
+
+    let constraintName: string | undefined;
+    while (!reader.done()) {
+      if (reader.accept('CONSTRAINT')) {
+        constraintName = reader.name();
+      } else if (reader.accept('NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (reader.accept('NULL')) {
+        column.nullable = true;
+      } else if (reader.accept('DEFAULT')) {
+        column.defaultValue = this.readExpression(reader);
+      } else if (reader.accept('PRIMARY', 'KEY')) {
+        this.addConstraint({ name: constraintName ?? `${tableName}_pkey`, type: 'PRIMARY KEY', tableName, columns: [name] });
+        constraintName = undefined;
+      } else if (reader.accept('UNIQUE')) {
+        reader.acceptAny('KEY', 'INDEX');
+        this.addConstraint({ name: constraintName ?? `${tableName}_${name}_key`, type: 'UNIQUE', tableName, columns: [name] });
+        constraintName = undefined;
+      } else if (reader.accept('REFERENCES')) {
+        const referencedTable = reader.qualifiedName();
+        const referencedColumns = reader.peek()?.value === '(' ? this.readColumnList(reader) : [];
+        this.addConstraint({
+          name: constraintName ?? `${tableName}_${name}_fkey`,
+          type: 'FOREIGN KEY',
+          tableName,
+          columns: [name],
+          referencedTable,
+          referencedColumns
+        });
+        constraintName = undefined;
+      } else {
+        reader.skipTerm();
+      }
+    }
+  }
+
+  private addTableConstraint(tableName: string, reader: TokenReader): void {
+    const explicitName = reader.accept('CONSTRAINT') ? reader.name() : undefined;
+
+    if (reader.accept('PRIMARY', 'KEY')) {
+      const columns = this.readColumnList(reader);
+      this.addConstraint({ name: explicitName ?? `${tableName}_pkey`, type: 'PRIMARY KEY', tableName, columns });
+    } else if (reader.accept('UNIQUE')) {
+      const indexName = reader.acceptAny('KEY', 'INDEX') && reader.peek()?.value !== '(' ? reader.name() : undefined;
+      const columns = this.readColumnList(reader);
+      this.addConstraint({ name: explicitName ?? indexName ?? `${tableName}_${columns.join('_')}_key`, type: 'UNIQUE', tableName, columns });
+    } else if (reader.accept('FOREIGN', 'KEY')) {
+      const indexName = reader.peek()?.value !== '(' ? reader.name() : undefined;
+      const columns = this.readColumnList(reader);
+      reader.expect('REFERENCES');
+      const referencedTable = reader.qualifiedName();
+      const referencedColumns = reader.peek()?.value === '(' ? this.readColumnList(reader) : [];
+      this.addConstraint({
+        name: explicitName ?? indexName ?? `${tableName}_${columns.join('_')}_fkey`,
+        type: 'FOREIGN KEY',
+        tableName,
+        columns,
+        referencedTable,
+        referencedColumns
+      });
+    } else if (reader.accept('CHECK')) {
+      this.addConstraint({ name: explicitName ?? `${tableName}_check`, type: 'CHECK', tableName, columns: [] });
+    } else if (reader.acceptAny('KEY', 'INDEX')) {
+      // MySQL inline index definition
+      const name = reader.peek()?.value !== '(' ? reader.name() : undefined;
+      const columns = this.readIndexColumns(reader);
+      this.addIndex({ name: name ?? `${tableName}_${columns.join('_')}_idx`, tableName, columns, unique: false });
+    }
+  }
+
+  private readDataType(reader: TokenReader, stopKeywords: Set<string>): string {
+    const start = reader.peek()?.start;
+    let end = start;
+
+    while (!reader.done() && !stopKeywords.has(reader.peek()!.keyword)) {
+      end = reader.skipTerm().end;
+    }
+
+    return start === undefined || end === undefined ? '' : this.sql.slice(start, end);
+  }
+
+  private readExpression(reader: TokenReader): string {
+    const start = reader.peek()?.start;
+    let end = start;
+
+    // Stop at the next column constraint, but not at NULL/NOT used inside the expression itself
+    while (!reader.done() && !(COLUMN_CONSTRAINT_KEYWORDS.has(reader.peek()!.keyword) && end !== start)) {
+      end = reader.skipTerm().end;
+    }
+
+    return start === undefined || end === undefined ? '' : this.sql.slice(start, end);
+  }
+
+  private readColumnList(reader: TokenReader): string[] {
+    reader.expect('(');
+    return reader.list().map(item => item[0]?.value).filter((name): name is string => Boolean(name));
+  }
+
+  private readIndexColumns(reader: TokenReader): string[] {
+    reader.expect('(');
+    return reader.list().map(item => {
+      // Plain columns (optionally followed by ASC/DESC or an operator class) keep their name; expressions keep their text
+      if (item[0].keyword !== '(' && item[1]?.value !== '(') {
+        return item[0].value;
+      }
+      return this.sql.slice(item[0].start, item[item.length - 1].end);
+    });
+  }
+
+  private findTable(name: string): Table | undefined {
+    return findTable(this.schema, name);
+  }
+
+  private findColumn(tableName: string, columnName: string): Column | undefined {
+    return this.findTable(tableName)?.columns.find(c => sameName(c.name, columnName));
+  }
+
+  private findConstraint(tableName: string, name: string): Constraint | undefined {
+    return this.schema.constraints.find(c => sameName(c.tableName, tableName) && sameName(c.name, name));
+  }
+
+  private addIndex(index: Index): void {
+    this.dropIndex(index.name);
+    this.schema.indexes.push(index);
+  }
+
+  private addConstraint(constraint: Constraint): void {
+    this.schema.constraints = this.schema.constraints.filter(c => !(sameName(c.tableName, constraint.tableName) && sameName(c.name, constraint.name)));
+    this.schema.constraints.push(constraint);
+    this.updateKeyFlags(constraint.tableName);
+  }
+
+  private dropTable(name: string): void {
+    this.schema.tables = this.schema.tables.filter(t => !sameName(t.name, name));
+    this.schema.indexes = this.schema.indexes.filter(i => !sameName(i.tableName, name));
+    this.schema.constraints = this.schema.constraints.filter(c => !sameName(c.tableName, name));
+  }
+
+  private dropIndex(name: string): void {
+    this.schema.indexes = this.schema.indexes.filter(i => !sameName(i.name, name));
+  }
+
+  private dropConstraint(tableName: string, name: string): void {
+    this.schema.constraints = this.schema.constraints.filter(c => !(sameName(c.tableName, tableName) && sameName(c.name, name)));
+    this.updateKeyFlags(tableName);
+  }
+
+  /**
+   * Remove a column along with the indexes and constraints that use it, as
+   * the database would. `cascade` is off when a column is being redefined.
+   */
+  private dropColumn(tableName: string, columnName: string, cascade: boolean = true): void {
+    const table = this.findTable(tableName);
+    if (!table) return;
+
+    table.columns = table.columns.filter(c => !sameName(c.name, columnName));
+    if (!cascade) return;
+
+    const usesColumn = (item: Index | Constraint) => sameName(item.tableName, tableName) && item.columns.some(c => sameName(c, columnName));
+    this.schema.indexes = this.schema.indexes.filter(i => !usesColumn(i));
+    this.schema.constraints = this.schema.constraints.filter(c => !usesColumn(c));
+    this.updateKeyFlags(tableName);
+  }
+
+  private renameTable(oldName: string, newName: string): void {
+    const table = this.findTable(oldName);
+    if (!table) return;
+
+    table.name = newName;
+    for (const index of this.schema.indexes.filter(i => sameName(i.tableName, oldName))) {
+      index.tableName = newName;
+    }
+    for (const constraint of this.schema.constraints) {
+      if (sameName(constraint.tableName, oldName)) constraint.tableName = newName;
+      if (constraint.referencedTable && sameName(constraint.referencedTable, oldName)) constraint.referencedTable = newName;
+    }
+  }
+
+  private renameColumn(tableName: string, oldName: string, newName: string): void {
+    const column = this.findColumn(tableName, oldName);
+    if (!column) return;
+
+    column.name = newName;
+    const rename = (columns: string[]) => columns.map(c => (sameName(c, oldName) ? newName : c));
+    for (const index of this.schema.indexes.filter(i => sameName(i.tableName, tableName))) {
+      index.columns = rename(index.columns);
+    }
+    for (const constraint of this.schema.constraints) {
+      if (sameName(constraint.tableName, tableName)) constraint.columns = rename(constraint.columns);
+      if (constraint.referencedTable && sameName(constraint.referencedTable, tableName) && constraint.referencedColumns) {
+        constraint.referencedColumns = rename(constraint.referencedColumns);
+      }
+    }
+  }
+
+  private renameIndex(oldName: string, newName: string): void {
+    const index = this.schema.indexes.find(i => sameName(i.name, oldName));
+    if (index) index.name = newName;
+  }
+
+  private updateKeyFlags(tableName: string): void {
+    const table = this.findTable(tableName);
+    if (!table) return;
+
+    const constraints = this.schema.constraints.filter(c => sameName(c.tableName, tableName));
+    const covered = (type: string, column: Column) =>
+      constraints.some(c => c.type === type && c.columns.some(name => sameName(name, column.name)));
+
+    for (const column of table.columns) {
+      column.isPrimaryKey = covered('PRIMARY KEY', column);
+      column.isForeignKey = covered('FOREIGN KEY', column);
+      if (column.isPrimaryKey) column.nullable = false;
+    }
+  }
+}
+
+/** Compare identifiers the way most databases resolve unquoted names */
+export function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export function findTable(schema: DatabaseSchema, name: string): Table | undefined {
+  return schema.tables.find(table => sameName(table.name, name));
+}
+
+export function findColumn(schema: DatabaseSchema, tableName: string, columnName: string): Column | undefined {
+  return findTable(schema, tableName)?.columns.find(column => sameName(column.name, columnName));
+}
+
+/**
+ * Whether an index, primary key or unique constraint on the table has the
+ * given columns (in any order) as its leading columns, so it can serve
+ * lookups on them.
+ */
+export function hasIndexOn(schema: DatabaseSchema, tableName: string, columns: string[]): boolean {
+  const covers = (indexColumns: string[]) =>
+    indexColumns.length >= columns.length &&
+    columns.every(column => indexColumns.slice(0, columns.length).some(c => sameName(c, column)));
+
+  return schema.indexes.some(index => sameName(index.tableName, tableName) && covers(index.columns)) ||
+    schema.constraints.some(constraint =>
+      sameName(constraint.tableName, tableName) &&
+      (constraint.type === 'PRIMARY KEY' || constraint.type === 'UNIQUE') &&
+      covers(constraint.columns)
+    );
+}
+
+class TokenReader {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  done(): boolean {
+    return this.position >= this.tokens.length || this.tokens[this.position].value === ';';
+  }
+
+  peek(): Token | undefined {
+    return this.done() ? undefined : this.tokens[this.position];
+  }
+
+  next(): Token {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('Unexpected end of statement');
+    }
+    this.position++;
+    return token;
+  }
+
+  /** Consume the keywords if they all follow, in order */
+  accept(...keywords: string[]): boolean {
+    const matches = keywords.every((keyword, i) => this.tokens[this.position + i]?.keyword === keyword);
+    if (matches) {
+      this.position += keywords.length;
+    }
+    return matches;
+  }
+
+  acceptAny(...keywords: string[]): boolean {
+    return keywords.some(keyword => this.accept(keyword));
+  }
+
+  expect(keyword: string): void {
+    if (!this.accept(keyword)) {
+      throw new Error(`Expected ${keyword}`);
+    }
+  }
+
+  name(): string {
+    const token = this.next();
+    if (token.keyword !== '' && !/^[\w$]/.test(token.value)) {
+      throw new Error(`Expected a name, got "${token.value}"`);
+    }
+    return token.value;
+  }
+
+  /** Read a possibly schema-qualified name, returning its last part */
+  qualifiedName(): string {
+    let name = this.name();
+    while (this.peek()?.value === '.') {
+      this.next();
+      name = this.name();
+    }
+    return name;
+  }
+
+  /** Skip one token, or a whole parenthesized group, returning the last token consumed */
+  skipTerm(): Token {
+    let token = this.next();
+    if (token.value !== '(') return token;
+
+    let depth = 1;
+    while (depth > 0) {
+      token = this.next();
+      if (token.value === '(') depth++;
+      if (token.value === ')') depth--;
+    }
+    return token;
+  }
+
+  /**
+   * Split the remaining tokens into comma-separated items. When `enclosed`,
+   * the list is inside parentheses whose opening token was already consumed.
+   */
+  list(enclosed: boolean = true): Token[][] {
+    const items: Token[][] = [[]];
+    let depth = 0;
+
+    while (!this.done()) {
+      const token = this.next();
+      if (token.value === '(') depth++;
+      if (token.value === ')') {
+        if (depth === 0 && enclosed) break;
+        depth--;
+      }
+      if (token.value === ',' && depth === 0) {
+        items.push([]);
+        continue;
+      }
+      items[items.length - 1].push(token);
+    }
+
+    return items.filter(item => item.length > 0);
+  }
+}
+
+/** The reader's view of a token; whitespace, comments and `DELIMITER` commands are dropped */
+function toReaderToken(token: SQLToken): Token[] {
+  const position = { start: token.start, end: token.start + token.text.length };
+
+  switch (token.type) {
+    case 'word':
+    case 'punctuation':
+      return [{ value: token.text, keyword: token.text.toUpperCase(), ...position }];
+    case 'delimiter':
+      // Custom MySQL delimiters end the statement like a semicolon
+      return [{ value: ';', keyword: ';', ...position }];
+    case 'quoted-identifier': {
+      const quote = token.text[0];
+      return [{ value: token.text.slice(1, -1).split(quote + quote).join(quote), keyword: '', ...position }];
+    }
+    case 'string':
+      return [{ value: token.text, keyword: '', ...position }];
+    default:
+      return [];
+  }
+}
@@ -1,148 +1,148 @@
 import { DialectName, parse } from 'sql-parser-cst';
-import { SQLStatement } from '../types';
+import { ParseError, SQLComment, SQLStatement } from '../types';
+import { SQLToken, SQLTokenizer, SQLTokenType } from './sql-tokenizer';
+import { Profiler } from './profiler';
+
+const NON_SQL_TOKENS = new Set<SQLTokenType>(['whitespace', 'line-comment', 'block-comment', 'delimiter-command']);
+
+interface StatementSource {
+  text: string;
+  /** Offset, line and column of the first character in the file */
+  start: number;
+  line: number;
+  column: number;
+}
 
 export class SQLParser {
+  private tokenizer: SQLTokenizer;
+
   constructor(
     public dialect: DialectName,
-  ) {}
+    private profiler?: Profiler
+  ) {
+    this.tokenizer = new SQLTokenizer(dialect);
+  }
 
-  parseStatements(content: string): SQLStatement[] {
+  /** Split and parse a file's statements; `filePath` names the file in timing reports */
+  parseStatements(content: string, filePath?: string): SQLStatement[] {
+    const start = Profiler.now();
     const statements: SQLStatement[] = [];
-    
-    // Split content by semicolons, but be careful with strings and comments
-    const rawStatements = this.splitSQLStatements(content);
-    
-    let lineNumber = 1;
-    
-    for (const rawStatement of rawStatements) {
-      const trimmed = rawStatement.trim();
-      
-      // Skip empty statements or pure comment blocks
-      if (!trimmed) {
-        lineNumber += (rawStatement.match(/\n/g) || []).length;
-        continue;
-      }
-      
-      // Check if this is a pure comment (starts with -- and has no SQL)
-      const lines = trimmed.split('\n');
-      const sqlLines = lines.filter(line => {
-        const lineTrimmed = line.trim();
-        return lineTrimmed && !lineTrimmed.startsWith('--') && !lineTrimmed.startsWith('/*');
-      });
-      
-      if (sqlLines.length === 0) {
-        // This is a pure comment block, skip it
-        lineNumber += (rawStatement.match(/\n/g) || []).length;
-        continue;
-      }
-      
-      // Extract just the SQL part (remove comment lines)
-      const sqlContent = sqlLines.join('\n').trim();
-      
-      if (!sqlContent) {
-        lineNumber += (rawStatement.match(/\n/g) || []).length;
-        continue;
-      }
+
+    // Statements keep their exact source text, so that parser ranges map back to the file
+    for (const source of this.splitSQLStatements(content)) {
+      const position = { startLine: source.line, startColumn: source.column, startOffset: source.start };
+      const endLine = source.line + (source.text.match(/\n/g) || []).length;
 
       try {
-        const ast = parse(sqlContent, { dialect: this.dialect });
+        const ast = parse(source.text, { dialect: this.dialect, includeRange: true });
         const statement: SQLStatement = {
-          type: this.getStatementType(sqlContent),
-          content: sqlContent,
-          startLine: lineNumber,
-          endLine: lineNumber + (rawStatement.match(/\n/g) || []).length,
+          type: this.getStatementType(source.text),
+          content: source.text,
+          ...position,
+          endLine,
           ast
         };
         statements.push(statement);
-      } catch (_error) {
-        // If parsing fails, still create a statement for linting
+      } catch (error) {
+        // If parsing fails, still create a statement for linting and keep the reason
         const statement: SQLStatement = {
-          type: this.getStatementType(sqlContent),
-          content: sqlContent,
-          startLine: lineNumber,
-          endLine: lineNumber + (rawStatement.match(/\n/g) || []).length,
-          ast: null
+          type: this.getStatementType(source.text),
+          content: source.text,
+          ...position,
+          endLine,
+          ast: null,
+          parseError: this.describeParseError(error, source)
         };
         statements.push(statement);
       }
-      
-      lineNumber += (rawStatement.match(/\n/g) || []).length;
     }
-    
+
+    if (this.profiler && filePath !== undefined) {
+      this.profiler.recordParse(filePath, Profiler.now() - start);
+    }
     return statements;
   }
 
-  private splitSQLStatements(content: string): string[] {
-    const statements: string[] = [];
-    let current = '';
-    let inString = false;
-    let stringChar = '';
-    let inComment = false;
-    let commentType = '';
-    
-    for (let i = 0; i < content.length; i++) {
-      const char = content[i];
-      const nextChar = content[i + 1];
-      
-      // Handle comments
-      if (!inString && !inComment) {
-        if (char === '-' && nextChar === '-') {
-          inComment = true;
-          commentType = 'line';
-          current += char;
-          continue;
-        }
-        if (char === '/' && nextChar === '*') {
-          inComment = true;
-          commentType = 'block';
-          current += char;
-          continue;
-        }
-      }
-      
-      if (inComment) {
-        current += char;
-        if (commentType === 'line' && char === '\n') {
-          inComment = false;
-        } else if (commentType === 'block' && char === '*' && nextChar === '/') {
-          current += nextChar;
-          i++; // Skip the next character
-          inComment = false;
-        }
-        continue;
-      }
-      
-      // Handle strings
-      if (!inString && (char === "'" || char === '"')) {
-        inString = true;
-        stringChar = char;
-        current += char;
-        continue;
+  /**
+   * The parser's message and position for a statement it rejected. The
+   * parser reports positions relative to the statement text, as
+   * `--> file:line:column`.
+   */
+  private describeParseError(error: unknown, source: StatementSource): ParseError {
+    const text = error instanceof Error ? error.message : String(error);
+    const message = text.split('\n')[0].replace(/^Syntax Error:\s*/, '').trim();
+    const location = /^-->.*:(\d+):(\d+)\s*$/m.exec(text);
+    const line = location ? Number(location[1]) : 1;
+    const column = location ? Number(location[2]) : 1;
+
+    return {
+      message: message || 'Syntax error',
+      line: source.line + line - 1,
+      column: line === 1 ? source.column + column - 1 : column
+    };
+  }
+
+  /**
+   * Extract every comment in the file with its position, so that directives
+   * and other comment metadata survive statement parsing.
+   */
+  parseComments(content: string): SQLComment[] {
+    const comments: SQLComment[] = [];
+
+    for (const token of this.tokenizer.tokenize(content)) {
+      if (token.type === 'line-comment') {
+        comments.push({
+          type: 'line',
+          text: token.text.replace(/^(--|#)/, '').trim(),
+          line: token.line,
+          endLine: token.line,
+          column: token.column
+        });
+      } else if (token.type === 'block-comment') {
+        comments.push({
+          type: 'block',
+          text: token.text.replace(/^\/\*/, '').replace(/\*\/$/, '').trim(),
+          line: token.line,
+          endLine: token.line + (token.text.match(/\n/g) ?? []).length,
+          column: token.column
+        });
       }
-      
-      if (inString) {
-        current += char;
-        if (char === stringChar && content[i - 1] !== '\\') {
-          inString = false;
-        }
-        continue;
+    }
+
+    return comments;
+  }
+
+  /**
+   * Split the file into statements, each running from its first SQL token to
+   * its delimiter. Comments and whitespace between statements are left out,
+   * and so are MySQL `DELIMITER` commands; a custom delimiter is replaced by
+   * `;` so that the text reaching the parser is plain SQL.
+   */
+  private splitSQLStatements(content: string): StatementSource[] {
+    const statements: StatementSource[] = [];
+    let first: SQLToken | undefined;
+    let last: SQLToken | undefined;
+
+    // A lone delimiter, without any SQL before it, is not a statement
+    const finish = (end: number, delimiter: string) => {
+      if (first) {
+        statements.push({ text: content.slice(first.start, end) + delimiter, start: first.start, line: first.line, column: first.column });
       }
-      
-      // Handle statement termination
-      if (char === ';') {
-        current += char;
-        statements.push(current);
-        current = '';
-        continue;
+      first = undefined;
+      last = undefined;
+    };
+
+    for (const token of this.tokenizer.tokenize(content)) {
+      if (token.type === 'delimiter') {
+        finish(token.start, ';');
+      } else if (!NON_SQL_TOKENS.has(token.type)) {
+        first ??= token;
+        last = token;
       }
-      
-      current += char;
-    }
-    
-    // Add remaining content if any
-    if (current.trim()) {
-      statements.push(current);
     }
+
+    // A final statement without a delimiter ends at its last SQL token
+    finish(last ? last.start + last.text.length : 0, '');
     
     return statements;
   }
@@ -0,0 +1,324 @@
+import { cstVisitor, Node, parse, Program, ReferencesSpecification, VisitorAction } from 'sql-parser-cst';
+import { SQLStatement } from '../types';
+
+export type NodeType = Node['type'];
+export type NodeOfType<T extends NodeType> = Extract<Node, { type: T }>;
+
+/** Anything a query can start from: a statement, its AST or any node in it */
+export type QueryRoot = SQLStatement | Node | null | undefined;
+
+export interface ColumnDefinitionInfo {
+  name: string;
+  /** Declared NOT NULL, or implied by PRIMARY KEY */
+  notNull: boolean;
+  /** Declared NULL explicitly */
+  nullable: boolean;
+  hasDefault: boolean;
+  primaryKey: boolean;
+  unique: boolean;
+  comment?: string;
+  references?: ReferenceInfo;
+  node: NodeOfType<'column_definition'>;
+}
+
+export interface TableConstraintInfo {
+  name?: string;
+  type: 'PRIMARY KEY' | 'UNIQUE' | 'FOREIGN KEY' | 'CHECK' | 'INDEX' | 'EXCLUDE';
+  /** Table the constraint belongs to, when the enclosing statement names it */
+  tableName?: string;
+  columns: string[];
+  references?: ReferenceInfo;
+  /** Added with NOT VALID, so existing rows are not checked */
+  notValid: boolean;
+  node: Node;
+}
+
+export interface ReferenceInfo {
+  table: string;
+  columns: string[];
+  /** Referential actions such as `CASCADE` or `SET NULL`, when specified */
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+export interface SourceRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+const parsed = new WeakMap<SQLStatement, Program | null>();
+
+/**
+ * The parsed AST of a statement, or null when the parser could not read it
+ * and rules have to fall back to the statement text. Statements built by hand
+ * (custom tooling, tests) are parsed on first use with the PostgreSQL dialect.
+ */
+export function getAst(statement: SQLStatement): Program | null {
+  if (statement.ast !== undefined) {
+    return statement.ast ?? null;
+  }
+
+  if (!parsed.has(statement)) {
+    try {
+      parsed.set(statement, parse(statement.content, { dialect: 'postgresql', includeRange: true }));
+    } catch {
+      parsed.set(statement, null);
+    }
+  }
+  return parsed.get(statement) ?? null;
+}
+
+/** Every node of the given type under the root, in source order */
+export function findAll<T extends NodeType>(root: QueryRoot, type: T): NodeOfType<T>[] {
+  const node = toNode(root);
+  if (!node) {
+    return [];
+  }
+
+  const found: NodeOfType<T>[] = [];
+  cstVisitor({ [type]: (match: NodeOfType<T>) => { found.push(match); } })(node);
+  return found;
+}
+
+export function findFirst<T extends NodeType>(root: QueryRoot, type: T): NodeOfType<T> | undefined {
+  const node = toNode(root);
+  if (!node) {
+    return undefined;
+  }
+
+  let found: NodeOfType<T> | undefined;
+  cstVisitor({
+    [type]: (match: NodeOfType<T>) => {
+      found ??= match;
+      return VisitorAction.SKIP;
+    }
+  })(node);
+  return found;
+}
+
+export function hasNode(root: QueryRoot, type: NodeType): boolean {
+  return findFirst(root, type) !== undefined;
+}
+
+/** Unquoted name of an identifier, or the last part of a qualified name */
+export function identifierName(node: Node | undefined): string | undefined {
+  switch (node?.type) {
+    case 'identifier':
+      return node.name;
+    case 'member_expr':
+      return identifierName(node.property);
+    case 'index_specification':
+      return identifierName(node.expr);
+    default:
+      return undefined;
+  }
+}
+
+/** Names in a parenthesized column list such as `("a", "b")` */
+export function identifierList(node: NodeOfType<'paren_expr'> | undefined): string[] {
+  const list = node?.expr;
+  if (list?.type !== 'list_expr') {
+    return [];
+  }
+  return (list.items as Node[]).map(identifierName).filter((name): name is string => name !== undefined);
+}
+
+/** Upper-cased text of one keyword or a keyword sequence such as `SET NULL` */
+export function keywordText(keywords: NodeOfType<'keyword'> | NodeOfType<'keyword'>[] | undefined): string {
+  return [keywords ?? []].flat().map(keyword => keyword.name.toUpperCase()).join(' ');
+}
+
+/** The table a DDL or DML statement operates on (the first one, for lists) */
+export function tableName(root: QueryRoot): string | undefined {
+  const node = toNode(root);
+  const statement = node?.type === 'program' ? node.statements[0] : node;
+
+  switch (statement?.type) {
+    case 'create_table_stmt':
+      return identifierName(statement.name);
+    case 'alter_table_stmt':
+    case 'create_index_stmt':
+      return identifierName(statement.table);
+    case 'drop_table_stmt':
+      return identifierName(statement.tables.items[0]);
+    case 'insert_stmt':
+      return identifierName(findFirst(statement, 'insert_clause')?.table);
+    case 'update_stmt':
+    case 'delete_stmt': {
+      const clause = findFirst(statement, statement.type === 'update_stmt' ? 'update_clause' : 'delete_clause');
+      return identifierName(clause?.tables.items[0] as Node | undefined);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Column definitions from CREATE TABLE and ALTER TABLE ... ADD COLUMN */
+export function columnDefinitions(root: QueryRoot): ColumnDefinitionInfo[] {
+  return findAll(root, 'column_definition').map(node => {
+    const constraints = node.constraints.map(constraint => constraint.type === 'constraint' ? constraint.constraint : constraint);
+    const has = (type: NodeType) => constraints.some(constraint => constraint.type === type);
+    const comment = constraints.find(constraint => constraint.type === 'constraint_comment');
+    const references = constraints.find(constraint => constraint.type === 'references_specification');
+
+    return {
+      name: node.name.name,
+      notNull: has('constraint_not_null') || has('constraint_primary_key'),
+      nullable: has('constraint_null'),
+      hasDefault: has('constraint_default'),
+      primaryKey: has('constraint_primary_key'),
+      unique: has('constraint_unique'),
+      comment: comment?.type === 'constraint_comment' ? comment.value.value : undefined,
+      references: references?.type === 'references_specification' ? referenceInfo(references) : undefined,
+      node
+    };
+  });
+}
+
+/**
+ * Table-level constraints declared in CREATE TABLE or added with
+ * ALTER TABLE ... ADD CONSTRAINT. Column constraints are reported by
+ * `columnDefinitions` instead.
+ */
+export function tableConstraints(root: QueryRoot): TableConstraintInfo[] {
+  const constraints: TableConstraintInfo[] = [];
+
+  for (const statement of findAll(root, 'create_table_stmt')) {
+    const items = statement.columns?.expr.items ?? [];
+    for (const item of items as Node[]) {
+      if (item.type !== 'column_definition') {
+        pushConstraint(constraints, item, identifierName(statement.name));
+      }
+    }
+  }
+
+  for (const statement of findAll(root, 'alter_table_stmt')) {
+    for (const action of findAll(statement, 'alter_action_add_constraint')) {
+      pushConstraint(constraints, action.constraint, identifierName(statement.table));
+    }
+  }
+
+  return constraints;
+}
+
+/** The ON DELETE / ON UPDATE actions of a REFERENCES clause */
+export function referentialActions(references: ReferencesSpecification): { onDelete?: string; onUpdate?: string } {
+  const actions: { onDelete?: string; onUpdate?: string } = {};
+  for (const option of references.options) {
+    if (option.type === 'referential_action') {
+      actions[option.eventKw.name.toUpperCase() === 'DELETE' ? 'onDelete' : 'onUpdate'] = keywordText(option.actionKw);
+    }
+  }
+  return actions;
+}
+
+/** Whether the statement begins, commits or rolls back a transaction, and which */
+export function transactionControl(statement: SQLStatement): 'BEGIN' | 'COMMIT' | 'ROLLBACK' | undefined {
+  const ast = getAst(statement);
+  if (ast) {
+    const types = ast.statements.map(stmt => stmt.type);
+    if (types.includes('start_transaction_stmt')) return 'BEGIN';
+    if (types.includes('commit_transaction_stmt')) return 'COMMIT';
+    if (types.includes('rollback_transaction_stmt')) return 'ROLLBACK';
+    return undefined;
+  }
+
+  const content = maskLiterals(statement.content);
+  if (/^\s*(BEGIN|START\s+TRANSACTION)\b/i.test(content)) return 'BEGIN';
+  if (/^\s*(COMMIT|END)\b/i.test(content)) return 'COMMIT';
+  if (/^\s*ROLLBACK\b/i.test(content)) return 'ROLLBACK';
+  return undefined;
+}
+
+/** Position in the migration file of an offset into the statement text */
+export function positionAt(statement: SQLStatement, offset: number): { line: number; column: number } {
+  const before = statement.content.slice(0, offset);
+  const lineBreak = before.lastIndexOf('\n');
+
+  return {
+    line: statement.startLine + (before.match(/\n/g) ?? []).length,
+    column: lineBreak === -1 ? (statement.startColumn ?? 1) + before.length : before.length - lineBreak
+  };
+}
+
+/**
+ * Where a node sits in the migration file, from the parser's source ranges,
+ * or the whole statement without a node. The end column is exclusive.
+ */
+export function rangeOf(statement: SQLStatement, node?: Node): SourceRange {
+  const [start, end] = node?.range ?? [0, statement.content.length];
+  const { line, column } = positionAt(statement, start);
+  const { line: endLine, column: endColumn } = positionAt(statement, end);
+
+  return { line, column, endLine, endColumn };
+}
+
+/** Line of a node within the migration file, from the parser's source ranges */
+export function lineOf(statement: SQLStatement, node: Node): number {
+  return rangeOf(statement, node).line;
+}
+
+/**
+ * Statement text with comments and string literals blanked out (line breaks
+ * are kept), for rules falling back to text matching when the statement
+ * could not be parsed.
+ */
+export function maskLiterals(sql: string): string {
+  return sql.replace(/--[^\n]*|\/\*[\s\S]*?\*\/|'(?:[^']|'')*'/g, match =>
+    match.startsWith("'") ? `'${match.slice(1, -1).replace(/[^\n]/g, ' ')}'` : match.replace(/[^\n]/g, ' ')
+  );
+}
+
+function toNode(root: QueryRoot): Node | null {
+  if (!root) {
+    return null;
+  }
+  return 'content' in root && 'startLine' in root ? getAst(root as SQLStatement) : root as Node;
+}
+
+function pushConstraint(constraints: TableConstraintInfo[], node: Node, table: string | undefined): void {
+  const wrapper = node.type === 'constraint' ? node : undefined;
+  const constraint = wrapper ? wrapper.constraint as Node : node;
+  const base = {
+    name: identifierName(wrapper?.name?.name),
+    tableName: table,
+    notValid: wrapper?.modifiers.some(modifier => keywordText(modifier.kw) === 'NOT VALID') ?? false,
+    node: constraint
+  };
+
+  switch (constraint.type) {
+    case 'constraint_primary_key':
+      constraints.push({ ...base, type: 'PRIMARY KEY', columns: identifierList(constraint.columns) });
+      break;
+    case 'constraint_unique':
+      constraints.push({ ...base, type: 'UNIQUE', columns: identifierList(constraint.columns) });
+      break;
+    case 'constraint_foreign_key':
+      constraints.push({
+        ...base,
+        type: 'FOREIGN KEY',
+        columns: identifierList(constraint.columns),
+        references: referenceInfo(constraint.references)
+      });
+      break;
+    case 'constraint_check':
+      constraints.push({ ...base, type: 'CHECK', columns: [] });
+      break;
+    case 'constraint_index':
+      constraints.push({ ...base, type: 'INDEX', columns: identifierList(constraint.columns) });
+      break;
+    case 'constraint_exclude':
+      constraints.push({ ...base, type: 'EXCLUDE', columns: [] });
+      break;
+  }
+}
+
+function referenceInfo(references: ReferencesSpecification): ReferenceInfo {
+  return {
+    table: identifierName(references.table) ?? '',
+    columns: identifierList(references.columns),
+    ...referentialActions(references)
+  };
+}
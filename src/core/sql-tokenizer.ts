@@ -0,0 +1,203 @@
+import { DialectName } from 'sql-parser-cst';
+
+export type SQLTokenType =
+  | 'whitespace'
+  | 'line-comment'
+  | 'block-comment'
+  | 'string'
+  | 'quoted-identifier'
+  | 'word'
+  | 'punctuation'
+  /** End of a statement: `;` or the delimiter set with MySQL's `DELIMITER` */
+  | 'delimiter'
+  /** A MySQL client `DELIMITER` command, which is not sent to the server */
+  | 'delimiter-command';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  text: string;
+  /** Offset of the first character in the tokenized text */
+  start: number;
+  line: number;
+  column: number;
+}
+
+const WORD_CHAR = /[\w$\u0080-\uffff]/;
+const DOLLAR_QUOTE_TAG = /\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/y;
+const DELIMITER_COMMAND = /DELIMITER[ \t]+(\S+)[^\n]*/iy;
+
+/**
+ * Splits SQL into tokens the way the configured dialect reads it, so that
+ * semicolons and comment markers inside strings, dollar-quoted bodies and
+ * quoted identifiers are never mistaken for statement boundaries.
+ *
+ * - PostgreSQL: `$$`/`$tag$` bodies, `E'...'` strings with backslash escapes,
+ *   nested block comments.
+ * - MySQL/MariaDB: backslash escapes in strings, backtick identifiers, `#`
+ *   comments and `DELIMITER` commands.
+ * - Every dialect: `''` and `""` doubled-quote escapes.
+ */
+export class SQLTokenizer {
+  constructor(
+    public dialect: DialectName,
+  ) {}
+
+  tokenize(content: string): SQLToken[] {
+    const tokens: SQLToken[] = [];
+    let delimiter = ';';
+    let statementStart = true;
+    let line = 1;
+    let lineStart = 0;
+    let i = 0;
+
+    while (i < content.length) {
+      const { type, end, newDelimiter } = this.readToken(content, i, delimiter, statementStart);
+      const text = content.slice(i, end);
+      tokens.push({ type, text, start: i, line, column: i - lineStart + 1 });
+
+      for (let j = i; j < end; j++) {
+        if (content[j] === '\n') {
+          line++;
+          lineStart = j + 1;
+        }
+      }
+
+      if (newDelimiter) {
+        delimiter = newDelimiter;
+      }
+      if (type === 'delimiter' || type === 'delimiter-command') {
+        statementStart = true;
+      } else if (type !== 'whitespace' && type !== 'line-comment' && type !== 'block-comment') {
+        statementStart = false;
+      }
+      i = end;
+    }
+
+    return tokens;
+  }
+
+  private readToken(content: string, i: number, delimiter: string, statementStart: boolean): { type: SQLTokenType; end: number; newDelimiter?: string } {
+    const char = content[i];
+    const next = content[i + 1];
+
+    if (/\s/.test(char)) {
+      let end = i + 1;
+      while (end < content.length && /\s/.test(content[end])) end++;
+      return { type: 'whitespace', end };
+    }
+
+    if (this.isMySQL() && statementStart) {
+      DELIMITER_COMMAND.lastIndex = i;
+      const command = DELIMITER_COMMAND.exec(content);
+      if (command) {
+        return { type: 'delimiter-command', end: i + command[0].length, newDelimiter: command[1] };
+      }
+    }
+
+    if (content.startsWith(delimiter, i)) {
+      return { type: 'delimiter', end: i + delimiter.length };
+    }
+
+    if (this.isLineComment(content, i)) {
+      const end = content.indexOf('\n', i);
+      return { type: 'line-comment', end: end === -1 ? content.length : end };
+    }
+
+    if (char === '/' && next === '*') {
+      return { type: 'block-comment', end: this.readBlockComment(content, i) };
+    }
+
+    if (char === "'") {
+      return { type: 'string', end: this.readQuoted(content, i, "'", this.isMySQL() || this.dialect === 'bigquery') };
+    }
+
+    if ((char === 'E' || char === 'e') && next === "'" && this.dialect === 'postgresql' && !WORD_CHAR.test(content[i - 1] ?? '')) {
+      return { type: 'string', end: this.readQuoted(content, i + 1, "'", true) };
+    }
+
+    if (char === '"') {
+      // MySQL and BigQuery read double quotes as strings, the others as identifiers
+      const isString = this.isMySQL() || this.dialect === 'bigquery';
+      return { type: isString ? 'string' : 'quoted-identifier', end: this.readQuoted(content, i, '"', isString) };
+    }
+
+    if (char === '`' && this.dialect !== 'postgresql') {
+      return { type: 'quoted-identifier', end: this.readQuoted(content, i, '`', false) };
+    }
+
+    if (char === '$' && this.dialect === 'postgresql' && !WORD_CHAR.test(content[i - 1] ?? '')) {
+      DOLLAR_QUOTE_TAG.lastIndex = i;
+      const tag = DOLLAR_QUOTE_TAG.exec(content);
+      if (tag) {
+        const close = content.indexOf(tag[0], i + tag[0].length);
+        return { type: 'string', end: close === -1 ? content.length : close + tag[0].length };
+      }
+    }
+
+    if (WORD_CHAR.test(char)) {
+      let end = i + 1;
+      while (end < content.length && WORD_CHAR.test(content[end]) && !content.startsWith(delimiter, end)) end++;
+      return { type: 'word', end };
+    }
+
+    return { type: 'punctuation', end: i + 1 };
+  }
+
+  private isMySQL(): boolean {
+    return this.dialect === 'mysql' || this.dialect === 'mariadb';
+  }
+
+  private isLineComment(content: string, i: number): boolean {
+    if (content[i] === '#') {
+      return this.isMySQL() || this.dialect === 'bigquery';
+    }
+    if (content[i] !== '-' || content[i + 1] !== '-') {
+      return false;
+    }
+    // MySQL only starts a comment when the dashes are followed by whitespace
+    return !this.isMySQL() || i + 2 >= content.length || /\s/.test(content[i + 2]);
+  }
+
+  /** End offset of a block comment; PostgreSQL comments nest */
+  private readBlockComment(content: string, i: number): number {
+    let depth = 0;
+    let j = i;
+
+    while (j < content.length) {
+      if (content[j] === '/' && content[j + 1] === '*' && (depth === 0 || this.dialect === 'postgresql')) {
+        depth++;
+        j += 2;
+      } else if (content[j] === '*' && content[j + 1] === '/') {
+        depth--;
+        j += 2;
+        if (depth === 0) {
+          return j;
+        }
+      } else {
+        j++;
+      }
+    }
+
+    return content.length;
+  }
+
+  /** End offset of a quoted string or identifier; a doubled quote is an escaped quote */
+  private readQuoted(content: string, i: number, quote: string, backslashEscapes: boolean): number {
+    let j = i + 1;
+
+    while (j < content.length) {
+      if (backslashEscapes && content[j] === '\\') {
+        j += 2;
+      } else if (content[j] === quote) {
+        if (content[j + 1] !== quote) {
+          return j + 1;
+        }
+        j += 2;
+      } else {
+        j++;
+      }
+    }
+
+    return content.length;
+  }
+}
@@ -1,12 +1,51 @@
 export { PrismaStrongMigrationsLinter } from './core/linter';
-export { ConfigManager } from './core/config';
+export type { LinterOptions, ChangedLintOptions } from './core/linter';
+export { ConfigManager, mergeConfigs } from './core/config';
+export { getPreset, getPresetNames, PRESET_PREFIX } from './core/presets';
+export { validateConfig, createConfigSchema, DIALECTS } from './core/config-schema';
+export type { ConfigValidationResult } from './core/config-schema';
+export { detectPrismaProject, dialectForProvider } from './core/prisma-project';
+export type { PrismaProject } from './core/prisma-project';
 export { RuleEngine } from './core/rule-engine';
+export { INTERNAL_ERROR } from './core/diagnostics';
+export type { RuleEngineOptions } from './core/rule-engine';
+export { RuleTester } from './core/rule-tester';
+export type { RuleTesterConfig, RuleTests, ValidTestCase, InvalidTestCase, ExpectedViolation } from './core/rule-tester';
 export { MigrationScanner } from './core/migration-scanner';
+export { Profiler } from './core/profiler';
+export { MigrationLock, migrationChecksum, DEFAULT_LOCK_FILE } from './core/migration-lock';
+export type { LockMismatch, LockUpdate } from './core/migration-lock';
 export { SQLParser } from './core/sql-parser';
+export { SQLTokenizer } from './core/sql-tokenizer';
+export type { SQLToken, SQLTokenType } from './core/sql-tokenizer';
+export { SchemaBuilder, findTable, findColumn, hasIndexOn } from './core/schema-builder';
+export {
+  getAst,
+  findAll,
+  findFirst,
+  hasNode,
+  identifierName,
+  identifierList,
+  keywordText,
+  tableName,
+  columnDefinitions,
+  tableConstraints,
+  referentialActions,
+  transactionControl,
+  lineOf,
+  positionAt,
+  rangeOf,
+  maskLiterals
+} from './core/sql-query';
+export type { NodeType, NodeOfType, QueryRoot, ColumnDefinitionInfo, TableConstraintInfo, ReferenceInfo, SourceRange } from './core/sql-query';
 
 export { getBuiltInRules, getBuiltInRule, createCustomRule } from './rules';
 export { ReporterFactory, TextReporter, JsonReporter, JunitReporter } from './reporters';
+export type { Reporter, ReporterOptions } from './reporters';
 export { GitUtils } from './utils/git';
+export type { GitOptions, LineRange } from './utils/git';
+export { HookInstaller, HOOK_MANAGERS } from './utils/hooks';
+export type { HookManager, HookOptions, HookInstallation } from './utils/hooks';
 
 export * from './types';
 
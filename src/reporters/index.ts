@@ -7,8 +7,13 @@ export interface Reporter {
   format(result: LintResult): string;
 }
 
+export interface ReporterOptions {
+  /** Show the stack traces of crashed rules */
+  debug?: boolean;
+}
+
 export class ReporterFactory {
-  static create(format: OutputFormat): Reporter {
+  static create(format: OutputFormat, options: ReporterOptions = {}): Reporter {
     switch (format) {
       case OutputFormat.JSON:
         return new JsonReporter();
@@ -16,7 +21,7 @@ export class ReporterFactory {
         return new JunitReporter();
       case OutputFormat.TEXT:
       default:
-        return new TextReporter();
+        return new TextReporter(options);
     }
   }
 }
@@ -1,17 +1,19 @@
-import { LintResult, Severity, Violation } from '../types';
+import { LintResult, Severity, SuppressionKind, Violation } from '../types';
 import { Reporter } from './index';
 
 export class JunitReporter implements Reporter {
   format(result: LintResult): string {
     const timestamp = new Date().toISOString();
     const testSuites = this.generateTestSuites(result);
-    
+    const skippedCount = (result.acknowledged?.length ?? 0) + (result.baselined?.length ?? 0);
+
     return `<?xml version="1.0" encoding="UTF-8"?>
 <testsuites 
   name="prisma-strong-migrations" 
-  tests="${result.totalViolations}" 
+  tests="${result.totalViolations + skippedCount}" 
   failures="${result.errorCount + result.warningCount}" 
   errors="0" 
+  skipped="${skippedCount}" 
   time="0" 
   timestamp="${timestamp}">
 ${testSuites}
@@ -19,24 +21,94 @@ ${testSuites}
   }
 
   private generateTestSuites(result: LintResult): string {
+    // One test suite per migration file; violations without a file share the generic suite
+    const violationsByFile = new Map<string, { violations: Violation[]; skipped: Violation[] }>();
+    const getGroup = (violation: Violation) => {
+      const key = violation.filePath ?? 'migration-lint';
+      if (!violationsByFile.has(key)) {
+        violationsByFile.set(key, { violations: [], skipped: [] });
+      }
+      return violationsByFile.get(key)!;
+    };
+
+    for (const violation of result.violations) {
+      getGroup(violation).violations.push(violation);
+    }
+
+    for (const violation of [...result.acknowledged ?? [], ...result.baselined ?? []]) {
+      getGroup(violation).skipped.push(violation);
+    }
+
+    if (violationsByFile.size === 0) {
+      violationsByFile.set('migration-lint', { violations: [], skipped: [] });
+    }
+
+    const testSuites: string[] = [];
+
+    for (const [file, group] of violationsByFile) {
+      testSuites.push(this.generateTestSuite(file, group.violations, group.skipped));
+    }
+
+    return testSuites.join('\n');
+  }
+
+  private generateTestSuite(name: string, violations: Violation[], skipped: Violation[]): string {
     const testCases: string[] = [];
+    let failures = 0;
     
-    for (const violation of result.violations) {
+    for (const violation of violations) {
       const isFailure = violation.severity === Severity.ERROR || violation.severity === Severity.WARNING;
-      const testCase = this.generateTestCase(violation, isFailure);
-      testCases.push(testCase);
+      if (isFailure) {
+        failures++;
+      }
+      testCases.push(this.generateTestCase(violation, isFailure));
+    }
+
+    for (const violation of skipped) {
+      testCases.push(this.generateSkippedTestCase(violation));
     }
 
-    return `  <testsuite name="migration-lint" tests="${result.totalViolations}" failures="${result.errorCount + result.warningCount}" errors="0" time="0">
+    return `  <testsuite name="${this.escapeXml(name)}" tests="${violations.length + skipped.length}" failures="${failures}" errors="0" skipped="${skipped.length}" time="0">
 ${testCases.join('\n')}
   </testsuite>`;
   }
 
+  /**
+   * Acknowledged and baselined violations are reported as skipped test cases,
+   * so every waiver (with its reason and approver) stays visible in CI reports.
+   */
+  private generateSkippedTestCase(violation: Violation): string {
+    const testName = `${violation.ruleId} at line ${violation.line}`;
+    const className = violation.category || 'migration-lint';
+    const fileAttribute = violation.filePath ? ` file="${this.escapeXml(violation.filePath)}"` : '';
+    const reason = violation.suppression?.justification ?? '';
+
+    if (violation.suppression?.kind !== SuppressionKind.SAFETY_ASSURED) {
+      return `    <testcase name="${this.escapeXml(testName)}" classname="${className}"${fileAttribute} time="0">
+      <skipped message="${this.escapeXml(`Baselined: ${reason}`)}"/>
+      <system-out>${this.escapeXml(violation.message)}</system-out>
+    </testcase>`;
+    }
+
+    const approver = violation.suppression.approver ?? 'unknown';
+
+    return `    <testcase name="${this.escapeXml(testName)}" classname="${className}"${fileAttribute} time="0">
+      <properties>
+        <property name="reason" value="${this.escapeXml(reason)}"/>
+        <property name="approver" value="${this.escapeXml(approver)}"/>
+      </properties>
+      <skipped message="${this.escapeXml(`Acknowledged by ${approver}: ${reason}`)}"/>
+      <system-out>${this.escapeXml(violation.message)}</system-out>
+    </testcase>`;
+  }
+
   private generateTestCase(violation: Violation, isFailure: boolean): string {
     const testName = `${violation.ruleId} at line ${violation.line}`;
     const className = violation.category || 'migration-lint';
     
-    let testCase = `    <testcase name="${this.escapeXml(testName)}" classname="${className}" time="0">`;
+    const fileAttribute = violation.filePath ? ` file="${this.escapeXml(violation.filePath)}"` : '';
+    
+    let testCase = `    <testcase name="${this.escapeXml(testName)}" classname="${className}"${fileAttribute} time="0">`;
     
     if (isFailure) {
       const failureType = violation.severity === Severity.ERROR ? 'error' : 'warning';
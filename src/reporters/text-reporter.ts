@@ -1,20 +1,31 @@
 import chalk from 'chalk';
-import { LintResult, Severity } from '../types';
-import { Reporter } from './index';
+import { LintResult, Severity, TimingReport } from '../types';
+import { Reporter, ReporterOptions } from './index';
+
+/** Rows shown in each timing table, like ESLint's TIMING */
+const TIMING_ROWS = 10;
 
 export class TextReporter implements Reporter {
+  constructor(private options: ReporterOptions = {}) {}
+
   format(result: LintResult): string {
     if (result.totalViolations === 0) {
-      return chalk.green('✓ No violations found in migration files');
+      const parsing = this.formatParsing(result);
+      const success = chalk.green('✓ No violations found in migration files');
+      // A run whose findings were all muted must not read like a clean one
+      const muted = (result.suppressed?.length ?? 0) + (result.acknowledged?.length ?? 0) + (result.baselined?.length ?? 0);
+      const summary = muted > 0 && this.formatSummary(result);
+      const timing = result.timing && this.formatTiming(result.timing);
+      return [success, summary, parsing, timing].filter(Boolean).join('\n');
     }
 
     const output: string[] = [];
     
-    // Group violations by file (migration)
+    // Group violations by the migration file they were found in
     const violationsByFile = new Map<string, typeof result.violations>();
     
     for (const violation of result.violations) {
-      const key = 'migration'; // We could track filename if needed
+      const key = violation.filePath ?? 'migration';
       if (!violationsByFile.has(key)) {
         violationsByFile.set(key, []);
       }
@@ -28,12 +39,16 @@ export class TextReporter implements Reporter {
         const severityColor = this.getSeverityColor(violation.severity);
         const severityIcon = this.getSeverityIcon(violation.severity);
         
-        const line = `  ${severityColor(severityIcon)} ${violation.line}:1  ${violation.message}  ${chalk.gray(violation.ruleId)}`;
+        const line = `  ${severityColor(severityIcon)} ${violation.line}:${violation.column ?? 1}  ${violation.message}  ${chalk.gray(violation.ruleId)}`;
         output.push(line);
         
         if (violation.suggestion) {
           output.push(chalk.dim(`    💡 ${violation.suggestion}`));
         }
+
+        if (this.options.debug && violation.stack) {
+          output.push(chalk.gray(violation.stack.split('\n').map(line => `    ${line}`).join('\n')));
+        }
       }
       
       output.push(''); // Empty line between files
@@ -43,6 +58,15 @@ export class TextReporter implements Reporter {
     const summary = this.formatSummary(result);
     output.push(summary);
 
+    const parsing = this.formatParsing(result);
+    if (parsing) {
+      output.push(parsing);
+    }
+
+    if (result.timing) {
+      output.push(this.formatTiming(result.timing));
+    }
+
     return output.join('\n');
   }
 
@@ -72,6 +96,41 @@ export class TextReporter implements Reporter {
     }
   }
 
+  private formatParsing(result: LintResult): string | undefined {
+    const fallback = result.parsing?.textFallbackStatements ?? 0;
+    if (fallback === 0) {
+      return undefined;
+    }
+
+    const total = result.parsing!.totalStatements;
+    return chalk.dim(`${fallback} of ${total} statement${total !== 1 ? 's' : ''} could not be parsed and ${fallback !== 1 ? 'were' : 'was'} analyzed by text matching only`);
+  }
+
+  /** The slowest rules and migrations as Markdown-style tables */
+  private formatTiming(timing: TimingReport): string {
+    const totalRuleTime = timing.rules.reduce((sum, rule) => sum + rule.time, 0);
+    const rules = formatTable(
+      ['Rule', 'Time (ms)', 'Calls', 'Relative'],
+      timing.rules.slice(0, TIMING_ROWS).map(rule => [
+        rule.ruleId,
+        rule.time.toFixed(3),
+        String(rule.calls),
+        `${(totalRuleTime > 0 ? rule.time / totalRuleTime * 100 : 0).toFixed(1)}%`
+      ])
+    );
+    const migrations = formatTable(
+      ['Migration', 'Parse (ms)', 'Rules (ms)', 'Total (ms)'],
+      timing.migrations.slice(0, TIMING_ROWS).map(migration => [
+        migration.filePath,
+        migration.parse.toFixed(3),
+        migration.rules.toFixed(3),
+        migration.total.toFixed(3)
+      ])
+    );
+
+    return `\n${rules}\n\n${migrations}\n\nScan time: ${timing.scan.toFixed(3)} ms`;
+  }
+
   private formatSummary(result: LintResult): string {
     const parts: string[] = [];
     
@@ -88,6 +147,29 @@ export class TextReporter implements Reporter {
     }
 
     const summary = parts.length > 0 ? parts.join(', ') : '0 problems';
-    return `\n${summary} (${result.totalFiles} file${result.totalFiles !== 1 ? 's' : ''} linted)`;
+    const suppressedCount = result.suppressed?.length ?? 0;
+    const acknowledgedCount = result.acknowledged?.length ?? 0;
+    const baselinedCount = result.baselined?.length ?? 0;
+    const suppressed = suppressedCount > 0 ? `, ${suppressedCount} suppressed` : '';
+    const acknowledged = acknowledgedCount > 0 ? `, ${acknowledgedCount} acknowledged` : '';
+    const baselined = baselinedCount > 0 ? `, ${baselinedCount} baselined` : '';
+    return `\n${summary} (${result.totalFiles} file${result.totalFiles !== 1 ? 's' : ''} linted${suppressed}${acknowledged}${baselined})`;
   }
-} 
\ No newline at end of file
+} 
+
+/** A table with the first column left-aligned and the others right-aligned */
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, index) => Math.max(header.length, ...rows.map(row => row[index].length)));
+  const pad = (cells: string[]) => cells
+    .map((cell, index) => index === 0 ? cell.padEnd(widths[index]) : cell.padStart(widths[index]))
+    .join(' | ');
+  // Cells are joined by ' | ', so inner columns are two characters wider than their text
+  const separator = widths.map((width, index) => {
+    if (index === 0) {
+      return `:${'-'.repeat(width)}`;
+    }
+    return `${'-'.repeat(index === widths.length - 1 ? width : width + 1)}:`;
+  }).join('|');
+
+  return [pad(headers), separator, ...rows.map(pad)].join('\n');
+}
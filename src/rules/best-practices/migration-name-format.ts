@@ -0,0 +1,45 @@
+import { MigrationRule, Severity, RuleCategory, Migration, Violation } from '../../types';
+import { isPrismaMigration, migrationName } from '../migration-directory';
+
+const MIGRATION_NAME = /^(\d{14})_\w+$/;
+
+export const migrationNameFormatRule: MigrationRule = {
+  id: 'migration-name-format',
+  name: 'Migration Name Format',
+  description: 'Migration directories should be named YYYYMMDDHHMMSS_name, as prisma migrate dev names them',
+  severity: Severity.WARNING,
+  category: RuleCategory.BEST_PRACTICES,
+  enabled: true,
+  recommendation: 'Name migration directories with a UTC timestamp followed by a snake_case name',
+  checkMigration: (migration: Migration): Violation[] => {
+    if (!isPrismaMigration(migration)) {
+      return [];
+    }
+
+    const directory = migrationName(migration.filename);
+    const match = MIGRATION_NAME.exec(directory);
+    if (match && isTimestamp(match[1])) {
+      return [];
+    }
+
+    return [{
+      ruleId: 'migration-name-format',
+      ruleName: 'Migration Name Format',
+      severity: Severity.WARNING,
+      message: `Migration directory ${directory} does not match YYYYMMDDHHMMSS_name`,
+      line: 1,
+      suggestion: 'Prisma applies migrations in directory name order, and the migration ID is read from the timestamp. Rename the directory before it is applied anywhere',
+      category: RuleCategory.BEST_PRACTICES
+    }];
+  }
+};
+
+/** Whether 14 digits are a real date and time, such as 20240131235959 but not 20241301000000 */
+function isTimestamp(digits: string): boolean {
+  const [year, month, day, hours, minutes, seconds] = [0, 4, 6, 8, 10, 12].map((start, index) =>
+    Number(digits.slice(start, index === 0 ? 4 : start + 2))
+  );
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+
+  return date.toISOString().replace(/\D/g, '').slice(0, 14) === digits;
+}
@@ -1,6 +1,19 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { MigrationRule, Severity, RuleCategory, Migration, SQLStatement, Violation, RuleContext, RuleOptionsSchema } from '../../types';
+import { resolveRuleOptions } from '../../core/rule-options';
+import { getAst, transactionControl } from '../../core/sql-query';
 
-export const requireTransactionBlockRule: Rule = {
+const MODIFYING_STATEMENTS = ['alter_table_stmt', 'create_table_stmt', 'drop_table_stmt', 'create_index_stmt', 'drop_index_stmt'];
+
+const optionsSchema: RuleOptionsSchema = {
+  maxStatements: {
+    type: 'integer',
+    description: 'Number of schema-modifying statements allowed outside an explicit transaction block',
+    default: 2,
+    minimum: 0
+  }
+};
+
+export const requireTransactionBlockRule: MigrationRule = {
   id: 'require-transaction-block',
   name: 'Require Transaction Block',
   description: 'Multiple operations should be wrapped in explicit transaction blocks',
@@ -8,28 +21,25 @@ export const requireTransactionBlockRule: Rule = {
   category: RuleCategory.BEST_PRACTICES,
   enabled: true,
   recommendation: 'Wrap multiple related operations in BEGIN/COMMIT blocks for atomicity',
-  check: (statement: SQLStatement, migration: Migration): Violation[] => {
+  optionsSchema,
+  checkMigration: (migration: Migration, context: RuleContext): Violation[] => {
     const violations: Violation[] = [];
+    const { maxStatements } = resolveRuleOptions(optionsSchema, context.options);
 
     // Count DDL statements that modify data
-    const modifyingStatements = migration.statements.filter(stmt => 
-      ['ALTER_TABLE', 'CREATE_TABLE', 'DROP_TABLE', 'CREATE_INDEX', 'DROP_INDEX'].includes(stmt.type)
-    );
+    const modifyingStatements = migration.statements.filter(isModifyingStatement);
 
     // Check if migration has multiple operations but no transaction block
-    if (modifyingStatements.length > 2) {
-      const hasTransactionBlock = migration.statements.some(stmt => 
-        stmt.content.toUpperCase().includes('BEGIN') || 
-        stmt.content.toUpperCase().includes('START TRANSACTION')
-      );
+    if (modifyingStatements.length > maxStatements) {
+      const hasTransactionBlock = migration.statements.some(stmt => transactionControl(stmt) === 'BEGIN');
 
-      if (!hasTransactionBlock && statement === modifyingStatements[0]) {
+      if (!hasTransactionBlock) {
         violations.push({
           ruleId: 'require-transaction-block',
           ruleName: 'Require Transaction Block',
           severity: Severity.INFO,
           message: 'Migration with multiple operations should use explicit transaction block',
-          line: statement.startLine,
+          line: modifyingStatements[0].startLine,
           suggestion: 'Wrap operations in BEGIN; ... COMMIT; block for atomicity',
           category: RuleCategory.BEST_PRACTICES
         });
@@ -38,4 +48,11 @@ export const requireTransactionBlockRule: Rule = {
 
     return violations;
   }
-}; 
\ No newline at end of file
+};
+
+function isModifyingStatement(statement: SQLStatement): boolean {
+  const ast = getAst(statement);
+  return ast
+    ? ast.statements.some(stmt => MODIFYING_STATEMENTS.includes(stmt.type))
+    : ['ALTER_TABLE', 'CREATE_TABLE', 'DROP_TABLE', 'CREATE_INDEX', 'DROP_INDEX'].includes(statement.type);
+}
@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { columnDefinitions, findAll, getAst, maskLiterals, rangeOf, SourceRange } from '../../core/sql-query';
 
-export const requireNotNullConstraintRule: Rule = {
+export const requireNotNullConstraintRule: StatementRule = {
   id: 'require-not-null-constraint',
   name: 'Require NOT NULL Constraint',
   description: 'Columns should explicitly specify NOT NULL constraints for data integrity',
@@ -10,9 +11,17 @@ export const requireNotNullConstraintRule: Rule = {
   recommendation: 'Explicitly specify NOT NULL for columns that should not accept null values',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
 
-    if (statement.type === 'CREATE_TABLE') {
-      const content = statement.content;
+    if (ast) {
+      const columns = findAll(ast, 'create_table_stmt').flatMap(table => columnDefinitions(table));
+
+      // PRIMARY KEY columns are implicitly NOT NULL
+      for (const column of columns.filter(c => !c.notNull && !c.nullable)) {
+        violations.push(createViolation(rangeOf(statement, column.node)));
+      }
+    } else if (statement.type === 'CREATE_TABLE') {
+      const content = maskLiterals(statement.content);
       const lines = content.split('\n');
       
       for (let i = 0; i < lines.length; i++) {
@@ -51,19 +60,23 @@ export const requireNotNullConstraintRule: Rule = {
           }
           
           // This is a column definition without explicit NULL specification
-          violations.push({
-            ruleId: 'require-not-null-constraint',
-            ruleName: 'Require NOT NULL Constraint',
-            severity: Severity.INFO,
-            message: 'Column should explicitly specify NULL or NOT NULL constraint',
-            line: statement.startLine + i,
-            suggestion: 'Add NOT NULL if the column should not accept null values',
-            category: RuleCategory.DATA_INTEGRITY
-          });
+          violations.push(createViolation({ line: statement.startLine + i }));
         }
       }
     }
 
     return violations;
   }
-}; 
\ No newline at end of file
+};
+
+function createViolation(location: Pick<SourceRange, 'line'> & Partial<SourceRange>): Violation {
+  return {
+    ruleId: 'require-not-null-constraint',
+    ruleName: 'Require NOT NULL Constraint',
+    severity: Severity.INFO,
+    message: 'Column should explicitly specify NULL or NOT NULL constraint',
+    ...location,
+    suggestion: 'Add NOT NULL if the column should not accept null values',
+    category: RuleCategory.DATA_INTEGRITY
+  };
+}
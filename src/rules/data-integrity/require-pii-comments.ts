@@ -1,6 +1,28 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation, RuleContext, RuleOptionsSchema } from '../../types';
+import { resolveRuleOptions } from '../../core/rule-options';
+import { columnDefinitions, getAst, maskLiterals, rangeOf, SourceRange } from '../../core/sql-query';
 
-export const requirePiiCommentsRule: Rule = {
+const optionsSchema: RuleOptionsSchema = {
+  patterns: {
+    type: 'string[]',
+    format: 'regex',
+    description: 'Case-insensitive patterns matching names of columns that hold personal information',
+    // Common PII column names
+    default: [
+      '\\b(email|e_mail|email_address)\\b',
+      '\\b(phone|telephone|mobile|cell)\\b',
+      '\\b(address|street|city|zip|postal)\\b',
+      '\\b(ssn|social_security|tax_id)\\b',
+      '\\b(name|first_name|last_name|full_name)\\b',
+      '\\b(dob|date_of_birth|birthday)\\b',
+      '\\b(ip_address|mac_address)\\b',
+      '\\b(passport|driver_license|license_number)\\b',
+      '\\b(biometric|fingerprint)\\b'
+    ]
+  }
+};
+
+export const requirePiiCommentsRule: StatementRule = {
   id: 'require-pii-comments',
   name: 'Require PII Comments',
   description: 'Columns containing PII should have comments for compliance tracking',
@@ -8,49 +30,67 @@ export const requirePiiCommentsRule: Rule = {
   category: RuleCategory.DATA_INTEGRITY,
   enabled: true,
   recommendation: 'Add COMMENT containing "PII" to columns that store personal information',
-  check: (statement: SQLStatement, migration: Migration): Violation[] => {
+  optionsSchema,
+  check: (statement: SQLStatement, migration: Migration, context?: RuleContext): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    const { patterns } = resolveRuleOptions(optionsSchema, context?.options);
+    const piiPatterns = (patterns as string[]).map(pattern => new RegExp(pattern, 'i'));
 
-    if (statement.type === 'CREATE_TABLE' || 
-        (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD COLUMN'))) {
-      
-      const content = statement.content;
-      const lines = content.split('\n');
-      
-      // Common PII column names
-      const piiPatterns = [
-        /\b(email|e_mail|email_address)\b/i,
-        /\b(phone|telephone|mobile|cell)\b/i,
-        /\b(address|street|city|zip|postal)\b/i,
-        /\b(ssn|social_security|tax_id)\b/i,
-        /\b(name|first_name|last_name|full_name)\b/i,
-        /\b(dob|date_of_birth|birthday)\b/i,
-        /\b(ip_address|mac_address)\b/i,
-        /\b(passport|driver_license|license_number)\b/i,
-        /\b(biometric|fingerprint)\b/i
-      ];
+    if (ast) {
+      const columnsByLine = new Map<number, SourceRange>();
+
+      for (const column of columnDefinitions(ast)) {
+        const containsPii = piiPatterns.some(pattern => pattern.test(column.name));
+        if (containsPii && column.comment === undefined && !hasCommentStatement(migration, column.name)) {
+          const range = rangeOf(statement, column.node);
+          if (!columnsByLine.has(range.line)) {
+            columnsByLine.set(range.line, range);
+          }
+        }
+      }
+
+      // One finding per line, as for statements that could not be parsed
+      for (const range of columnsByLine.values()) {
+        violations.push(createViolation(range));
+      }
+    } else if (statement.type === 'CREATE_TABLE' || 
+        (statement.type === 'ALTER_TABLE' && /\bADD\s+COLUMN\b/i.test(maskLiterals(statement.content)))) {
+      const lines = statement.content.split('\n');
+      // Match column names outside comments and strings, but look for the PII note anywhere
+      const maskedLines = maskLiterals(statement.content).split('\n');
       
       for (let i = 0; i < lines.length; i++) {
         const line = lines[i].trim();
         
         // Check if line contains PII column name
-        const containsPii = piiPatterns.some(pattern => pattern.test(line));
+        const containsPii = piiPatterns.some(pattern => pattern.test(maskedLines[i]));
         
         if (containsPii && !line.toUpperCase().includes('COMMENT') && 
             !line.toUpperCase().includes('PII')) {
-          violations.push({
-            ruleId: 'require-pii-comments',
-            ruleName: 'Require PII Comments',
-            severity: Severity.INFO,
-            message: 'Column appears to contain PII but lacks proper comment',
-            line: statement.startLine + i,
-            suggestion: 'Add COMMENT containing "PII" for compliance tracking',
-            category: RuleCategory.DATA_INTEGRITY
-          });
+          violations.push(createViolation({ line: statement.startLine + i }));
         }
       }
     }
 
     return violations;
   }
-}; 
\ No newline at end of file
+};
+
+/** PostgreSQL documents columns with a separate COMMENT ON COLUMN statement */
+function hasCommentStatement(migration: Migration, column: string): boolean {
+  const pattern = new RegExp(`^\\s*COMMENT\\s+ON\\s+COLUMN\\s+(?:\\S+\\.)?["\`]?${column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["\`]?\\s+IS\\b`, 'i');
+  return migration.statements.some(statement => pattern.test(statement.content));
+}
+
+function createViolation(location: Pick<SourceRange, 'line'> & Partial<SourceRange>): Violation {
+  return {
+    ruleId: 'require-pii-comments',
+    ruleName: 'Require PII Comments',
+    severity: Severity.INFO,
+    message: 'Column appears to contain PII but lacks proper comment',
+    ...location,
+    suggestion: 'Add COMMENT containing "PII" for compliance tracking',
+    category: RuleCategory.DATA_INTEGRITY
+  };
+}
\ No newline at end of file
@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { ColumnDefinitionInfo, columnDefinitions, findAll, getAst, maskLiterals, rangeOf } from '../../core/sql-query';
 
-export const noAddNonNullableColumnRule: Rule = {
+export const noAddNonNullableColumnRule: StatementRule = {
   id: 'no-add-non-nullable-column',
   name: 'No Add Non-Nullable Column Without Default',
   description: 'Adding a non-nullable column without a default value might fail if the table is not empty',
@@ -10,22 +11,32 @@ export const noAddNonNullableColumnRule: Rule = {
   recommendation: 'Add a DEFAULT value when adding non-nullable columns, or make the column nullable initially and populate it before adding NOT NULL constraint',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let addsRequiredColumn: boolean;
+    let column: ColumnDefinitionInfo | undefined;
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD COLUMN')) {
-      const content = statement.content.toUpperCase();
-      
+    if (ast) {
+      column = findAll(ast, 'alter_action_add_column')
+        .flatMap(action => columnDefinitions(action))
+        .find(definition => definition.notNull && !definition.hasDefault);
+      addsRequiredColumn = column !== undefined;
+    } else {
       // Check if it's adding a column that is explicitly NOT NULL without a DEFAULT
-      if (content.includes('NOT NULL') && !content.includes('DEFAULT')) {
-        violations.push({
-          ruleId: 'no-add-non-nullable-column',
-          ruleName: 'No Add Non-Nullable Column Without Default',
-          severity: Severity.ERROR,
-          message: 'Adding a non-nullable column without a default value will fail if the table contains existing rows',
-          line: statement.startLine,
-          suggestion: 'Add a DEFAULT value: ALTER TABLE table_name ADD COLUMN column_name type NOT NULL DEFAULT value; or make it nullable initially',
-          category: RuleCategory.DEPLOYMENT_SAFETY
-        });
-      }
+      const content = maskLiterals(statement.content);
+      addsRequiredColumn = statement.type === 'ALTER_TABLE' && /\bADD\s+COLUMN\b/i.test(content) &&
+        /\bNOT\s+NULL\b/i.test(content) && !/\bDEFAULT\b/i.test(content);
+    }
+
+    if (addsRequiredColumn) {
+      violations.push({
+        ruleId: 'no-add-non-nullable-column',
+        ruleName: 'No Add Non-Nullable Column Without Default',
+        severity: Severity.ERROR,
+        message: 'Adding a non-nullable column without a default value will fail if the table contains existing rows',
+        ...rangeOf(statement, column?.node),
+        suggestion: 'Add a DEFAULT value: ALTER TABLE table_name ADD COLUMN column_name type NOT NULL DEFAULT value; or make it nullable initially',
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      });
     }
 
     return violations;
@@ -1,6 +1,14 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { getAst, maskLiterals, rangeOf } from '../../core/sql-query';
+import type { Node } from 'sql-parser-cst';
 
-export const noDataManipulationRule: Rule = {
+const DATA_MANIPULATION_STATEMENTS: Record<string, string> = {
+  insert_stmt: 'INSERT',
+  update_stmt: 'UPDATE',
+  delete_stmt: 'DELETE'
+};
+
+export const noDataManipulationRule: StatementRule = {
   id: 'no-data-manipulation',
   name: 'No Data Manipulation',
   description: 'Schema migrations should not contain data manipulation statements',
@@ -10,44 +18,34 @@ export const noDataManipulationRule: Rule = {
   recommendation: 'Move INSERT/UPDATE/DELETE statements to data migration scripts',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let statementType: string | undefined;
+    let manipulation: Node | undefined;
 
+    if (ast) {
+      manipulation = ast.statements.find(stmt => stmt.type in DATA_MANIPULATION_STATEMENTS);
+      statementType = manipulation && DATA_MANIPULATION_STATEMENTS[manipulation.type];
+    }
     // Check by statement type first (most reliable)
-    if (['INSERT', 'UPDATE', 'DELETE'].includes(statement.type)) {
+    else if (['INSERT', 'UPDATE', 'DELETE'].includes(statement.type)) {
+      statementType = statement.type;
+    }
+    // Also check content for OTHER statements that might contain data manipulation
+    else if (statement.type === 'OTHER') {
+      statementType = maskLiterals(statement.content).match(/^\s*(INSERT|UPDATE|DELETE)\s+/i)?.[1].toUpperCase();
+    }
+
+    if (statementType) {
       violations.push({
         ruleId: 'no-data-manipulation',
         ruleName: 'No Data Manipulation',
         severity: Severity.WARNING,
-        message: `${statement.type} statements should not be in schema migrations`,
-        line: statement.startLine,
+        message: `${statementType} statements should not be in schema migrations`,
+        ...rangeOf(statement, manipulation),
         suggestion: 'Move data manipulation to separate data migration scripts for better separation of concerns',
         category: RuleCategory.DEPLOYMENT_SAFETY
       });
     }
-    // Also check content for OTHER statements that might contain data manipulation
-    else if (statement.type === 'OTHER') {
-      const upperContent = statement.content.trim().toUpperCase();
-      const dataManipulationPatterns = [
-        /^\s*INSERT\s+/,
-        /^\s*UPDATE\s+/,
-        /^\s*DELETE\s+/
-      ];
-      
-      for (const pattern of dataManipulationPatterns) {
-        if (pattern.test(upperContent)) {
-          const statementType = upperContent.match(/^\s*(\w+)/)?.[1] || 'DATA_MANIPULATION';
-          violations.push({
-            ruleId: 'no-data-manipulation',
-            ruleName: 'No Data Manipulation',
-            severity: Severity.WARNING,
-            message: `${statementType} statements should not be in schema migrations`,
-            line: statement.startLine,
-            suggestion: 'Move data manipulation to separate data migration scripts for better separation of concerns',
-            category: RuleCategory.DEPLOYMENT_SAFETY
-          });
-          break; // Only report once per statement
-        }
-      }
-    }
 
     return violations;
   }
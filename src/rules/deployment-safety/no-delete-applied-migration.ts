@@ -0,0 +1,27 @@
+import { ChangeRule, Severity, RuleCategory, MigrationChange, Violation } from '../../types';
+import { migrationName } from '../migration-directory';
+
+export const noDeleteAppliedMigrationRule: ChangeRule = {
+  id: 'no-delete-applied-migration',
+  name: 'No Delete Applied Migration',
+  description: 'Prevents deleting migrations that exist on the base branch, which may already have been applied',
+  severity: Severity.ERROR,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Restore the migration and create a new migration that reverts it instead',
+  checkChange: (change: MigrationChange): Violation[] => {
+    if (change.kind !== 'deleted') {
+      return [];
+    }
+
+    return [{
+      ruleId: 'no-delete-applied-migration',
+      ruleName: 'No Delete Applied Migration',
+      severity: Severity.ERROR,
+      message: `Migration ${migrationName(change.filePath)} was deleted after it was merged`,
+      line: 1,
+      suggestion: 'Databases that applied it no longer match the migration history. Restore the migration and create a new migration that reverts it instead',
+      category: RuleCategory.DEPLOYMENT_SAFETY
+    }];
+  }
+};
@@ -0,0 +1,39 @@
+import { ProjectRule, Severity, RuleCategory, Migration, Violation } from '../../types';
+import { isPrismaMigration, migrationName } from '../migration-directory';
+
+export const noDuplicateMigrationTimestampRule: ProjectRule = {
+  id: 'no-duplicate-migration-timestamp',
+  name: 'No Duplicate Migration Timestamp',
+  description: 'Prevents migrations that share a timestamp, whose order then depends on their names',
+  severity: Severity.ERROR,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Give every migration its own timestamp, usually by regenerating the newer one',
+  checkProject: (migrations: Migration[]): Violation[] => {
+    const violations: Violation[] = [];
+    const firstById = new Map<string, Migration>();
+
+    // Migrations arrive in ID order, and in name order within an ID
+    for (const migration of migrations.filter(isPrismaMigration)) {
+      const first = firstById.get(migration.id);
+      if (!first) {
+        firstById.set(migration.id, migration);
+        continue;
+      }
+
+      // Migrations with the same ID are told apart by file, not by migrationId
+      violations.push({
+        ruleId: 'no-duplicate-migration-timestamp',
+        ruleName: 'No Duplicate Migration Timestamp',
+        severity: Severity.ERROR,
+        message: `Migration ${migrationName(migration.filename)} has the same timestamp as ${migrationName(first.filename)}`,
+        line: 1,
+        filePath: migration.filename,
+        suggestion: 'Prisma orders migrations by directory name, so these run in alphabetical rather than creation order. Regenerate the newer migration or rename it to a later timestamp',
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      });
+    }
+
+    return violations;
+  }
+};
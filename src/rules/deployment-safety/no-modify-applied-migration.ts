@@ -0,0 +1,27 @@
+import { ChangeRule, Severity, RuleCategory, MigrationChange, Violation } from '../../types';
+import { migrationName } from '../migration-directory';
+
+export const noModifyAppliedMigrationRule: ChangeRule = {
+  id: 'no-modify-applied-migration',
+  name: 'No Modify Applied Migration',
+  description: 'Prevents editing migrations that exist on the base branch, which may already have been applied',
+  severity: Severity.ERROR,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Revert the edit and create a new migration with the change instead',
+  checkChange: (change: MigrationChange): Violation[] => {
+    if (change.kind !== 'modified') {
+      return [];
+    }
+
+    return [{
+      ruleId: 'no-modify-applied-migration',
+      ruleName: 'No Modify Applied Migration',
+      severity: Severity.ERROR,
+      message: `Migration ${migrationName(change.filePath)} was modified after it was merged`,
+      line: 1,
+      suggestion: 'Prisma records a checksum of every applied migration, and an edited one fails deployment with a drift error. Revert the edit and create a new migration instead',
+      category: RuleCategory.DEPLOYMENT_SAFETY
+    }];
+  }
+};
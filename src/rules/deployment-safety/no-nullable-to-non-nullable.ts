@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, maskLiterals, NodeOfType, rangeOf } from '../../core/sql-query';
 
-export const noNullableToNonNullableRule: Rule = {
+export const noNullableToNonNullableRule: StatementRule = {
   id: 'no-nullable-to-non-nullable',
   name: 'No Nullable To Non-Nullable Column Change',
   description: 'Modifying a nullable column to non-nullable might fail if it contains NULL values',
@@ -10,33 +11,41 @@ export const noNullableToNonNullableRule: Rule = {
   recommendation: 'Backfill NULL values with a default value before adding NOT NULL constraint: UPDATE table SET column = default_value WHERE column IS NULL; then ALTER COLUMN',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let isModifyingToNotNull: boolean;
+    let setNotNull: NodeOfType<'alter_action_alter_column'> | undefined;
+
+    if (ast) {
+      setNotNull = findAll(ast, 'alter_action_alter_column')
+        .find(action => action.action.type === 'alter_action_set_not_null');
+      isModifyingToNotNull = setNotNull !== undefined;
+    } else if (statement.type === 'ALTER_TABLE') {
+      const content = maskLiterals(statement.content);
+      const notNull = /\bNOT\s+NULL\b/i.test(content);
 
-    if (statement.type === 'ALTER_TABLE') {
-      const content = statement.content.toUpperCase();
-      
       // Check for various syntax patterns for modifying column to NOT NULL
-      const isModifyingToNotNull = (
-        // PostgreSQL/MySQL: ALTER COLUMN name SET NOT NULL
-        (content.includes('ALTER COLUMN') && content.includes('SET NOT NULL')) ||
+      isModifyingToNotNull = (
+        // PostgreSQL/MySQL: ALTER COLUMN name SET NOT NULL; SQL Server: ALTER COLUMN name type NOT NULL
+        (/\bALTER\s+COLUMN\b/i.test(content) && notNull) ||
         // MySQL: MODIFY COLUMN name type NOT NULL
-        (content.includes('MODIFY COLUMN') && content.includes('NOT NULL')) ||
-        // SQL Server: ALTER COLUMN name type NOT NULL
-        (content.includes('ALTER COLUMN') && content.includes('NOT NULL') && !content.includes('SET')) ||
+        (/\bMODIFY\s+COLUMN\b/i.test(content) && notNull) ||
         // Generic: CHANGE COLUMN (MySQL)
-        (content.includes('CHANGE COLUMN') && content.includes('NOT NULL'))
+        (/\bCHANGE\s+COLUMN\b/i.test(content) && notNull)
       );
+    } else {
+      isModifyingToNotNull = false;
+    }
 
-      if (isModifyingToNotNull) {
-        violations.push({
-          ruleId: 'no-nullable-to-non-nullable',
-          ruleName: 'No Nullable To Non-Nullable Column Change',
-          severity: Severity.ERROR,
-          message: 'Changing a nullable column to non-nullable will fail if the column contains NULL values',
-          line: statement.startLine,
-          suggestion: 'First backfill NULL values: UPDATE table_name SET column_name = default_value WHERE column_name IS NULL; then apply the NOT NULL constraint',
-          category: RuleCategory.DEPLOYMENT_SAFETY
-        });
-      }
+    if (isModifyingToNotNull) {
+      violations.push({
+        ruleId: 'no-nullable-to-non-nullable',
+        ruleName: 'No Nullable To Non-Nullable Column Change',
+        severity: Severity.ERROR,
+        message: 'Changing a nullable column to non-nullable will fail if the column contains NULL values',
+        ...rangeOf(statement, setNotNull),
+        suggestion: 'First backfill NULL values: UPDATE table_name SET column_name = default_value WHERE column_name IS NULL; then apply the NOT NULL constraint',
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      });
     }
 
     return violations;
@@ -0,0 +1,28 @@
+import { ChangeRule, Severity, RuleCategory, MigrationChange, Violation, RuleContext } from '../../types';
+import { migrationName } from '../migration-directory';
+
+export const noOutOfOrderMigrationRule: ChangeRule = {
+  id: 'no-out-of-order-migration',
+  name: 'No Out Of Order Migration',
+  description: 'Prevents adding migrations timestamped before the newest migration on the base branch',
+  severity: Severity.WARNING,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Rebase onto the base branch and regenerate the migration, so that it sorts after every merged one',
+  checkChange: (change: MigrationChange, context: RuleContext): Violation[] => {
+    const newest = [...context.baseMigrationIds ?? []].sort((a, b) => a.localeCompare(b)).pop();
+    if (change.kind !== 'added' || newest === undefined || change.migrationId.localeCompare(newest) >= 0) {
+      return [];
+    }
+
+    return [{
+      ruleId: 'no-out-of-order-migration',
+      ruleName: 'No Out Of Order Migration',
+      severity: Severity.WARNING,
+      message: `Migration ${migrationName(change.filePath)} is timestamped before ${newest}, the newest migration on the base branch`,
+      line: 1,
+      suggestion: 'Environments that already applied the newer migrations apply this one after them, and fresh databases before them. Regenerate the migration, or rename it to a later timestamp',
+      category: RuleCategory.DEPLOYMENT_SAFETY
+    }];
+  }
+};
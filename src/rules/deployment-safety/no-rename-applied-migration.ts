@@ -0,0 +1,27 @@
+import { ChangeRule, Severity, RuleCategory, MigrationChange, Violation } from '../../types';
+import { migrationName } from '../migration-directory';
+
+export const noRenameAppliedMigrationRule: ChangeRule = {
+  id: 'no-rename-applied-migration',
+  name: 'No Rename Applied Migration',
+  description: 'Prevents renaming migrations that exist on the base branch, which may already have been applied',
+  severity: Severity.ERROR,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Restore the original directory name',
+  checkChange: (change: MigrationChange): Violation[] => {
+    if (change.kind !== 'renamed') {
+      return [];
+    }
+
+    return [{
+      ruleId: 'no-rename-applied-migration',
+      ruleName: 'No Rename Applied Migration',
+      severity: Severity.ERROR,
+      message: `Migration ${migrationName(change.previousPath ?? change.filePath)} was renamed to ${migrationName(change.filePath)} after it was merged`,
+      line: 1,
+      suggestion: 'Prisma identifies migrations by directory name, so databases that applied it would apply it again. Restore the original directory name',
+      category: RuleCategory.DEPLOYMENT_SAFETY
+    }];
+  }
+};
@@ -0,0 +1,48 @@
+import * as path from 'path';
+import { ProjectRule, Severity, RuleCategory, Migration, Violation, RuleContext } from '../../types';
+import { isPrismaMigration, migrationName } from '../migration-directory';
+
+export const requireMigrationSqlRule: ProjectRule = {
+  id: 'require-migration-sql',
+  name: 'Require Migration SQL',
+  description: 'Every migration directory should contain a non-empty migration.sql',
+  severity: Severity.ERROR,
+  category: RuleCategory.DEPLOYMENT_SAFETY,
+  enabled: true,
+  recommendation: 'Restore the missing SQL, or remove directories left behind by a deleted migration',
+  checkProject: (migrations: Migration[], context: RuleContext): Violation[] => {
+    const violations: Violation[] = [];
+    const project = context.project;
+
+    // Directories without a migration.sql have no migration of their own and are reported by path
+    if (project) {
+      for (const directory of project.directories.filter(d => !d.hasMigrationFile)) {
+        violations.push({
+          ruleId: 'require-migration-sql',
+          ruleName: 'Require Migration SQL',
+          severity: Severity.ERROR,
+          message: `Migration directory ${directory.name} has no migration.sql`,
+          line: 1,
+          filePath: path.join(project.migrationsPath, directory.name),
+          suggestion: 'prisma migrate deploy fails on a migration directory without migration.sql. Restore the file, or remove the directory',
+          category: RuleCategory.DEPLOYMENT_SAFETY
+        });
+      }
+    }
+
+    for (const migration of migrations.filter(m => isPrismaMigration(m) && m.content.trim() === '')) {
+      violations.push({
+        ruleId: 'require-migration-sql',
+        ruleName: 'Require Migration SQL',
+        severity: Severity.ERROR,
+        message: `Migration ${migrationName(migration.filename)} has an empty migration.sql`,
+        line: 1,
+        filePath: migration.filename,
+        suggestion: 'An empty migration is recorded as applied without changing anything, which usually means its SQL was never saved. Add the SQL, or a comment explaining why the migration is empty',
+        category: RuleCategory.DEPLOYMENT_SAFETY
+      });
+    }
+
+    return violations;
+  }
+};
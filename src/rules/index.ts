@@ -19,8 +19,15 @@ import { requirePiiCommentsRule } from './data-integrity/require-pii-comments';
 import { noDataManipulationRule } from './deployment-safety/no-data-manipulation';
 import { noAddNonNullableColumnRule } from './deployment-safety/no-add-non-nullable-column';
 import { noNullableToNonNullableRule } from './deployment-safety/no-nullable-to-non-nullable';
+import { noModifyAppliedMigrationRule } from './deployment-safety/no-modify-applied-migration';
+import { noDeleteAppliedMigrationRule } from './deployment-safety/no-delete-applied-migration';
+import { noRenameAppliedMigrationRule } from './deployment-safety/no-rename-applied-migration';
+import { noDuplicateMigrationTimestampRule } from './deployment-safety/no-duplicate-migration-timestamp';
+import { requireMigrationSqlRule } from './deployment-safety/require-migration-sql';
+import { noOutOfOrderMigrationRule } from './deployment-safety/no-out-of-order-migration';
 
 import { requireTransactionBlockRule } from './best-practices/require-transaction-block';
+import { migrationNameFormatRule } from './best-practices/migration-name-format';
 
 export const BUILT_IN_RULES: Record<string, Rule> = {
   // Schema Safety Rules
@@ -47,9 +54,16 @@ export const BUILT_IN_RULES: Record<string, Rule> = {
   'no-data-manipulation': noDataManipulationRule,
   'no-add-non-nullable-column': noAddNonNullableColumnRule,
   'no-nullable-to-non-nullable': noNullableToNonNullableRule,
+  'no-modify-applied-migration': noModifyAppliedMigrationRule,
+  'no-delete-applied-migration': noDeleteAppliedMigrationRule,
+  'no-rename-applied-migration': noRenameAppliedMigrationRule,
+  'no-duplicate-migration-timestamp': noDuplicateMigrationTimestampRule,
+  'require-migration-sql': requireMigrationSqlRule,
+  'no-out-of-order-migration': noOutOfOrderMigrationRule,
   
   // Best Practices Rules
   'require-transaction-block': requireTransactionBlockRule,
+  'migration-name-format': migrationNameFormatRule,
 };
 
 export function getBuiltInRules(): Rule[] {
@@ -66,9 +80,14 @@ export function createCustomRule(config: {
   description: string;
   severity: Severity;
   category: RuleCategory;
-  check: Rule['check'];
+  check?: Rule['check'];
+  checkMigration?: Rule['checkMigration'];
+  checkProject?: Rule['checkProject'];
+  checkChange?: Rule['checkChange'];
   recommendation?: string;
   autoFix?: Rule['autoFix'];
+  optionsSchema?: Rule['optionsSchema'];
+  options?: Rule['options'];
 }): Rule {
   return {
     ...config,
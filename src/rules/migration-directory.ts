@@ -0,0 +1,12 @@
+import * as path from 'path';
+import { Migration } from '../types';
+
+/** Directory name of a migration file, such as `20240101000000_init` */
+export function migrationName(filePath: string): string {
+  return path.basename(path.dirname(filePath));
+}
+
+/** Whether the migration is laid out as Prisma does, one `migration.sql` per directory */
+export function isPrismaMigration(migration: Pick<Migration, 'filename'>): boolean {
+  return path.basename(migration.filename) === 'migration.sql';
+}
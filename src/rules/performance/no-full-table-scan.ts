@@ -1,6 +1,8 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, maskLiterals, rangeOf, tableConstraints } from '../../core/sql-query';
+import type { Node } from 'sql-parser-cst';
 
-export const noFullTableScanRule: Rule = {
+export const noFullTableScanRule: StatementRule = {
   id: 'no-full-table-scan',
   name: 'No Full Table Scan',
   description: 'Avoid operations that may cause full table scans on large tables',
@@ -10,51 +12,80 @@ export const noFullTableScanRule: Rule = {
   recommendation: 'Add indexes before operations or use WHERE clauses to limit scope',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
 
-    const content = statement.content.toUpperCase();
+    let setsNotNullWithoutDefault: boolean;
+    let addsValidatedCheck: boolean;
+    let unfilteredStatement: string | undefined;
+    // Parsed nodes the findings point at
+    let notNullNode: Node | undefined;
+    let checkNode: Node | undefined;
+    let unfilteredNode: Node | undefined;
 
-    // Check for potentially expensive operations
-    if (statement.type === 'ALTER_TABLE') {
-      // Adding NOT NULL without DEFAULT can require table scan
-      if (content.includes('ALTER COLUMN') && 
-          content.includes('SET NOT NULL') && 
-          !content.includes('DEFAULT')) {
-        violations.push({
-          ruleId: 'no-full-table-scan',
-          ruleName: 'No Full Table Scan',
-          severity: Severity.WARNING,
-          message: 'Setting NOT NULL without DEFAULT may require full table scan',
-          line: statement.startLine,
-          suggestion: 'Add DEFAULT value first, then set NOT NULL, or use CHECK constraint with NOT VALID',
-          category: RuleCategory.PERFORMANCE
-        });
-      }
+    if (ast) {
+      const columnActions = findAll(ast, 'alter_action_alter_column');
+      notNullNode = columnActions.find(action => action.action.type === 'alter_action_set_not_null');
+      setsNotNullWithoutDefault = notNullNode !== undefined &&
+        !columnActions.some(action => action.action.type === 'alter_action_set_default');
+      checkNode = findAll(ast, 'alter_table_stmt')
+        .flatMap(alter => tableConstraints(alter))
+        .find(constraint => constraint.type === 'CHECK' && !constraint.notValid)?.node;
+      addsValidatedCheck = checkNode !== undefined;
+
+      const unfiltered = ast.statements.find(stmt =>
+        (stmt.type === 'update_stmt' || stmt.type === 'delete_stmt') &&
+        !stmt.clauses.some(clause => clause.type === 'where_clause')
+      );
+      unfilteredNode = unfiltered;
+      unfilteredStatement = unfiltered && (unfiltered.type === 'update_stmt' ? 'UPDATE' : 'DELETE');
+    } else {
+      const content = maskLiterals(statement.content);
+      const isAlterTable = statement.type === 'ALTER_TABLE';
 
+      // Adding NOT NULL without DEFAULT can require table scan
+      setsNotNullWithoutDefault = isAlterTable && /\bALTER\s+COLUMN\b/i.test(content) &&
+        /\bSET\s+NOT\s+NULL\b/i.test(content) && !/\bDEFAULT\b/i.test(content);
       // Adding CHECK constraints can be expensive
-      if (content.includes('ADD CONSTRAINT') && 
-          content.includes('CHECK') && 
-          !content.includes('NOT VALID')) {
-        violations.push({
-          ruleId: 'no-full-table-scan',
-          ruleName: 'No Full Table Scan',
-          severity: Severity.WARNING,
-          message: 'Adding CHECK constraint without NOT VALID may require full table scan',
-          line: statement.startLine,
-          suggestion: 'Add CHECK constraint with NOT VALID, then VALIDATE CONSTRAINT in separate step',
-          category: RuleCategory.PERFORMANCE
-        });
-      }
+      addsValidatedCheck = isAlterTable && /\bADD\s+CONSTRAINT\b/i.test(content) &&
+        /\bCHECK\b/i.test(content) && !/\bNOT\s+VALID\b/i.test(content);
+      unfilteredStatement = (statement.type === 'UPDATE' || statement.type === 'DELETE') && !/\bWHERE\b/i.test(content)
+        ? statement.type
+        : undefined;
+    }
+
+    // Check for potentially expensive operations
+    if (setsNotNullWithoutDefault) {
+      violations.push({
+        ruleId: 'no-full-table-scan',
+        ruleName: 'No Full Table Scan',
+        severity: Severity.WARNING,
+        message: 'Setting NOT NULL without DEFAULT may require full table scan',
+        ...rangeOf(statement, notNullNode),
+        suggestion: 'Add DEFAULT value first, then set NOT NULL, or use CHECK constraint with NOT VALID',
+        category: RuleCategory.PERFORMANCE
+      });
+    }
+
+    if (addsValidatedCheck) {
+      violations.push({
+        ruleId: 'no-full-table-scan',
+        ruleName: 'No Full Table Scan',
+        severity: Severity.WARNING,
+        message: 'Adding CHECK constraint without NOT VALID may require full table scan',
+        ...rangeOf(statement, checkNode),
+        suggestion: 'Add CHECK constraint with NOT VALID, then VALIDATE CONSTRAINT in separate step',
+        category: RuleCategory.PERFORMANCE
+      });
     }
 
     // Warn about UPDATE/DELETE without WHERE (though we discourage data manipulation anyway)
-    if ((statement.type === 'UPDATE' || statement.type === 'DELETE') && 
-        !content.includes('WHERE')) {
+    if (unfilteredStatement) {
       violations.push({
         ruleId: 'no-full-table-scan',
         ruleName: 'No Full Table Scan',
         severity: Severity.WARNING,
-        message: `${statement.type} without WHERE clause will scan entire table`,
-        line: statement.startLine,
+        message: `${unfilteredStatement} without WHERE clause will scan entire table`,
+        ...rangeOf(statement, unfilteredNode),
         suggestion: 'Add WHERE clause to limit scope of operation',
         category: RuleCategory.PERFORMANCE
       });
@@ -1,6 +1,8 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findFirst, getAst, maskLiterals, rangeOf, transactionControl } from '../../core/sql-query';
+import type { Node } from 'sql-parser-cst';
 
-export const requireConcurrentIndexRule: Rule = {
+export const requireConcurrentIndexRule: StatementRule = {
   id: 'require-concurrent-index',
   name: 'Require Concurrent Index',
   description: 'Index operations should use CONCURRENTLY to avoid blocking table access',
@@ -10,46 +12,60 @@ export const requireConcurrentIndexRule: Rule = {
   recommendation: 'Use CREATE INDEX CONCURRENTLY or DROP INDEX CONCURRENTLY to avoid table locks',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
-    const content = statement.content.toUpperCase();
+    const ast = getAst(statement);
+
+    let createsIndex: boolean;
+    let dropsIndex: boolean;
+    let concurrently: boolean;
+    let unique: boolean;
+    let indexNode: Node | undefined;
+
+    if (ast) {
+      // The parser does not accept CONCURRENTLY, so a parsed index statement never has it
+      const createIndex = findFirst(ast, 'create_index_stmt');
+      const dropIndex = findFirst(ast, 'drop_index_stmt');
+      indexNode = createIndex ?? dropIndex;
+      createsIndex = createIndex !== undefined;
+      dropsIndex = dropIndex !== undefined;
+      concurrently = false;
+      unique = createIndex?.indexTypeKw?.name.toUpperCase() === 'UNIQUE';
+    } else {
+      const content = maskLiterals(statement.content);
+      createsIndex = statement.type === 'CREATE_INDEX' || /^\s*CREATE\s+UNIQUE\s+INDEX\b/i.test(content);
+      dropsIndex = statement.type === 'DROP_INDEX';
+      concurrently = /\bCONCURRENTLY\b/i.test(content);
+      unique = /^\s*CREATE\s+UNIQUE\b/i.test(content);
+    }
 
     // Check CREATE INDEX without CONCURRENTLY
-    if (statement.type === 'CREATE_INDEX' && !content.includes('CONCURRENTLY')) {
+    if (createsIndex && !concurrently) {
       violations.push({
         ruleId: 'require-concurrent-index',
         ruleName: 'Require Concurrent Index',
         severity: Severity.WARNING,
         message: 'Creating index without CONCURRENTLY blocks writes during operation',
-        line: statement.startLine,
+        ...rangeOf(statement, indexNode),
         suggestion: 'Use CREATE INDEX CONCURRENTLY to avoid blocking table writes',
         category: RuleCategory.PERFORMANCE
       });
     }
 
     // Check DROP INDEX without CONCURRENTLY
-    if (statement.type === 'DROP_INDEX' && !content.includes('CONCURRENTLY')) {
+    if (dropsIndex && !concurrently) {
       violations.push({
         ruleId: 'require-concurrent-index',
         ruleName: 'Require Concurrent Index',
         severity: Severity.WARNING,
         message: 'Dropping index without CONCURRENTLY blocks all table access during operation',
-        line: statement.startLine,
+        ...rangeOf(statement, indexNode),
         suggestion: 'Use DROP INDEX CONCURRENTLY to avoid blocking table access',
         category: RuleCategory.PERFORMANCE
       });
     }
 
     // Check for CONCURRENTLY usage in transaction context
-    if ((statement.type === 'CREATE_INDEX' || statement.type === 'DROP_INDEX') && 
-        content.includes('CONCURRENTLY')) {
-      
-      // Check if migration has transaction markers
-      const hasTransactionMarkers = migration.statements.some(stmt => {
-        const stmtContent = stmt.content.toUpperCase();
-        return stmtContent.includes('BEGIN') || 
-               stmtContent.includes('START TRANSACTION') ||
-               stmtContent.includes('COMMIT') ||
-               stmtContent.includes('ROLLBACK');
-      });
+    if ((createsIndex || dropsIndex) && concurrently) {
+      const hasTransactionMarkers = migration.statements.some(stmt => transactionControl(stmt) !== undefined);
 
       if (hasTransactionMarkers) {
         violations.push({
@@ -57,7 +73,7 @@ export const requireConcurrentIndexRule: Rule = {
           ruleName: 'Require Concurrent Index',
           severity: Severity.ERROR,
           message: 'CONCURRENTLY operations cannot be run within a transaction',
-          line: statement.startLine,
+          ...rangeOf(statement, indexNode),
           suggestion: 'Remove transaction markers or add migration directive to disable transaction mode',
           category: RuleCategory.PERFORMANCE
         });
@@ -65,15 +81,13 @@ export const requireConcurrentIndexRule: Rule = {
     }
 
     // Additional check for CREATE UNIQUE INDEX
-    if (statement.type === 'CREATE_INDEX' && 
-        content.includes('UNIQUE') && 
-        !content.includes('CONCURRENTLY')) {
+    if (createsIndex && unique && !concurrently) {
       violations.push({
         ruleId: 'require-concurrent-index',
         ruleName: 'Require Concurrent Index',
         severity: Severity.WARNING,
         message: 'Creating unique index without CONCURRENTLY acquires ACCESS EXCLUSIVE lock',
-        line: statement.startLine,
+        ...rangeOf(statement, indexNode),
         suggestion: 'Use CREATE UNIQUE INDEX CONCURRENTLY, then add constraint with USING INDEX',
         category: RuleCategory.PERFORMANCE
       });
@@ -1,6 +1,8 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation, RuleContext } from '../../types';
+import { SchemaBuilder, hasIndexOn } from '../../core/schema-builder';
+import { findAll, getAst, rangeOf, TableConstraintInfo, tableConstraints } from '../../core/sql-query';
 
-export const requireIndexForForeignKeyRule: Rule = {
+export const requireIndexForForeignKeyRule: StatementRule = {
   id: 'require-index-for-foreign-key',
   name: 'Require Index for Foreign Key',
   description: 'Foreign key columns should have indexes for better query performance',
@@ -8,39 +10,42 @@ export const requireIndexForForeignKeyRule: Rule = {
   category: RuleCategory.PERFORMANCE,
   enabled: true,
   recommendation: 'Create an index on the foreign key column(s) for better query performance',
-  check: (statement: SQLStatement, migration: Migration): Violation[] => {
+  check: (statement: SQLStatement, migration: Migration, context?: RuleContext): Violation[] => {
     const violations: Violation[] = [];
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD CONSTRAINT')) {
-      const content = statement.content.toUpperCase();
-      
-      if (content.includes('FOREIGN KEY')) {
-        // Extract table name and foreign key column(s)
-        const foreignKeyMatch = content.match(/FOREIGN KEY\s*\(([^)]+)\)/);
-        if (foreignKeyMatch) {
-          const columns = foreignKeyMatch[1].split(',').map(col => col.trim());
-          
-          // Check if there's a corresponding index creation in the same migration
-          const hasIndex = migration.statements.some(stmt => 
-            stmt.type === 'CREATE_INDEX' && 
-            columns.some(col => stmt.content.toUpperCase().includes(col))
-          );
-          
-          if (!hasIndex) {
-            violations.push({
-              ruleId: 'require-index-for-foreign-key',
-              ruleName: 'Require Index for Foreign Key',
-              severity: Severity.WARNING,
-              message: `Foreign key column(s) "${columns.join(', ')}" should have an index`,
-              line: statement.startLine,
-              suggestion: `Create an index on column(s): ${columns.join(', ')}`,
-              category: RuleCategory.PERFORMANCE
-            });
-          }
-        }
+    if (statement.type !== 'ALTER_TABLE') {
+      return violations;
+    }
+
+    const ast = getAst(statement);
+    const constraints: { type: string; tableName?: string; columns: string[]; node?: TableConstraintInfo['node'] }[] = ast
+      ? findAll(ast, 'alter_table_stmt').flatMap(alter => tableConstraints(alter))
+      : SchemaBuilder.constraintsIn(statement, context?.dialect);
+    const foreignKeys = constraints.filter(c => c.type === 'FOREIGN KEY');
+    if (foreignKeys.length === 0) {
+      return violations;
+    }
+
+    // An index added anywhere in this migration or an earlier one covers the key
+    const schema = context?.resultingSchema ?? SchemaBuilder.replay([migration], context?.dialect);
+
+    for (const foreignKey of foreignKeys) {
+      if (hasIndexOn(schema, foreignKey.tableName ?? '', foreignKey.columns)) {
+        continue;
       }
+
+      const columns = foreignKey.columns.join(', ');
+      violations.push({
+        ruleId: 'require-index-for-foreign-key',
+        ruleName: 'Require Index for Foreign Key',
+        severity: Severity.WARNING,
+        message: `Foreign key column(s) "${columns}" should have an index`,
+        ...rangeOf(statement, foreignKey.node),
+        suggestion: `Create an index on column(s): ${columns}`,
+        category: RuleCategory.PERFORMANCE
+      });
     }
 
     return violations;
   }
-}; 
\ No newline at end of file
+}; 
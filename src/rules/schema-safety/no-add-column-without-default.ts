@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { ColumnDefinitionInfo, columnDefinitions, findAll, getAst, maskLiterals, rangeOf } from '../../core/sql-query';
 
-export const noAddColumnWithoutDefaultRule: Rule = {
+export const noAddColumnWithoutDefaultRule: StatementRule = {
   id: 'no-add-column-without-default',
   name: 'No Add Column Without Default',
   description: 'New columns should have default values to avoid breaking existing applications',
@@ -10,22 +11,31 @@ export const noAddColumnWithoutDefaultRule: Rule = {
   recommendation: 'Add a DEFAULT value or make the column nullable when adding new columns',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let addsColumnWithoutDefault: boolean;
+    let column: ColumnDefinitionInfo | undefined;
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD COLUMN')) {
-      const content = statement.content.toUpperCase();
-      
-      // Check if it's adding a column without DEFAULT and without NULL
-      if (!content.includes('DEFAULT') && !content.includes('NULL')) {
-        violations.push({
-          ruleId: 'no-add-column-without-default',
-          ruleName: 'No Add Column Without Default',
-          severity: Severity.WARNING,
-          message: 'Adding a column without a default value may break existing applications',
-          line: statement.startLine,
-          suggestion: 'Add a DEFAULT value or make the column nullable',
-          category: RuleCategory.SCHEMA_SAFETY
-        });
-      }
+    if (ast) {
+      column = findAll(ast, 'alter_action_add_column')
+        .flatMap(action => columnDefinitions(action))
+        .find(definition => !definition.hasDefault && !definition.notNull && !definition.nullable);
+      addsColumnWithoutDefault = column !== undefined;
+    } else {
+      const content = maskLiterals(statement.content);
+      addsColumnWithoutDefault = statement.type === 'ALTER_TABLE' &&
+        /\bADD\s+COLUMN\b/i.test(content) && !/\b(DEFAULT|NULL)\b/i.test(content);
+    }
+
+    if (addsColumnWithoutDefault) {
+      violations.push({
+        ruleId: 'no-add-column-without-default',
+        ruleName: 'No Add Column Without Default',
+        severity: Severity.WARNING,
+        message: 'Adding a column without a default value may break existing applications',
+        ...rangeOf(statement, column?.node),
+        suggestion: 'Add a DEFAULT value or make the column nullable',
+        category: RuleCategory.SCHEMA_SAFETY
+      });
     }
 
     return violations;
@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, maskLiterals, NodeOfType, rangeOf } from '../../core/sql-query';
 
-export const noAlterColumnTypeRule: Rule = {
+export const noAlterColumnTypeRule: StatementRule = {
   id: 'no-alter-column-type',
   name: 'No Alter Column Type',
   description: 'Changing column types can cause data loss or conversion errors',
@@ -10,22 +11,31 @@ export const noAlterColumnTypeRule: Rule = {
   recommendation: 'Use explicit casting with USING clause or create new column and migrate data',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let changesTypeWithoutUsing: boolean;
+    let typeChange: NodeOfType<'alter_action_alter_column'> | undefined;
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ALTER COLUMN')) {
-      const content = statement.content.toUpperCase();
-      
-      // Check for type changes without USING clause
-      if (content.includes('TYPE') && !content.includes('USING')) {
-        violations.push({
-          ruleId: 'no-alter-column-type',
-          ruleName: 'No Alter Column Type',
-          severity: Severity.ERROR,
-          message: 'Changing column type without USING clause can cause data loss',
-          line: statement.startLine,
-          suggestion: 'Add USING clause to specify how to convert existing data, e.g., ALTER COLUMN name TYPE VARCHAR(100) USING name::VARCHAR(100)',
-          category: RuleCategory.SCHEMA_SAFETY
-        });
-      }
+    if (ast) {
+      // The parser does not accept USING, so a parsed type change never has one
+      typeChange = findAll(ast, 'alter_action_alter_column')
+        .find(action => action.action.type === 'alter_action_set_data_type');
+      changesTypeWithoutUsing = typeChange !== undefined;
+    } else {
+      const content = maskLiterals(statement.content);
+      changesTypeWithoutUsing = statement.type === 'ALTER_TABLE' &&
+        /\bALTER\s+COLUMN\b/i.test(content) && /\bTYPE\b/i.test(content) && !/\bUSING\b/i.test(content);
+    }
+
+    if (changesTypeWithoutUsing) {
+      violations.push({
+        ruleId: 'no-alter-column-type',
+        ruleName: 'No Alter Column Type',
+        severity: Severity.ERROR,
+        message: 'Changing column type without USING clause can cause data loss',
+        ...rangeOf(statement, typeChange),
+        suggestion: 'Add USING clause to specify how to convert existing data, e.g., ALTER COLUMN name TYPE VARCHAR(100) USING name::VARCHAR(100)',
+        category: RuleCategory.SCHEMA_SAFETY
+      });
     }
 
     return violations;
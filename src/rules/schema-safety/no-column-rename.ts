@@ -1,6 +1,15 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, identifierName, maskLiterals, NodeOfType, rangeOf } from '../../core/sql-query';
 
-export const noColumnRenameRule: Rule = {
+interface ColumnRename {
+  tableName: string;
+  oldColumn: string;
+  newColumn: string;
+  /** The parsed rename, for its position in the file */
+  node?: NodeOfType<'alter_action_rename_column'>;
+}
+
+export const noColumnRenameRule: StatementRule = {
   id: 'no-column-rename',
   name: 'No Column Rename',
   description: 'Column renaming is a backward-incompatible change that can cause errors during deployment',
@@ -10,22 +19,35 @@ export const noColumnRenameRule: Rule = {
   recommendation: 'Use expand-and-contract pattern: add new column, copy data, update code, then drop old column',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
-    const content = statement.content.toUpperCase();
+    const ast = getAst(statement);
+
+    // Each rename found; undefined when the names could not be read from the text
+    let renames: (ColumnRename | undefined)[] = [];
 
-    // Check for column renaming operations - must include "RENAME COLUMN"
-    if (statement.type === 'ALTER_TABLE' && content.includes('RENAME COLUMN')) {
-      
+    if (ast) {
+      renames = findAll(ast, 'alter_table_stmt').flatMap(alter =>
+        findAll(alter, 'alter_action_rename_column').map(action => ({
+          tableName: identifierName(alter.table) ?? '',
+          oldColumn: action.oldName.name,
+          newColumn: action.newName.name,
+          node: action
+        }))
+      );
+    } else if (statement.type === 'ALTER_TABLE' && /\bRENAME\s+COLUMN\b/i.test(maskLiterals(statement.content))) {
       // Extract table and column information for better error message using original case
       const renameMatch = statement.content.match(/ALTER\s+TABLE\s+["`]?(\w+)["`]?\s+RENAME\s+COLUMN\s+["`]?(\w+)["`]?\s+TO\s+["`]?(\w+)["`]?/i);
-      
-      if (renameMatch) {
-        const [, tableName, oldColumn, newColumn] = renameMatch;
+      renames = [renameMatch ? { tableName: renameMatch[1], oldColumn: renameMatch[2], newColumn: renameMatch[3] } : undefined];
+    }
+
+    for (const rename of renames) {
+      if (rename) {
+        const { tableName, oldColumn, newColumn } = rename;
         violations.push({
           ruleId: 'no-column-rename',
           ruleName: 'No Column Rename',
           severity: Severity.ERROR,
           message: `Renaming column "${oldColumn}" to "${newColumn}" in table "${tableName}" is backward-incompatible`,
-          line: statement.startLine,
+          ...rangeOf(statement, rename.node),
           suggestion: `Use expand-and-contract pattern: 
 1. ALTER TABLE ${tableName} ADD COLUMN ${newColumn} <type>;
 2. UPDATE ${tableName} SET ${newColumn} = ${oldColumn};
@@ -40,7 +62,7 @@ export const noColumnRenameRule: Rule = {
           ruleName: 'No Column Rename',
           severity: Severity.ERROR,
           message: 'Column renaming is backward-incompatible and can cause deployment errors',
-          line: statement.startLine,
+          ...rangeOf(statement),
           suggestion: 'Use expand-and-contract pattern: add new column, copy data, update code references, then drop old column',
           category: RuleCategory.SCHEMA_SAFETY
         });
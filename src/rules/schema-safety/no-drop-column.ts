@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findFirst, getAst, maskLiterals, rangeOf } from '../../core/sql-query';
 
-export const noDropColumnRule: Rule = {
+export const noDropColumnRule: StatementRule = {
   id: 'no-drop-column',
   name: 'No Drop Column',
   description: 'Prevents dropping columns as it can cause data loss',
@@ -10,14 +11,19 @@ export const noDropColumnRule: Rule = {
   recommendation: 'Consider making the column nullable first, then dropping it in a later migration',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    const drop = findFirst(ast, 'alter_action_drop_column');
+    const dropsColumn = ast
+      ? drop !== undefined
+      : statement.type === 'ALTER_TABLE' && /\bDROP\s+COLUMN\b/i.test(maskLiterals(statement.content));
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('DROP COLUMN')) {
+    if (dropsColumn) {
       violations.push({
         ruleId: 'no-drop-column',
         ruleName: 'No Drop Column',
         severity: Severity.ERROR,
         message: 'Dropping columns can cause irreversible data loss',
-        line: statement.startLine,
+        ...rangeOf(statement, drop),
         suggestion: 'Consider making the column nullable first, then dropping it in a later migration',
         category: RuleCategory.SCHEMA_SAFETY
       });
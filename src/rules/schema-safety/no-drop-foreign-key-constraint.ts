@@ -1,6 +1,22 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation, RuleContext, RuleOptionsSchema } from '../../types';
+import { resolveRuleOptions } from '../../core/rule-options';
+import { findAll, getAst, identifierName, maskLiterals, NodeOfType, rangeOf } from '../../core/sql-query';
+import { sameName } from '../../core/schema-builder';
 
-export const noDropForeignKeyConstraintRule: Rule = {
+const optionsSchema: RuleOptionsSchema = {
+  prefixes: {
+    type: 'string[]',
+    description: 'Constraint name prefixes that identify foreign keys (case-insensitive)',
+    default: ['FK_']
+  },
+  suffixes: {
+    type: 'string[]',
+    description: 'Constraint name suffixes that identify foreign keys (case-insensitive)',
+    default: ['_FK']
+  }
+};
+
+export const noDropForeignKeyConstraintRule: StatementRule = {
   id: 'no-drop-foreign-key-constraint',
   name: 'No Drop Foreign Key Constraint',
   description: 'Dropping foreign key constraints removes referential integrity checks and can lead to data inconsistencies',
@@ -8,33 +24,53 @@ export const noDropForeignKeyConstraintRule: Rule = {
   category: RuleCategory.SCHEMA_SAFETY,
   enabled: true,
   recommendation: 'Consider if dropping the foreign key constraint is necessary. Ensure proper data validation in application code if removed.',
-  check: (statement: SQLStatement, migration: Migration): Violation[] => {
+  optionsSchema,
+  check: (statement: SQLStatement, migration: Migration, context?: RuleContext): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    const { prefixes, suffixes } = resolveRuleOptions(optionsSchema, context?.options);
+    const hasPrefix = (name: string) => (prefixes as string[]).some(prefix => name.toUpperCase().startsWith(prefix.toUpperCase()));
+    const hasSuffix = (name: string) => (suffixes as string[]).some(suffix => name.toUpperCase().endsWith(suffix.toUpperCase()));
+    let isDroppingForeignKey = false;
+    let drop: NodeOfType<'alter_action_drop_constraint'> | undefined;
+
+    if (ast) {
+      drop = findAll(ast, 'alter_table_stmt').flatMap(alter => {
+        const table = identifierName(alter.table) ?? '';
+        return findAll(alter, 'alter_action_drop_constraint').filter(action => {
+          const name = identifierName(action.constraint) ?? '';
+          // The replayed schema knows foreign keys whatever they are called
+          const known = context?.currentSchema?.constraints.some(constraint =>
+            constraint.type === 'FOREIGN KEY' && sameName(constraint.tableName, table) && sameName(constraint.name, name)
+          );
+          return known || hasPrefix(name) || hasSuffix(name);
+        });
+      })[0];
+      isDroppingForeignKey = drop !== undefined;
+    } else if (statement.type === 'ALTER_TABLE') {
+      const content = maskLiterals(statement.content);
+      const dropped = [...content.matchAll(/\bDROP\s+(CONSTRAINT|FOREIGN\s+KEY|INDEX|KEY)\s+(?:IF\s+EXISTS\s+)?["`]?([\w$]+)/gi)];
 
-    if (statement.type === 'ALTER_TABLE') {
-      const content = statement.content.toUpperCase();
-      
-      // Check for different syntax patterns for dropping foreign key constraints
-      const isDroppingForeignKey = (
+      isDroppingForeignKey = dropped.some(([, kind, name]) =>
         // MySQL specific: DROP FOREIGN KEY constraint_name
-        (content.includes('DROP FOREIGN KEY')) ||
+        /^FOREIGN/i.test(kind) ||
         // Some databases: DROP INDEX constraint_name (for foreign key indexes with FK naming)
-        (content.includes('DROP INDEX') && content.includes('FK_')) ||
+        (/^(INDEX|KEY)$/i.test(kind) && hasPrefix(name)) ||
         // Generic pattern for foreign key constraint names with FK prefix or suffix
-        (content.includes('DROP CONSTRAINT') && (content.includes('FK_') || content.includes('_FK')))
+        (/^CONSTRAINT$/i.test(kind) && (hasPrefix(name) || hasSuffix(name)))
       );
+    }
 
-      if (isDroppingForeignKey) {
-        violations.push({
-          ruleId: 'no-drop-foreign-key-constraint',
-          ruleName: 'No Drop Foreign Key Constraint',
-          severity: Severity.WARNING,
-          message: 'Dropping foreign key constraints removes referential integrity protection',
-          line: statement.startLine,
-          suggestion: 'Ensure data consistency is maintained through application logic or consider if the constraint drop is truly necessary',
-          category: RuleCategory.SCHEMA_SAFETY
-        });
-      }
+    if (isDroppingForeignKey) {
+      violations.push({
+        ruleId: 'no-drop-foreign-key-constraint',
+        ruleName: 'No Drop Foreign Key Constraint',
+        severity: Severity.WARNING,
+        message: 'Dropping foreign key constraints removes referential integrity protection',
+        ...rangeOf(statement, drop),
+        suggestion: 'Ensure data consistency is maintained through application logic or consider if the constraint drop is truly necessary',
+        category: RuleCategory.SCHEMA_SAFETY
+      });
     }
 
     return violations;
@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findFirst, getAst, rangeOf } from '../../core/sql-query';
 
-export const noDropTableRule: Rule = {
+export const noDropTableRule: StatementRule = {
   id: 'no-drop-table',
   name: 'No Drop Table',
   description: 'Prevents dropping tables as it can cause data loss',
@@ -10,14 +11,17 @@ export const noDropTableRule: Rule = {
   recommendation: 'Consider renaming the table first, then dropping it in a later migration after confirming data is not needed',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    const drop = findFirst(ast, 'drop_table_stmt');
+    const isDropTable = ast ? drop !== undefined : statement.type === 'DROP_TABLE';
 
-    if (statement.type === 'DROP_TABLE') {
+    if (isDropTable) {
       violations.push({
         ruleId: 'no-drop-table',
         ruleName: 'No Drop Table',
         severity: Severity.ERROR,
         message: 'Dropping tables can cause irreversible data loss',
-        line: statement.startLine,
+        ...rangeOf(statement, drop),
         suggestion: 'Consider renaming the table first, then dropping it in a later migration after confirming data is not needed',
         category: RuleCategory.SCHEMA_SAFETY
       });
@@ -1,6 +1,14 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, identifierName, maskLiterals, NodeOfType, rangeOf } from '../../core/sql-query';
 
-export const noTableRenameRule: Rule = {
+interface TableRename {
+  oldTable: string;
+  newTable: string;
+  /** The parsed rename, for its position in the file */
+  node?: NodeOfType<'alter_action_rename_table'>;
+}
+
+export const noTableRenameRule: StatementRule = {
   id: 'no-table-rename',
   name: 'No Table Rename',
   description: 'Table renaming is a backward-incompatible change that can cause errors during deployment',
@@ -10,42 +18,56 @@ export const noTableRenameRule: Rule = {
   recommendation: 'Use expand-and-contract pattern or create a view with the old name temporarily',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
-    const content = statement.content.toUpperCase();
+    const ast = getAst(statement);
+
+    // Each rename found; undefined when the names could not be read from the text
+    let renames: (TableRename | undefined)[] = [];
+
+    if (ast) {
+      renames = findAll(ast, 'alter_table_stmt').flatMap(alter =>
+        findAll(alter, 'alter_action_rename_table').map(action => ({
+          oldTable: identifierName(alter.table) ?? '',
+          newTable: identifierName(action.newName) ?? '',
+          node: action
+        }))
+      );
+    } else {
+      const content = maskLiterals(statement.content);
 
-    // Check for table renaming operations
-    if (statement.type === 'ALTER_TABLE' && content.includes('RENAME TO')) {
-      
-      // Check if this is a column rename (already handled by another rule)
-      if (!content.includes('RENAME COLUMN')) {
+      // Column renames are handled by no-column-rename
+      if (statement.type === 'ALTER_TABLE' && /\bRENAME\s+TO\b/i.test(content) && !/\bRENAME\s+COLUMN\b/i.test(content)) {
         // Extract table names for better error message using original case
         const renameMatch = statement.content.match(/ALTER\s+TABLE\s+["`]?(\w+)["`]?\s+RENAME\s+TO\s+["`]?(\w+)["`]?/i);
-        
-        if (renameMatch) {
-          const [, oldTable, newTable] = renameMatch;
-          violations.push({
-            ruleId: 'no-table-rename',
-            ruleName: 'No Table Rename',
-            severity: Severity.ERROR,
-            message: `Renaming table "${oldTable}" to "${newTable}" is backward-incompatible`,
-            line: statement.startLine,
-            suggestion: `Consider alternatives:
+        renames = [renameMatch ? { oldTable: renameMatch[1], newTable: renameMatch[2] } : undefined];
+      }
+    }
+
+    for (const rename of renames) {
+      if (rename) {
+        const { oldTable, newTable } = rename;
+        violations.push({
+          ruleId: 'no-table-rename',
+          ruleName: 'No Table Rename',
+          severity: Severity.ERROR,
+          message: `Renaming table "${oldTable}" to "${newTable}" is backward-incompatible`,
+          ...rangeOf(statement, rename.node),
+          suggestion: `Consider alternatives:
 1. Create a view: CREATE VIEW ${oldTable} AS SELECT * FROM ${newTable};
 2. Use expand-and-contract: create new table, migrate data, update code, drop old table
 3. Configure ORM to use new table name while keeping entity name unchanged`,
-            category: RuleCategory.SCHEMA_SAFETY
-          });
-        } else {
-          // Generic table rename detection
-          violations.push({
-            ruleId: 'no-table-rename',
-            ruleName: 'No Table Rename',
-            severity: Severity.ERROR,
-            message: 'Table renaming is backward-incompatible and can cause deployment errors',
-            line: statement.startLine,
-            suggestion: 'Consider using a view with the old name or expand-and-contract pattern',
-            category: RuleCategory.SCHEMA_SAFETY
-          });
-        }
+          category: RuleCategory.SCHEMA_SAFETY
+        });
+      } else {
+        // Generic table rename detection
+        violations.push({
+          ruleId: 'no-table-rename',
+          ruleName: 'No Table Rename',
+          severity: Severity.ERROR,
+          message: 'Table renaming is backward-incompatible and can cause deployment errors',
+          ...rangeOf(statement),
+          suggestion: 'Consider using a view with the old name or expand-and-contract pattern',
+          category: RuleCategory.SCHEMA_SAFETY
+        });
       }
     }
 
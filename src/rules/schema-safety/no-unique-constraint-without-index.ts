@@ -1,6 +1,8 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation, RuleContext } from '../../types';
+import { SchemaBuilder, findTable, hasIndexOn, sameName } from '../../core/schema-builder';
+import { findAll, getAst, rangeOf, TableConstraintInfo, tableConstraints } from '../../core/sql-query';
 
-export const noUniqueConstraintWithoutIndexRule: Rule = {
+export const noUniqueConstraintWithoutIndexRule: StatementRule = {
   id: 'no-unique-constraint-without-index',
   name: 'No Unique Constraint Without Index',
   description: 'Adding unique constraints can fail if duplicate data exists',
@@ -8,39 +10,56 @@ export const noUniqueConstraintWithoutIndexRule: Rule = {
   category: RuleCategory.SCHEMA_SAFETY,
   enabled: true,
   recommendation: 'Check for duplicates and create supporting index before adding unique constraint',
-  check: (statement: SQLStatement, migration: Migration): Violation[] => {
+  check: (statement: SQLStatement, migration: Migration, context?: RuleContext): Violation[] => {
     const violations: Violation[] = [];
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD CONSTRAINT')) {
-      const content = statement.content.toUpperCase();
-      
-      if (content.includes('UNIQUE')) {
-        // Extract the columns from the unique constraint
-        const uniqueMatch = content.match(/UNIQUE\s*\(([^)]+)\)/);
-        if (uniqueMatch) {
-          const columns = uniqueMatch[1].split(',').map(col => col.trim());
-          
-          // Check if there's a supporting index created in the same migration
-          const hasIndex = migration.statements.some(stmt => 
-            stmt.type === 'CREATE_INDEX' && 
-            columns.some(col => stmt.content.toUpperCase().includes(col))
-          );
-          
-          violations.push({
-            ruleId: 'no-unique-constraint-without-index',
-            ruleName: 'No Unique Constraint Without Index',
-            severity: Severity.WARNING,
-            message: `Adding unique constraint on "${columns.join(', ')}" may fail if duplicates exist`,
-            line: statement.startLine,
-            suggestion: hasIndex 
-              ? 'Check for duplicate data before applying this constraint'
-              : 'Create index first and check for duplicates before adding unique constraint',
-            category: RuleCategory.SCHEMA_SAFETY
-          });
-        }
+    if (statement.type !== 'ALTER_TABLE') {
+      return violations;
+    }
+
+    const ast = getAst(statement);
+    const constraints: { type: string; tableName?: string; columns: string[]; node?: TableConstraintInfo['node'] }[] = ast
+      ? findAll(ast, 'alter_table_stmt').flatMap(alter => tableConstraints(alter))
+      : SchemaBuilder.constraintsIn(statement, context?.dialect);
+    const uniqueConstraints = constraints.filter(c => c.type === 'UNIQUE');
+    if (uniqueConstraints.length === 0) {
+      return violations;
+    }
+
+    const schema = context?.resultingSchema ?? SchemaBuilder.replay([migration], context?.dialect);
+
+    for (const constraint of uniqueConstraints) {
+      const tableName = constraint.tableName ?? '';
+
+      // A table created by this migration has no rows that could be duplicates
+      if (findTable(schema, tableName)?.createdIn === migration.id) {
+        continue;
       }
+
+      // Look for a supporting index other than the one the constraint itself creates
+      const hasIndex = hasIndexOn({
+        ...schema,
+        constraints: schema.constraints.filter(c => !(c.type === 'UNIQUE' && sameName(c.tableName, tableName) && sameColumns(c.columns, constraint.columns)))
+      }, tableName, constraint.columns);
+
+      const columns = constraint.columns.join(', ');
+      violations.push({
+        ruleId: 'no-unique-constraint-without-index',
+        ruleName: 'No Unique Constraint Without Index',
+        severity: Severity.WARNING,
+        message: `Adding unique constraint on "${columns}" may fail if duplicates exist`,
+        ...rangeOf(statement, constraint.node),
+        suggestion: hasIndex
+          ? 'Check for duplicate data before applying this constraint'
+          : 'Create index first and check for duplicates before adding unique constraint',
+        category: RuleCategory.SCHEMA_SAFETY
+      });
     }
 
     return violations;
   }
-}; 
\ No newline at end of file
+};
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(column => b.some(other => sameName(column, other)));
+}
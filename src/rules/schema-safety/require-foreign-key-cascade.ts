@@ -1,6 +1,7 @@
-import { Rule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { StatementRule, Severity, RuleCategory, SQLStatement, Migration, Violation } from '../../types';
+import { findAll, getAst, maskLiterals, rangeOf, TableConstraintInfo, tableConstraints } from '../../core/sql-query';
 
-export const requireForeignKeyCascadeRule: Rule = {
+export const requireForeignKeyCascadeRule: StatementRule = {
   id: 'require-foreign-key-cascade',
   name: 'Require Foreign Key Cascade',
   description: 'Foreign keys should specify ON DELETE behavior to prevent orphaned data',
@@ -10,24 +11,31 @@ export const requireForeignKeyCascadeRule: Rule = {
   recommendation: 'Add ON DELETE CASCADE, SET NULL, or RESTRICT to foreign key constraints',
   check: (statement: SQLStatement, migration: Migration): Violation[] => {
     const violations: Violation[] = [];
+    const ast = getAst(statement);
+    let missingOnDelete: boolean;
+    let foreignKey: TableConstraintInfo | undefined;
 
-    if (statement.type === 'ALTER_TABLE' && statement.content.toUpperCase().includes('ADD CONSTRAINT')) {
-      const content = statement.content.toUpperCase();
-      
-      if (content.includes('FOREIGN KEY')) {
-        // Check if ON DELETE clause is specified
-        if (!content.includes('ON DELETE')) {
-          violations.push({
-            ruleId: 'require-foreign-key-cascade',
-            ruleName: 'Require Foreign Key Cascade',
-            severity: Severity.WARNING,
-            message: 'Foreign key constraint should specify ON DELETE behavior',
-            line: statement.startLine,
-            suggestion: 'Add ON DELETE CASCADE, SET NULL, or RESTRICT to prevent orphaned data',
-            category: RuleCategory.DATA_INTEGRITY
-          });
-        }
-      }
+    if (ast) {
+      foreignKey = findAll(ast, 'alter_table_stmt')
+        .flatMap(alter => tableConstraints(alter))
+        .find(constraint => constraint.type === 'FOREIGN KEY' && !constraint.references?.onDelete);
+      missingOnDelete = foreignKey !== undefined;
+    } else {
+      const content = maskLiterals(statement.content);
+      missingOnDelete = statement.type === 'ALTER_TABLE' && /\bADD\s+CONSTRAINT\b/i.test(content) &&
+        /\bFOREIGN\s+KEY\b/i.test(content) && !/\bON\s+DELETE\b/i.test(content);
+    }
+
+    if (missingOnDelete) {
+      violations.push({
+        ruleId: 'require-foreign-key-cascade',
+        ruleName: 'Require Foreign Key Cascade',
+        severity: Severity.WARNING,
+        message: 'Foreign key constraint should specify ON DELETE behavior',
+        ...rangeOf(statement, foreignKey?.node),
+        suggestion: 'Add ON DELETE CASCADE, SET NULL, or RESTRICT to prevent orphaned data',
+        category: RuleCategory.DATA_INTEGRITY
+      });
     }
 
     return violations;
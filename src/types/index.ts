@@ -5,14 +5,37 @@ export interface Migration {
   filename: string;
   content: string;
   statements: SQLStatement[];
+  comments?: SQLComment[];
 }
 
 export interface SQLStatement {
   type: string;
+  /** The statement's exact text in the migration file, without surrounding comments */
   content: string;
   startLine: number;
+  /** Column of the first character of `content` (default: 1) */
+  startColumn?: number;
+  /** Offset of the first character of `content` in the migration file */
+  startOffset?: number;
   endLine: number;
   ast?: any;
+  /** Why the parser could not read the statement, when `ast` is null */
+  parseError?: ParseError;
+}
+
+export interface ParseError {
+  /** The parser's message, such as `Unexpected "MODIFY"` */
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface SQLComment {
+  type: 'line' | 'block';
+  text: string;
+  line: number;
+  endLine: number;
+  column: number;
 }
 
 export interface Rule {
@@ -21,10 +44,108 @@ export interface Rule {
   description: string;
   severity: Severity;
   category: RuleCategory;
-  check: (statement: SQLStatement, migration: Migration) => Violation[];
+  /** Called for every statement in a migration. Every hook may return a Promise */
+  check?: (statement: SQLStatement, migration: Migration, context?: RuleContext) => RuleResult;
+  /** Called once per migration, for checks that reason about the whole file */
+  checkMigration?: (migration: Migration, context: RuleContext) => RuleResult;
+  /**
+   * Called once with every analyzed migration, in ID order, for checks across
+   * files. Violations must name the migration they belong to via migrationId.
+   */
+  checkProject?: (migrations: Migration[], context: RuleContext) => RuleResult;
+  /**
+   * Called once per migration file that changed compared to the base branch,
+   * when linting with --changed, including deleted files.
+   */
+  checkChange?: (change: MigrationChange, context: RuleContext) => RuleResult;
   recommendation?: string;
   autoFix?: (statement: SQLStatement) => string;
   enabled: boolean;
+  /** Options this rule accepts, validated when the configuration is loaded */
+  optionsSchema?: RuleOptionsSchema;
+  /** Configured option values, merged over the schema defaults */
+  options?: RuleOptions;
+}
+
+/** What a plugin package or file exports, as listed in the `plugins` setting */
+export interface Plugin {
+  /** Namespace of the rule IDs, such as `acme` for `acme/no-uuid-v1` (default: derived from the package name) */
+  name?: string;
+  /** Rules keyed by ID, or a list of rules */
+  rules: Record<string, Rule> | Rule[];
+}
+
+export type ChangeKind = 'added' | 'modified' | 'deleted' | 'renamed';
+
+/** A migration file changed compared to the base branch */
+export interface MigrationChange {
+  kind: ChangeKind;
+  /** Absolute path of the file; deleted files no longer exist */
+  filePath: string;
+  migrationId: string;
+  /** Absolute path the file was renamed from */
+  previousPath?: string;
+  previousMigrationId?: string;
+}
+
+/** Violations found by a rule hook, or a Promise of them for rules that read files or run heavier analysis */
+export type RuleResult = Violation[] | Promise<Violation[]>;
+
+/** A rule that inspects individual statements synchronously, as the built-in rules do */
+export type StatementRule = Omit<Rule, 'check'> & {
+  check: (statement: SQLStatement, migration: Migration, context?: RuleContext) => Violation[];
+};
+
+/** A rule that inspects whole migrations synchronously */
+export type MigrationRule = Omit<Rule, 'checkMigration'> & {
+  checkMigration: (migration: Migration, context: RuleContext) => Violation[];
+};
+
+/** A rule that inspects all migrations together synchronously */
+export type ProjectRule = Omit<Rule, 'checkProject'> & {
+  checkProject: (migrations: Migration[], context: RuleContext) => Violation[];
+};
+
+/** A rule that inspects how migration files changed compared to the base branch */
+export type ChangeRule = Omit<Rule, 'checkChange'> & {
+  checkChange: (change: MigrationChange, context: RuleContext) => Violation[];
+};
+
+export interface RuleContext extends MigrationContext {
+  options: RuleOptions;
+  /** The migrations directory, given to project hooks when the linter scanned it */
+  project?: ProjectContext;
+  /** IDs of the migrations on the base branch, given to change hooks */
+  baseMigrationIds?: string[];
+  /** Dialect the migrations are written in, as configured */
+  dialect?: DialectName;
+}
+
+export interface ProjectContext {
+  /** Directory containing the migrations, as configured */
+  migrationsPath: string;
+  /** Every directory in the migrations directory, in name order */
+  directories: MigrationDirectory[];
+}
+
+export interface MigrationDirectory {
+  /** Directory name, such as `20240101000000_init` */
+  name: string;
+  /** Whether the directory contains a `migration.sql` */
+  hasMigrationFile: boolean;
+}
+
+export type RuleOptions = Record<string, any>;
+
+export type RuleOptionsSchema = Record<string, RuleOptionSchema>;
+
+export interface RuleOptionSchema {
+  type: 'boolean' | 'string' | 'number' | 'integer' | 'string[]';
+  description: string;
+  default?: unknown;
+  minimum?: number;
+  /** Strings must compile as regular expressions */
+  format?: 'regex';
 }
 
 export interface Violation {
@@ -34,9 +155,31 @@ export interface Violation {
   message: string;
   line: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
+  filePath?: string;
+  migrationId?: string;
+  snippet?: string;
+  fingerprint?: string;
   suggestion?: string;
   autoFix?: string;
   category: RuleCategory;
+  suppression?: Suppression;
+  /** Stack trace of the error behind an `internal-error` diagnostic */
+  stack?: string;
+}
+
+export interface Suppression {
+  kind: SuppressionKind;
+  justification: string;
+  approver?: string;
+  line: number;
+}
+
+export enum SuppressionKind {
+  DIRECTIVE = 'directive',
+  SAFETY_ASSURED = 'safety-assured',
+  BASELINE = 'baseline'
 }
 
 export interface Config {
@@ -46,14 +189,50 @@ export interface Config {
   include?: string[];
   failOnWarning?: boolean;
   failOnError?: boolean;
+  reportUnusedDirectives?: boolean;
+  /** Severity of `parse-error` diagnostics for statements the parser could not read */
+  parseErrors?: Severity | 'off';
+  /** Fail the run when any statement could not be parsed */
+  strictParse?: boolean;
+  /** Fail the run when any rule crashes or times out */
+  failOnInternalError?: boolean;
+  baseline?: string;
+  /** Checksum file of applied migrations, checked by `lint --verify-lock` */
+  lockFile?: string;
   output?: OutputFormat;
   dialect: DialectName;
+  /** Rule settings for some migrations, applied in order over `rules` */
+  overrides?: ConfigOverride[];
+  /** Skip rule checks for migrations whose ID sorts before this one, such as `20240101000000` */
+  ignoreBefore?: string;
+  /** Plugin packages or files whose rules are added under their namespace */
+  plugins?: string[];
+  /** Directory of rule files, one rule per `.js` file */
+  rulesDir?: string;
+  /** Milliseconds an asynchronous rule may take for one check before it is abandoned */
+  ruleTimeout?: number;
+}
+
+export interface ConfigOverride {
+  /** Glob patterns matched against migration directories and files, relative to `migrationsPath` */
+  files: string | string[];
+  rules: Record<string, Partial<RuleConfig>>;
 }
 
 export interface RuleConfig {
   enabled: boolean;
   severity?: Severity;
-  options?: Record<string, any>;
+  options?: RuleOptions;
+}
+
+/**
+ * A configuration file or preset as written. Settings it leaves out come from
+ * the configurations it extends, and finally from the defaults.
+ */
+export interface UserConfig extends Partial<Omit<Config, 'rules'>> {
+  /** Presets (`prisma-strong-migrations:recommended`), packages or paths to configuration files */
+  extends?: string | string[];
+  rules?: Record<string, Partial<RuleConfig>>;
 }
 
 export enum Severity {
@@ -67,7 +246,8 @@ export enum RuleCategory {
   PERFORMANCE = 'performance',
   DATA_INTEGRITY = 'data-integrity',
   DEPLOYMENT_SAFETY = 'deployment-safety',
-  BEST_PRACTICES = 'best-practices'
+  BEST_PRACTICES = 'best-practices',
+  DIAGNOSTICS = 'diagnostics'
 }
 
 export enum OutputFormat {
@@ -76,19 +256,72 @@ export enum OutputFormat {
   JUNIT = 'junit'
 }
 
+export interface FileResult {
+  filePath: string;
+  migrationId: string;
+  violations: Violation[];
+  suppressed: Violation[];
+  acknowledged: Violation[];
+  baselined: Violation[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
+
 export interface LintResult {
   violations: Violation[];
+  results?: FileResult[];
+  suppressed?: Violation[];
+  acknowledged?: Violation[];
+  baselined?: Violation[];
   totalFiles: number;
   totalViolations: number;
   errorCount: number;
   warningCount: number;
   infoCount: number;
+  parsing?: ParseSummary;
+  /** Where the run spent its time, when timing was requested */
+  timing?: TimingReport;
+}
+
+export interface ParseSummary {
+  totalStatements: number;
+  /** Statements the parser could not read, which rules analyzed by text only */
+  textFallbackStatements: number;
+}
+
+/** Durations in milliseconds, slowest first */
+export interface TimingReport {
+  /** Finding, reading and parsing migration files, including the schema history */
+  scan: number;
+  rules: RuleTiming[];
+  migrations: MigrationTiming[];
+}
+
+export interface RuleTiming {
+  ruleId: string;
+  /** Cumulative time spent in the rule's hooks */
+  time: number;
+  /** Number of hook calls */
+  calls: number;
+}
+
+export interface MigrationTiming {
+  filePath: string;
+  /** Time spent parsing the file, every time it was read */
+  parse: number;
+  /** Time spent in rule hooks for statements and the migration as a whole */
+  rules: number;
+  total: number;
 }
 
 export interface MigrationContext {
   prismaSchema?: string;
   databaseUrl?: string;
+  /** Schema replayed from every migration before the current one */
   currentSchema?: DatabaseSchema;
+  /** Schema after the current migration has been applied */
+  resultingSchema?: DatabaseSchema;
 }
 
 export interface DatabaseSchema {
@@ -100,6 +333,8 @@ export interface DatabaseSchema {
 export interface Table {
   name: string;
   columns: Column[];
+  /** ID of the migration that created the table */
+  createdIn?: string;
 }
 
 export interface Column {
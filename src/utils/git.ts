@@ -1,5 +1,25 @@
 import { execSync } from 'child_process';
 import * as path from 'path';
+import { ChangeKind, MigrationChange } from '../types';
+
+export const DEFAULT_BASE = 'origin/main';
+
+/** `git diff --name-status` letters of the changes --changed classifies */
+const CHANGE_KINDS: Record<string, ChangeKind> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed'
+};
+
+/** `@@ -12,3 +14,5 @@`: the added side starts at line 14 and spans 5 lines, or 1 when the count is omitted */
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
+
+/** Lines `start` to `end`, inclusive */
+export interface LineRange {
+  start: number;
+  end: number;
+}
 
 export interface GitOptions {
   /** Base branch to compare against (default: origin/main) */
@@ -8,97 +28,217 @@ export interface GitOptions {
   addedOnly?: boolean;
   /** Include only modified files */
   modifiedOnly?: boolean;
-  /** Include both added and modified files (default: true) */
-  includeAll?: boolean;
 }
 
 export class GitUtils {
   /**
-   * Get the list of changed migration files compared to the base branch
+   * Classify every migration file change compared to the base branch as
+   * added, modified, deleted or renamed. Paths are absolute; deleted files
+   * no longer exist.
    */
-  static getChangedMigrationFiles(migrationsPath: string, options: GitOptions = {}): string[] {
+  static getMigrationChanges(migrationsPath: string, options: GitOptions = {}): MigrationChange[] {
     const {
-      base = 'origin/main',
+      base = DEFAULT_BASE,
       addedOnly = false,
-      modifiedOnly = false,
-      includeAll = true
+      modifiedOnly = false
     } = options;
 
     try {
       // Ensure we have the latest refs
       this.fetchOrigin();
 
-      let statusFilter = '';
-      if (addedOnly) {
-        statusFilter = '--diff-filter=A';
-      } else if (modifiedOnly) {
-        statusFilter = '--diff-filter=M';
-      } else if (includeAll) {
-        statusFilter = '--diff-filter=AM';
+      const filter = addedOnly ? 'A' : modifiedOnly ? 'M' : 'ADMR';
+      return this.diffMigrationFiles(`--diff-filter=${filter} ${base}...HEAD`, migrationsPath);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get changed migration files: ${error.message}`);
       }
+      throw error;
+    }
+  }
 
-      // Get changed files compared to base branch
-      const cmd = `git diff ${statusFilter} --name-only ${base}...HEAD`;
-      const output = execSync(cmd, { encoding: 'utf8' }).trim();
-      
-      if (!output) {
-        return [];
+  /**
+   * Classify every migration file change since a specific commit
+   */
+  static getMigrationChangesSinceCommit(migrationsPath: string, commitSha: string): MigrationChange[] {
+    try {
+      return this.diffMigrationFiles(`--diff-filter=ADMR ${commitSha}...HEAD`, migrationsPath);
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get changed migration files since commit: ${error.message}`);
       }
+      throw error;
+    }
+  }
 
-      const changedFiles = output.split('\n');
-      
-      // Filter for migration files in the specified migrations path
-      const migrationFiles = changedFiles.filter(file => {
-        // Check if file is in migrations directory and is a SQL file
-        const normalizedMigrationsPath = path.normalize(migrationsPath);
-        const normalizedFile = path.normalize(file);
-        
-        return normalizedFile.startsWith(normalizedMigrationsPath) && 
-               normalizedFile.endsWith('.sql');
-      });
-
-      // Convert to absolute paths
-      return migrationFiles.map(file => path.resolve(file));
+  /**
+   * Parse `git diff --name-status` output, with renames detected, for the
+   * SQL files in the migrations directory. A file renamed into or out of the
+   * directory counts as added or deleted.
+   */
+  private static diffMigrationFiles(diffArgs: string, migrationsPath: string): MigrationChange[] {
+    const output = execSync(`git diff --name-status -M ${diffArgs}`, { encoding: 'utf8' }).trim();
+    if (!output) {
+      return [];
+    }
+
+    const normalizedMigrationsPath = path.normalize(migrationsPath);
+    const isMigrationFile = (file: string | undefined): file is string =>
+      file !== undefined && path.normalize(file).startsWith(normalizedMigrationsPath) && file.endsWith('.sql');
+
+    const changes: MigrationChange[] = [];
+    for (const line of output.split('\n')) {
+      const [status, file, renamedTo] = line.split('\t');
+      const kind = CHANGE_KINDS[status.charAt(0)];
+
+      if (kind === 'renamed') {
+        if (isMigrationFile(file) && isMigrationFile(renamedTo)) {
+          changes.push(this.createChange('renamed', renamedTo, file));
+        } else if (isMigrationFile(renamedTo)) {
+          changes.push(this.createChange('added', renamedTo));
+        } else if (isMigrationFile(file)) {
+          changes.push(this.createChange('deleted', file));
+        }
+      } else if (kind && isMigrationFile(file)) {
+        changes.push(this.createChange(kind, file));
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Lines added to each migration file compared to the merge base with the
+   * base branch, keyed by absolute path. Files with only deleted lines map
+   * to no ranges; unchanged files are absent.
+   */
+  static getAddedLines(migrationsPath: string, options: GitOptions = {}): Map<string, LineRange[]> {
+    const { base = DEFAULT_BASE } = options;
+
+    try {
+      const diff = execSync(
+        `git diff -U0 --no-color --no-prefix -M ${base}...HEAD -- ${path.normalize(migrationsPath)}`,
+        { encoding: 'utf8' }
+      );
+      return this.parseAddedLines(diff);
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to get changed migration files: ${error.message}`);
+        throw new Error(`Failed to get added lines: ${error.message}`);
       }
       throw error;
     }
   }
 
   /**
-   * Get changed migration files since a specific commit
+   * Parse the hunks of `git diff -U0 --no-prefix` output into the line ranges
+   * added to each file, keyed by absolute path. Deleted files are skipped.
+   */
+  static parseAddedLines(diff: string): Map<string, LineRange[]> {
+    const addedLines = new Map<string, LineRange[]>();
+    let ranges: LineRange[] | undefined;
+    // File headers run from `diff --git` to the first hunk, so added lines starting with `++` are not mistaken for one
+    let inHeader = false;
+
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('diff --git ')) {
+        inHeader = true;
+        ranges = undefined;
+      } else if (inHeader && line.startsWith('+++ ')) {
+        const file = line.slice(4);
+        ranges = file === '/dev/null' ? undefined : [];
+        if (ranges) {
+          addedLines.set(path.resolve(file), ranges);
+        }
+      } else {
+        const hunk = HUNK_HEADER.exec(line);
+        if (!hunk) continue;
+
+        inHeader = false;
+        const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+        if (ranges && count > 0) {
+          ranges.push({ start: Number(hunk[1]), end: Number(hunk[1]) + count - 1 });
+        }
+      }
+    }
+
+    return addedLines;
+  }
+
+  /**
+   * Classify the staged migration file changes, for pre-commit hooks. Staged
+   * files are compared to the merge base with the base branch when it exists
+   * locally, so that migrations only committed on this branch still count as
+   * added, and to HEAD otherwise. Nothing is fetched, to keep hooks fast.
    */
-  static getChangedMigrationFilesSinceCommit(migrationsPath: string, commitSha: string): string[] {
+  static getStagedMigrationChanges(migrationsPath: string, options: GitOptions = {}): MigrationChange[] {
+    const { base = DEFAULT_BASE } = options;
+
     try {
-      const cmd = `git diff --diff-filter=AM --name-only ${commitSha}...HEAD`;
-      const output = execSync(cmd, { encoding: 'utf8' }).trim();
-      
-      if (!output) {
+      const stagedFiles = execSync('git diff --cached --no-renames --name-only', { encoding: 'utf8' })
+        .trim()
+        .split('\n')
+        .filter(Boolean)
+        .map(file => path.resolve(file));
+      if (stagedFiles.length === 0) {
         return [];
       }
 
-      const changedFiles = output.split('\n');
-      
-      // Filter for migration files
-      const migrationFiles = changedFiles.filter(file => {
-        const normalizedMigrationsPath = path.normalize(migrationsPath);
-        const normalizedFile = path.normalize(file);
-        
-        return normalizedFile.startsWith(normalizedMigrationsPath) && 
-               normalizedFile.endsWith('.sql');
-      });
-
-      return migrationFiles.map(file => path.resolve(file));
+      const ref = this.branchExists(base) ? this.getMergeBase(base) : 'HEAD';
+      const staged = new Set(stagedFiles);
+      return this.diffMigrationFiles(`--cached --diff-filter=ADMR ${ref}`, migrationsPath)
+        .filter(change => staged.has(change.filePath) || (change.previousPath !== undefined && staged.has(change.previousPath)));
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Failed to get changed migration files since commit: ${error.message}`);
+        throw new Error(`Failed to get staged migration files: ${error.message}`);
       }
       throw error;
     }
   }
 
+  /**
+   * Content of a file as staged in the index, which may differ from the
+   * working tree copy
+   */
+  static readStagedFile(filePath: string): string {
+    try {
+      return execSync(`git show ":./${path.relative(process.cwd(), filePath)}"`, { encoding: 'utf8' });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to read staged file ${filePath}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * IDs of the migrations in the migrations directory at a branch or commit,
+   * read from git without checking it out
+   */
+  static getMigrationIdsAt(migrationsPath: string, ref: string): string[] {
+    try {
+      const directory = `${path.normalize(migrationsPath).replace(/\/+$/, '')}/`;
+      const output = execSync(`git ls-tree -d --name-only ${ref} ${directory}`, { encoding: 'utf8' }).trim();
+      return output ? output.split('\n').map(dir => migrationIdOf(path.basename(dir))) : [];
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to list migrations at ${ref}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  private static createChange(kind: ChangeKind, file: string, previousFile?: string): MigrationChange {
+    return {
+      kind,
+      filePath: path.resolve(file),
+      migrationId: migrationIdOf(path.basename(path.dirname(file))),
+      ...(previousFile && {
+        previousPath: path.resolve(previousFile),
+        previousMigrationId: migrationIdOf(path.basename(path.dirname(previousFile)))
+      })
+    };
+  }
+
   /**
    * Check if we're in a git repository
    */
@@ -148,6 +288,20 @@ export class GitUtils {
     }
   }
 
+  /**
+   * Directory git runs hooks from, which `core.hooksPath` may move
+   */
+  static getHooksPath(): string {
+    try {
+      return path.resolve(execSync('git rev-parse --git-path hooks', { encoding: 'utf8' }).trim());
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to get hooks directory: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Get the merge base between current branch and base branch
    */
@@ -161,4 +315,9 @@ export class GitUtils {
       throw error;
     }
   }
-} 
\ No newline at end of file
+} 
+
+/** Migration ID from the directory name (Prisma format: YYYYMMDDHHMMSS_migration_name) */
+function migrationIdOf(directory: string): string {
+  return directory.split('_')[0] || directory;
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDocument } from 'yaml';
+import { GitUtils } from './git';
+
+export type HookManager = 'git' | 'husky' | 'lefthook';
+
+export const HOOK_MANAGERS: HookManager[] = ['git', 'husky', 'lefthook'];
+
+const LEFTHOOK_CONFIG_FILES = ['lefthook.yml', 'lefthook.yaml', '.lefthook.yml', '.lefthook.yaml'];
+const LEFTHOOK_COMMAND = 'prisma-strong-migrations';
+/** Marks a hook that already runs the linter, whatever options it passes */
+const LINT_COMMAND = 'prisma-strong-migrations lint';
+/** A last script line that ends the hook, such as `exec lint-staged` or `exit 0` */
+const TERMINATING_LINE = /^\s*(exit|exec)\b/;
+
+export interface HookOptions {
+  /** Where to install the hook (default: husky or lefthook when the project uses them, git otherwise) */
+  manager?: HookManager;
+  /** Configuration file the hook passes to the linter */
+  config?: string;
+  /** Project root (default: the current directory) */
+  cwd?: string;
+}
+
+export interface HookInstallation {
+  manager: HookManager;
+  /** Hook script or configuration file that runs the linter */
+  filePath: string;
+  /** False when the file already ran the linter and was left as it was */
+  changed: boolean;
+}
+
+/**
+ * Installs a pre-commit hook that lints staged migrations, into a git hook
+ * script or the husky or lefthook setup of the project. Existing hooks are
+ * extended, never replaced.
+ */
+export class HookInstaller {
+  /** The command the hook runs */
+  static getCommand(config?: string): string {
+    return `npx ${LINT_COMMAND} --staged${config ? ` --config ${config}` : ''}`;
+  }
+
+  static detectManager(cwd: string = process.cwd()): HookManager {
+    if (fs.existsSync(path.join(cwd, '.husky'))) {
+      return 'husky';
+    }
+    return findLefthookConfig(cwd) ? 'lefthook' : 'git';
+  }
+
+  static install(options: HookOptions = {}): HookInstallation {
+    const cwd = options.cwd ?? process.cwd();
+    const manager = options.manager ?? this.detectManager(cwd);
+    const command = this.getCommand(options.config);
+
+    switch (manager) {
+      case 'husky':
+        return { manager, ...appendToScript(path.join(cwd, '.husky', 'pre-commit'), command) };
+      case 'lefthook':
+        return { manager, ...addLefthookCommand(findLefthookConfig(cwd) ?? path.join(cwd, 'lefthook.yml'), command) };
+      case 'git':
+        return { manager, ...appendToScript(path.join(GitUtils.getHooksPath(), 'pre-commit'), command) };
+    }
+  }
+}
+
+function findLefthookConfig(cwd: string): string | undefined {
+  return LEFTHOOK_CONFIG_FILES.map(file => path.join(cwd, file)).find(filePath => fs.existsSync(filePath));
+}
+
+/** Add the command at the end of a hook script, creating an executable one if there is none */
+function appendToScript(filePath: string, command: string): Omit<HookInstallation, 'manager'> {
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+  if (existing?.includes(LINT_COMMAND)) {
+    return { filePath, changed: false };
+  }
+
+  const content = existing === undefined ? `#!/bin/sh\n${command}\n` : insertCommand(existing, command);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+  fs.chmodSync(filePath, 0o755);
+
+  return { filePath, changed: true };
+}
+
+/** Add the command as the last line of a script, or before it when it ends the hook with `exit` or `exec` */
+function insertCommand(script: string, command: string): string {
+  const lines = script.replace(/\n*$/, '').split('\n');
+  const end = TERMINATING_LINE.test(lines[lines.length - 1]) ? lines.length - 1 : lines.length;
+  lines.splice(end, 0, command);
+  return `${lines.join('\n')}\n`;
+}
+
+/** Add a pre-commit command to a lefthook configuration, keeping its comments and other commands */
+function addLefthookCommand(filePath: string, command: string): Omit<HookInstallation, 'manager'> {
+  const document = parseDocument(fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '');
+  if (document.errors.length > 0) {
+    throw new Error(`Failed to parse ${filePath}: ${document.errors[0].message}`);
+  }
+
+  const commandPath = ['pre-commit', 'commands', LEFTHOOK_COMMAND];
+  if (document.hasIn(commandPath)) {
+    return { filePath, changed: false };
+  }
+
+  document.setIn(commandPath, { run: command });
+  fs.writeFileSync(filePath, document.toString());
+
+  return { filePath, changed: true };
+}